@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSido,
+  normalizeAddress,
+  parseAddress,
+  formatAddress,
+  getSidoByPostalCode,
+  isPostalCode,
+} from '../parse';
+
+describe('Address Parsing', () => {
+  describe('normalizeSido', () => {
+    it('should convert abbreviations to official names', () => {
+      expect(normalizeSido('서울')).toBe('서울특별시');
+      expect(normalizeSido('서울시')).toBe('서울특별시');
+      expect(normalizeSido('경기')).toBe('경기도');
+      expect(normalizeSido('강원도')).toBe('강원특별자치도');
+      expect(normalizeSido('전라북도')).toBe('전북특별자치도');
+      expect(normalizeSido('세종시')).toBe('세종특별자치시');
+      expect(normalizeSido('부산광역시')).toBe('부산광역시');
+    });
+
+    it('should return null for unknown names', () => {
+      expect(normalizeSido('강남구')).toBeNull();
+      expect(normalizeSido('광주시')).toBeNull();
+    });
+  });
+
+  describe('normalizeAddress', () => {
+    it('should normalize sido and whitespace', () => {
+      expect(normalizeAddress('  서울시   강남구 테헤란로 123 ')).toBe('서울특별시 강남구 테헤란로 123');
+      expect(normalizeAddress('강남구 테헤란로 123')).toBe('강남구 테헤란로 123');
+    });
+  });
+
+  describe('parseAddress', () => {
+    it('should parse road-name addresses', () => {
+      expect(parseAddress('서울시 강남구 테헤란로 123, 4층 (역삼동)')).toEqual({
+        type: 'road',
+        sido: '서울특별시',
+        sigungu: '강남구',
+        road: '테헤란로',
+        buildingNumber: '123',
+        underground: false,
+        detail: '4층',
+        reference: '역삼동',
+      });
+    });
+
+    it('should parse two-level sigungu and numbered roads', () => {
+      expect(parseAddress('경기도 성남시 분당구 불정로 6')).toMatchObject({
+        sigungu: '성남시 분당구',
+        road: '불정로',
+        buildingNumber: '6',
+      });
+      expect(parseAddress('서울특별시 중구 세종대로23길 12-3 101동 202호')).toMatchObject({
+        road: '세종대로23길',
+        buildingNumber: '12-3',
+        detail: '101동 202호',
+      });
+    });
+
+    it('should parse addresses with eup/myeon and underground buildings', () => {
+      expect(parseAddress('경기 화성시 봉담읍 동화길 지하 12')).toMatchObject({
+        sido: '경기도',
+        sigungu: '화성시',
+        eupmyeondong: '봉담읍',
+        road: '동화길',
+        underground: true,
+        buildingNumber: '12',
+      });
+    });
+
+    it('should parse Sejong addresses without sigungu', () => {
+      expect(parseAddress('세종시 한누리대로 2130')).toMatchObject({
+        sido: '세종특별자치시',
+        sigungu: '',
+        road: '한누리대로',
+        buildingNumber: '2130',
+      });
+    });
+
+    it('should parse lot-number addresses', () => {
+      expect(parseAddress('서울특별시 강남구 역삼동 123-45 4층')).toEqual({
+        type: 'lot',
+        sido: '서울특별시',
+        sigungu: '강남구',
+        eupmyeondong: '역삼동',
+        lotNumber: '123-45',
+        mountain: false,
+        detail: '4층',
+      });
+      expect(parseAddress('충북 청주시 상당구 낭성면 관정리 산 12번지')).toMatchObject({
+        type: 'lot',
+        eupmyeondong: '낭성면',
+        ri: '관정리',
+        lotNumber: '12',
+        mountain: true,
+      });
+      expect(parseAddress('서울 중구 을지로1가 산5')).toMatchObject({
+        eupmyeondong: '을지로1가',
+        lotNumber: '5',
+        mountain: true,
+      });
+    });
+
+    it('should return null for unparseable addresses', () => {
+      expect(parseAddress('강남구 테헤란로 123')).toBeNull();
+      expect(parseAddress('서울특별시 강남구 테헤란로')).toBeNull();
+      expect(parseAddress('')).toBeNull();
+    });
+  });
+
+  describe('formatAddress', () => {
+    it('should round-trip parsed addresses', () => {
+      const addresses = [
+        '서울특별시 강남구 테헤란로 123, 4층 (역삼동)',
+        '경기도 화성시 봉담읍 동화길 지하 12',
+        '서울특별시 강남구 역삼동 123-45 4층',
+        '충청북도 청주시 상당구 낭성면 관정리 산12',
+      ];
+
+      addresses.forEach((address) => {
+        expect(formatAddress(parseAddress(address)!)).toBe(address);
+      });
+    });
+  });
+
+  describe('getSidoByPostalCode', () => {
+    it('should find sido by postal code prefix', () => {
+      expect(getSidoByPostalCode('06236')).toBe('서울특별시');
+      expect(getSidoByPostalCode('13529')).toBe('경기도');
+      expect(getSidoByPostalCode('30103')).toBe('세종특별자치시');
+      expect(getSidoByPostalCode('63309')).toBe('제주특별자치도');
+    });
+
+    it('should return null for invalid codes', () => {
+      expect(getSidoByPostalCode('135-080')).toBeNull();
+      expect(getSidoByPostalCode('99999')).toBeNull();
+      expect(getSidoByPostalCode('1234')).toBeNull();
+    });
+  });
+
+  describe('isPostalCode', () => {
+    it('should validate 5-digit postal codes', () => {
+      expect(isPostalCode('06236')).toBe(true);
+      expect(isPostalCode('135080')).toBe(false);
+      expect(isPostalCode('abcde')).toBe(false);
+    });
+
+    it('should check the region when given', () => {
+      expect(isPostalCode('06236', '서울')).toBe(true);
+      expect(isPostalCode('06236', '부산')).toBe(false);
+    });
+  });
+});
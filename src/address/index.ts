@@ -0,0 +1,11 @@
+/**
+ * Address Utilities
+ *
+ * 한국 주소 해석, 정규화, 우편번호 검증 유틸리티
+ */
+
+// Region data
+export * from './regions';
+
+// Parsing utilities
+export * from './parse';
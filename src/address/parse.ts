@@ -0,0 +1,232 @@
+/**
+ * Korean Address Parsing Utilities
+ *
+ * 도로명/지번 주소 해석, 시/도 명칭 정규화, 우편번호 검증
+ */
+
+import { sidoRegions } from './regions';
+
+/**
+ * 구조화된 주소
+ */
+export interface ParsedAddress {
+  /** 주소 유형 (도로명 / 지번) */
+  type: 'road' | 'lot';
+  /** 시/도 (정식 명칭) */
+  sido: string;
+  /** 시/군/구 (예: '강남구', '성남시 분당구', 세종시는 빈 문자열) */
+  sigungu: string;
+  /** 읍/면/동 (지번 주소의 동, 도로명 주소의 읍/면) */
+  eupmyeondong?: string;
+  /** 리 (지번 주소) */
+  ri?: string;
+  /** 도로명 (도로명 주소) */
+  road?: string;
+  /** 건물번호 (도로명 주소, 예: '123', '12-3') */
+  buildingNumber?: string;
+  /** 지하 건물 여부 */
+  underground?: boolean;
+  /** 지번 (지번 주소, 예: '123-45') */
+  lotNumber?: string;
+  /** 산 지번 여부 */
+  mountain?: boolean;
+  /** 상세주소 (동/호수, 층 등) */
+  detail: string;
+  /** 참고항목 (괄호 안의 법정동, 건물명) */
+  reference?: string;
+}
+
+const SIGUNGU_PATTERN = /^\S+(시|군|구)$/;
+const EUPMYEON_PATTERN = /^\S+(읍|면)$/;
+const DONG_PATTERN = /^\S+(동|가)$/;
+const RI_PATTERN = /^\S+리$/;
+const ROAD_PATTERN = /^\S+(로|길)$/;
+const NUMBER_PATTERN = /^(\d+(?:-\d+)?)(?:번지)?$/;
+
+/**
+ * 시/도 명칭을 정식 명칭으로 변환
+ * @returns 정식 명칭 (알 수 없는 명칭은 null)
+ *
+ * @example
+ * normalizeSido('서울시') // '서울특별시'
+ * normalizeSido('경기') // '경기도'
+ * normalizeSido('강원도') // '강원특별자치도'
+ */
+export function normalizeSido(name: string): string | null {
+  const trimmed = name.trim();
+  const region = sidoRegions.find((r) => r.name === trimmed || r.aliases.includes(trimmed));
+  return region ? region.name : null;
+}
+
+/**
+ * 주소의 시/도 약칭을 정식 명칭으로 바꾸고 공백 정리
+ * @example normalizeAddress('서울시  강남구 테헤란로 123') // '서울특별시 강남구 테헤란로 123'
+ */
+export function normalizeAddress(address: string): string {
+  const normalized = address.trim().replace(/\s+/g, ' ');
+  const [first, ...rest] = normalized.split(' ');
+  const sido = normalizeSido(first);
+
+  return sido ? [sido, ...rest].join(' ') : normalized;
+}
+
+/**
+ * 도로명 / 지번 주소를 구조화
+ * @param address - 주소 문자열 (시/도부터 시작)
+ * @returns 구조화된 주소 (해석할 수 없으면 null)
+ *
+ * @example
+ * parseAddress('서울시 강남구 테헤란로 123, 4층 (역삼동)')
+ * // { type: 'road', sido: '서울특별시', sigungu: '강남구', road: '테헤란로', buildingNumber: '123',
+ * //   underground: false, detail: '4층', reference: '역삼동' }
+ *
+ * @example
+ * parseAddress('경기 성남시 분당구 정자동 178-1')
+ * // { type: 'lot', sido: '경기도', sigungu: '성남시 분당구', eupmyeondong: '정자동', lotNumber: '178-1',
+ * //   mountain: false, detail: '' }
+ */
+export function parseAddress(address: string): ParsedAddress | null {
+  let text = address.trim();
+  let reference: string | undefined;
+
+  const referenceMatch = text.match(/\(([^)]*)\)\s*$/);
+  if (referenceMatch) {
+    reference = referenceMatch[1].trim();
+    text = text.slice(0, referenceMatch.index);
+  }
+
+  const tokens = text.replace(/,/g, ' ').trim().split(/\s+/);
+  let i = 0;
+
+  const sido = normalizeSido(tokens[i] ?? '');
+  if (!sido) return null;
+  i++;
+
+  const sigunguTokens: string[] = [];
+  while (sigunguTokens.length < 2 && i < tokens.length && SIGUNGU_PATTERN.test(tokens[i])) {
+    sigunguTokens.push(tokens[i++]);
+  }
+
+  let eupmyeondong: string | undefined;
+  if (i < tokens.length && EUPMYEON_PATTERN.test(tokens[i])) {
+    eupmyeondong = tokens[i++];
+  }
+
+  const base = { sido, sigungu: sigunguTokens.join(' ') };
+  const rest = () => tokens.slice(i).join(' ');
+  const withReference = <T extends object>(result: T) => (reference ? { ...result, reference } : result);
+
+  // 도로명 주소: 도로명 + (지하) + 건물번호
+  if (i < tokens.length && ROAD_PATTERN.test(tokens[i])) {
+    const road = tokens[i++];
+    const underground = tokens[i] === '지하';
+    if (underground) i++;
+
+    const number = tokens[i]?.match(NUMBER_PATTERN);
+    if (!number) return null;
+    i++;
+
+    return withReference({
+      type: 'road' as const,
+      ...base,
+      ...(eupmyeondong ? { eupmyeondong } : {}),
+      road,
+      buildingNumber: number[1],
+      underground,
+      detail: rest(),
+    });
+  }
+
+  // 지번 주소: 동/리 + (산) + 지번
+  if (!eupmyeondong && i < tokens.length && DONG_PATTERN.test(tokens[i])) {
+    eupmyeondong = tokens[i++];
+  }
+  let ri: string | undefined;
+  if (i < tokens.length && RI_PATTERN.test(tokens[i])) {
+    ri = tokens[i++];
+  }
+  if (!eupmyeondong && !ri) return null;
+
+  let mountain = false;
+  let lotToken = tokens[i];
+  if (lotToken === '산') {
+    mountain = true;
+    lotToken = tokens[++i];
+  } else if (lotToken?.startsWith('산')) {
+    mountain = true;
+    lotToken = lotToken.slice(1);
+  }
+
+  const lot = lotToken?.match(NUMBER_PATTERN);
+  if (!lot) return null;
+  i++;
+
+  return withReference({
+    type: 'lot' as const,
+    ...base,
+    ...(eupmyeondong ? { eupmyeondong } : {}),
+    ...(ri ? { ri } : {}),
+    lotNumber: lot[1],
+    mountain,
+    detail: rest(),
+  });
+}
+
+/**
+ * 구조화된 주소를 표준 표기로 변환
+ * @example
+ * formatAddress({ type: 'road', sido: '서울특별시', sigungu: '강남구', road: '테헤란로', buildingNumber: '123', detail: '4층', reference: '역삼동' })
+ * // '서울특별시 강남구 테헤란로 123, 4층 (역삼동)'
+ */
+export function formatAddress(address: ParsedAddress): string {
+  const parts = [address.sido, address.sigungu, address.eupmyeondong];
+
+  if (address.type === 'road') {
+    parts.push(address.road, address.underground ? '지하' : undefined, address.buildingNumber);
+  } else {
+    parts.push(address.ri, `${address.mountain ? '산' : ''}${address.lotNumber}`);
+  }
+
+  let result = parts.filter(Boolean).join(' ');
+  if (address.detail) {
+    result += address.type === 'road' ? `, ${address.detail}` : ` ${address.detail}`;
+  }
+  if (address.reference) {
+    result += ` (${address.reference})`;
+  }
+
+  return result;
+}
+
+/**
+ * 우편번호로 시/도 조회
+ * @returns 시/도 정식 명칭 (유효하지 않은 우편번호는 null)
+ *
+ * @example
+ * getSidoByPostalCode('06236') // '서울특별시'
+ * getSidoByPostalCode('48058') // '부산광역시'
+ */
+export function getSidoByPostalCode(value: string): string | null {
+  const cleaned = value.trim();
+  if (!/^[0-9]{5}$/.test(cleaned)) return null;
+
+  const prefix = Number(cleaned.slice(0, 2));
+  const region = sidoRegions.find(({ postalRange: [start, end] }) => prefix >= start && prefix <= end);
+  return region ? region.name : null;
+}
+
+/**
+ * 5자리 우편번호(국가기초구역번호) 검증
+ * @param value - 우편번호
+ * @param sido - 시/도 (지정 시 해당 시/도의 우편번호인지도 확인, 약칭 허용)
+ *
+ * @example
+ * isPostalCode('06236') // true
+ * isPostalCode('135-080') // false (6자리 구 우편번호)
+ * isPostalCode('06236', '부산') // false
+ */
+export function isPostalCode(value: string, sido?: string): boolean {
+  const region = getSidoByPostalCode(value);
+  if (!region) return false;
+  return sido === undefined || region === normalizeSido(sido);
+}
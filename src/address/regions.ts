@@ -0,0 +1,229 @@
+/**
+ * Korean Region Data
+ *
+ * 시/도 정식 명칭, 약칭, 우편번호(국가기초구역번호) 앞 두 자리 범위와 대표 시/군/구의 앞 세 자리
+ */
+
+/**
+ * 시/군/구 정보
+ */
+export interface SigunguRegion {
+  /** 명칭 (예: '강남구', '수원시 영통구') */
+  name: string;
+  /** 우편번호 앞 세 자리 (시/군/구 안의 대표값) */
+  postalPrefix: string;
+}
+
+/**
+ * 시/도 정보
+ */
+export interface SidoRegion {
+  /** 정식 명칭 */
+  name: string;
+  /** 약칭 및 예전 명칭 */
+  aliases: string[];
+  /** 우편번호 앞 두 자리 범위 [시작, 끝] */
+  postalRange: [number, number];
+  /** 대표 시/군/구 (mock 데이터 생성용, 전체 목록 아님) */
+  sigungu: SigunguRegion[];
+}
+
+export const sidoRegions: SidoRegion[] = [
+  {
+    name: '서울특별시',
+    aliases: ['서울', '서울시'],
+    postalRange: [1, 8],
+    sigungu: [
+      { name: '강남구', postalPrefix: '060' },
+      { name: '강동구', postalPrefix: '053' },
+      { name: '강서구', postalPrefix: '076' },
+      { name: '관악구', postalPrefix: '088' },
+      { name: '마포구', postalPrefix: '040' },
+      { name: '서초구', postalPrefix: '067' },
+      { name: '송파구', postalPrefix: '055' },
+      { name: '영등포구', postalPrefix: '072' },
+      { name: '용산구', postalPrefix: '043' },
+      { name: '종로구', postalPrefix: '030' },
+    ],
+  },
+  {
+    name: '경기도',
+    aliases: ['경기'],
+    postalRange: [10, 18],
+    sigungu: [
+      { name: '수원시 영통구', postalPrefix: '167' },
+      { name: '성남시 분당구', postalPrefix: '135' },
+      { name: '고양시 일산동구', postalPrefix: '104' },
+      { name: '용인시 수지구', postalPrefix: '168' },
+      { name: '화성시', postalPrefix: '183' },
+      { name: '부천시', postalPrefix: '145' },
+      { name: '안양시 동안구', postalPrefix: '140' },
+    ],
+  },
+  {
+    name: '인천광역시',
+    aliases: ['인천', '인천시'],
+    postalRange: [21, 23],
+    sigungu: [
+      { name: '연수구', postalPrefix: '219' },
+      { name: '남동구', postalPrefix: '215' },
+      { name: '부평구', postalPrefix: '213' },
+      { name: '서구', postalPrefix: '227' },
+      { name: '미추홀구', postalPrefix: '221' },
+    ],
+  },
+  {
+    name: '강원특별자치도',
+    aliases: ['강원', '강원도'],
+    postalRange: [24, 26],
+    sigungu: [
+      { name: '춘천시', postalPrefix: '242' },
+      { name: '원주시', postalPrefix: '264' },
+      { name: '강릉시', postalPrefix: '255' },
+      { name: '속초시', postalPrefix: '248' },
+    ],
+  },
+  {
+    name: '충청북도',
+    aliases: ['충북'],
+    postalRange: [27, 29],
+    sigungu: [
+      { name: '청주시 상당구', postalPrefix: '287' },
+      { name: '청주시 흥덕구', postalPrefix: '285' },
+      { name: '충주시', postalPrefix: '274' },
+      { name: '제천시', postalPrefix: '271' },
+    ],
+  },
+  {
+    name: '세종특별자치시',
+    aliases: ['세종', '세종시'],
+    postalRange: [30, 30],
+    sigungu: [],
+  },
+  {
+    name: '충청남도',
+    aliases: ['충남'],
+    postalRange: [31, 33],
+    sigungu: [
+      { name: '천안시 동남구', postalPrefix: '311' },
+      { name: '천안시 서북구', postalPrefix: '310' },
+      { name: '아산시', postalPrefix: '314' },
+      { name: '공주시', postalPrefix: '325' },
+      { name: '서산시', postalPrefix: '319' },
+    ],
+  },
+  {
+    name: '대전광역시',
+    aliases: ['대전', '대전시'],
+    postalRange: [34, 35],
+    sigungu: [
+      { name: '유성구', postalPrefix: '341' },
+      { name: '서구', postalPrefix: '352' },
+      { name: '중구', postalPrefix: '349' },
+      { name: '동구', postalPrefix: '346' },
+      { name: '대덕구', postalPrefix: '344' },
+    ],
+  },
+  {
+    name: '경상북도',
+    aliases: ['경북'],
+    postalRange: [36, 40],
+    sigungu: [
+      { name: '포항시 남구', postalPrefix: '377' },
+      { name: '경주시', postalPrefix: '381' },
+      { name: '구미시', postalPrefix: '392' },
+      { name: '안동시', postalPrefix: '367' },
+    ],
+  },
+  {
+    name: '대구광역시',
+    aliases: ['대구', '대구시'],
+    postalRange: [41, 43],
+    sigungu: [
+      { name: '수성구', postalPrefix: '420' },
+      { name: '달서구', postalPrefix: '427' },
+      { name: '북구', postalPrefix: '415' },
+      { name: '중구', postalPrefix: '419' },
+      { name: '동구', postalPrefix: '411' },
+    ],
+  },
+  {
+    name: '울산광역시',
+    aliases: ['울산', '울산시'],
+    postalRange: [44, 45],
+    sigungu: [
+      { name: '남구', postalPrefix: '446' },
+      { name: '중구', postalPrefix: '445' },
+      { name: '북구', postalPrefix: '442' },
+      { name: '울주군', postalPrefix: '449' },
+    ],
+  },
+  {
+    name: '부산광역시',
+    aliases: ['부산', '부산시'],
+    postalRange: [46, 49],
+    sigungu: [
+      { name: '해운대구', postalPrefix: '480' },
+      { name: '부산진구', postalPrefix: '472' },
+      { name: '수영구', postalPrefix: '482' },
+      { name: '동래구', postalPrefix: '477' },
+      { name: '남구', postalPrefix: '485' },
+      { name: '사하구', postalPrefix: '493' },
+    ],
+  },
+  {
+    name: '경상남도',
+    aliases: ['경남'],
+    postalRange: [50, 53],
+    sigungu: [
+      { name: '창원시 성산구', postalPrefix: '515' },
+      { name: '김해시', postalPrefix: '509' },
+      { name: '진주시', postalPrefix: '527' },
+      { name: '양산시', postalPrefix: '505' },
+    ],
+  },
+  {
+    name: '전북특별자치도',
+    aliases: ['전북', '전라북도'],
+    postalRange: [54, 56],
+    sigungu: [
+      { name: '전주시 완산구', postalPrefix: '549' },
+      { name: '전주시 덕진구', postalPrefix: '548' },
+      { name: '익산시', postalPrefix: '545' },
+      { name: '군산시', postalPrefix: '541' },
+    ],
+  },
+  {
+    name: '전라남도',
+    aliases: ['전남'],
+    postalRange: [57, 59],
+    sigungu: [
+      { name: '목포시', postalPrefix: '587' },
+      { name: '여수시', postalPrefix: '596' },
+      { name: '순천시', postalPrefix: '579' },
+      { name: '나주시', postalPrefix: '582' },
+    ],
+  },
+  {
+    name: '광주광역시',
+    // '광주시'는 경기도 광주시와 겹치므로 약칭에서 제외
+    aliases: ['광주'],
+    postalRange: [61, 62],
+    sigungu: [
+      { name: '북구', postalPrefix: '611' },
+      { name: '서구', postalPrefix: '619' },
+      { name: '남구', postalPrefix: '616' },
+      { name: '광산구', postalPrefix: '622' },
+      { name: '동구', postalPrefix: '614' },
+    ],
+  },
+  {
+    name: '제주특별자치도',
+    aliases: ['제주', '제주도'],
+    postalRange: [63, 63],
+    sigungu: [
+      { name: '제주시', postalPrefix: '631' },
+      { name: '서귀포시', postalPrefix: '635' },
+    ],
+  },
+];
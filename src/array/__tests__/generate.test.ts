@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { range, zip } from '../generate';
+
+describe('Array Generation Utilities', () => {
+  describe('range', () => {
+    it('should generate ranges', () => {
+      expect(range(5)).toEqual([0, 1, 2, 3, 4]);
+      expect(range(1, 5)).toEqual([1, 2, 3, 4]);
+      expect(range(0, 10, 3)).toEqual([0, 3, 6, 9]);
+    });
+
+    it('should support descending ranges', () => {
+      expect(range(5, 0, -2)).toEqual([5, 3, 1]);
+      expect(range(3, 0)).toEqual([3, 2, 1]);
+    });
+
+    it('should return empty array for impossible ranges', () => {
+      expect(range(0, 5, -1)).toEqual([]);
+      expect(range(0, 5, 0)).toEqual([]);
+    });
+  });
+
+  describe('zip', () => {
+    it('should pair items by index', () => {
+      expect(zip([1, 2, 3], ['a', 'b', 'c'])).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+        [3, 'c'],
+      ]);
+    });
+
+    it('should stop at the shortest array', () => {
+      expect(zip([1, 2], ['a'], [true, false])).toEqual([[1, 'a', true]]);
+      expect(zip()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { groupBy, keyBy, chunk, partition } from '../group';
+
+const users = [
+  { id: 1, name: 'Kim', role: 'admin' },
+  { id: 2, name: 'Lee', role: 'user' },
+  { id: 3, name: 'Park', role: 'user' },
+];
+
+describe('Array Grouping Utilities', () => {
+  describe('groupBy', () => {
+    it('should group by property name', () => {
+      expect(groupBy(users, 'role')).toEqual({ admin: [users[0]], user: [users[1], users[2]] });
+    });
+
+    it('should group by function', () => {
+      expect(groupBy([1.2, 1.8, 2.1], Math.floor)).toEqual({ 1: [1.2, 1.8], 2: [2.1] });
+    });
+  });
+
+  describe('keyBy', () => {
+    it('should index items by key', () => {
+      expect(keyBy(users, 'id')[2]).toBe(users[1]);
+      expect(Object.keys(keyBy(users, (user) => user.name))).toEqual(['Kim', 'Lee', 'Park']);
+    });
+
+    it('should store __proto__ as an own key without changing the prototype', () => {
+      const items = [{ key: '__proto__' }, { key: 'a' }];
+      const indexed = keyBy(items, 'key');
+
+      expect(Object.getPrototypeOf(indexed)).toBe(Object.prototype);
+      expect(Object.keys(indexed)).toEqual(['__proto__', 'a']);
+      expect(Object.getOwnPropertyDescriptor(indexed, '__proto__')?.value).toBe(items[0]);
+
+      const grouped = groupBy(items, 'key');
+      expect(Object.getPrototypeOf(grouped)).toBe(Object.prototype);
+      expect(Object.getOwnPropertyDescriptor(grouped, '__proto__')?.value).toEqual([items[0]]);
+    });
+  });
+
+  describe('chunk', () => {
+    it('should split into chunks', () => {
+      expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+      expect(chunk([1, 2], 5)).toEqual([[1, 2]]);
+    });
+
+    it('should return empty array for invalid size', () => {
+      expect(chunk([1, 2], 0)).toEqual([]);
+      expect(chunk([1, 2], NaN)).toEqual([]);
+    });
+  });
+
+  describe('partition', () => {
+    it('should split by predicate', () => {
+      expect(partition([1, 2, 3, 4], (n) => n % 2 === 0)).toEqual([
+        [2, 4],
+        [1, 3],
+      ]);
+    });
+
+    it('should narrow types with type guards', () => {
+      const [strings, numbers] = partition<string | number, string>(['a', 1, 'b'], (v): v is string => typeof v === 'string');
+      expect(strings.map((s) => s.toUpperCase())).toEqual(['A', 'B']);
+      expect(numbers.map((n) => n + 1)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { uniqBy, difference, intersection } from '../set';
+
+describe('Array Set Operations', () => {
+  describe('uniqBy', () => {
+    it('should keep the first item for each key', () => {
+      expect(uniqBy([{ id: 1, v: 'a' }, { id: 2, v: 'b' }, { id: 1, v: 'c' }], 'id')).toEqual([
+        { id: 1, v: 'a' },
+        { id: 2, v: 'b' },
+      ]);
+      expect(uniqBy(['a', 'A', 'b'], (s) => s.toLowerCase())).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('difference', () => {
+    it('should compare values by default', () => {
+      expect(difference([1, 2, 3], [2])).toEqual([1, 3]);
+    });
+
+    it('should compare by key', () => {
+      expect(difference([{ id: 1 }, { id: 2 }], [{ id: 2 }], 'id')).toEqual([{ id: 1 }]);
+    });
+  });
+
+  describe('intersection', () => {
+    it('should compare values by default', () => {
+      expect(intersection([1, 2, 3], [2, 3, 4])).toEqual([2, 3]);
+    });
+
+    it('should compare by key function', () => {
+      expect(intersection([{ id: 1 }, { id: 2 }], [{ id: 2 }], (item) => item.id)).toEqual([{ id: 2 }]);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { sortBy } from '../sort';
+
+describe('sortBy', () => {
+  it('should sort Korean strings by collation', () => {
+    expect(sortBy(['하', '나', '가', '다'], (s) => s)).toEqual(['가', '나', '다', '하']);
+  });
+
+  it('should compare numeric parts by value', () => {
+    expect(sortBy([{ name: 'file10' }, { name: 'file2' }], 'name').map((f) => f.name)).toEqual(['file2', 'file10']);
+  });
+
+  it('should sort by multiple keys and directions', () => {
+    const users = [
+      { name: '이영희', age: 30 },
+      { name: '김철수', age: 25 },
+      { name: '박민수', age: 30 },
+    ];
+
+    expect(sortBy(users, [{ key: 'age', order: 'desc' }, 'name']).map((u) => u.name)).toEqual([
+      '박민수',
+      '이영희',
+      '김철수',
+    ]);
+  });
+
+  it('should put null and undefined last', () => {
+    const items = [{ v: null }, { v: 2 }, { v: undefined }, { v: 1 }];
+    expect(sortBy(items, 'v').map((i) => i.v)).toEqual([1, 2, null, undefined]);
+    expect(sortBy(items, { key: 'v', order: 'desc' }).map((i) => i.v)).toEqual([2, 1, null, undefined]);
+  });
+
+  it('should put NaN and invalid Dates last with a consistent order', () => {
+    const items = [{ v: NaN }, { v: 3 }, { v: undefined }, { v: 1 }, { v: NaN }, { v: 2 }];
+    expect(sortBy(items, 'v').map((i) => i.v)).toEqual([1, 2, 3, NaN, undefined, NaN]);
+    expect(sortBy([...items].reverse(), 'v').map((i) => i.v)).toEqual([1, 2, 3, NaN, undefined, NaN]);
+
+    const dates = [new Date('invalid'), new Date('2024-01-01'), new Date('2023-01-01')];
+    expect(sortBy(dates, (d) => d).map((d) => d.getTime())).toEqual([dates[2].getTime(), dates[1].getTime(), NaN]);
+  });
+
+  it('should compare numbers, booleans and mixed types', () => {
+    expect(sortBy([10, -Infinity, 2, Infinity], (n) => n)).toEqual([-Infinity, 2, 10, Infinity]);
+    expect(sortBy([true, false, true], (b) => b)).toEqual([false, true, true]);
+    expect(sortBy(['b', 1, 'a', 2] as (string | number)[], (v) => v)).toEqual([1, 2, 'a', 'b']);
+  });
+
+  it('should sort Dates and keep original order for ties without mutating', () => {
+    const items = [
+      { id: 1, date: new Date('2024-02-01') },
+      { id: 2, date: new Date('2024-01-01') },
+      { id: 3, date: new Date('2024-01-01') },
+    ];
+
+    expect(sortBy(items, 'date').map((i) => i.id)).toEqual([2, 3, 1]);
+    expect(items[0].id).toBe(1);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Array Generation Utilities
+ */
+
+/**
+ * 숫자 범위 생성 (end는 포함하지 않음)
+ * @example range(5) // [0, 1, 2, 3, 4]
+ * @example range(1, 5) // [1, 2, 3, 4]
+ * @example range(0, 10, 3) // [0, 3, 6, 9]
+ * @example range(5, 0, -2) // [5, 3, 1]
+ */
+export function range(start: number, end?: number, step?: number): number[] {
+  const from = end === undefined ? 0 : start;
+  const to = end === undefined ? start : end;
+  const by = step ?? (to < from ? -1 : 1);
+
+  if (by === 0 || !Number.isFinite(by)) return [];
+
+  const length = Math.max(Math.ceil((to - from) / by), 0);
+  return Array.from({ length }, (_, i) => from + i * by);
+}
+
+/**
+ * 여러 배열을 같은 인덱스끼리 묶기 (가장 짧은 배열 길이 기준)
+ * @example zip([1, 2, 3], ['a', 'b', 'c']) // [[1, 'a'], [2, 'b'], [3, 'c']]
+ * @example zip([1, 2], ['a']) // [[1, 'a']]
+ */
+export function zip<T extends unknown[][]>(...arrays: T): { [K in keyof T]: T[K] extends (infer U)[] ? U : never }[] {
+  if (arrays.length === 0) return [];
+
+  const length = Math.min(...arrays.map((array) => array.length));
+  return Array.from({ length }, (_, i) => arrays.map((array) => array[i])) as {
+    [K in keyof T]: T[K] extends (infer U)[] ? U : never;
+  }[];
+}
@@ -0,0 +1,69 @@
+/**
+ * Array Grouping Utilities
+ */
+
+import { selectKey, type KeySelector } from './selector';
+
+// '__proto__' 같은 키도 프로토타입을 바꾸지 않고 자기 속성으로 저장
+function setOwn<K extends PropertyKey, V>(target: Record<K, V>, key: K, value: V) {
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+/**
+ * 기준 값별로 묶기
+ * @example
+ * groupBy(users, 'role') // { admin: [...], user: [...] }
+ * groupBy([1.2, 1.8, 2.1], Math.floor) // { 1: [1.2, 1.8], 2: [2.1] }
+ */
+export function groupBy<T, K extends PropertyKey>(items: readonly T[], key: KeySelector<T, K>): Record<K, T[]> {
+  const result = {} as Record<K, T[]>;
+  items.forEach((item) => {
+    const group = selectKey(item, key);
+    if (!Object.prototype.hasOwnProperty.call(result, group)) setOwn(result, group, []);
+    result[group].push(item);
+  });
+  return result;
+}
+
+/**
+ * 기준 값을 키로 하는 객체로 변환 (같은 키는 마지막 항목)
+ * @example keyBy([{ id: 1, name: 'Kim' }], 'id') // { 1: { id: 1, name: 'Kim' } }
+ */
+export function keyBy<T, K extends PropertyKey>(items: readonly T[], key: KeySelector<T, K>): Record<K, T> {
+  const result = {} as Record<K, T>;
+  items.forEach((item) => {
+    setOwn(result, selectKey(item, key), item);
+  });
+  return result;
+}
+
+/**
+ * 지정한 크기로 나누기 (마지막 묶음은 더 작을 수 있음, size가 1보다 작으면 빈 배열)
+ * @example chunk([1, 2, 3, 4, 5], 2) // [[1, 2], [3, 4], [5]]
+ */
+export function chunk<T>(items: readonly T[], size: number): T[][] {
+  const step = Math.floor(size);
+  if (!(step >= 1)) return [];
+
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += step) {
+    result.push(items.slice(i, i + step));
+  }
+  return result;
+}
+
+/**
+ * 조건에 맞는 항목과 맞지 않는 항목으로 나누기
+ * @example partition([1, 2, 3, 4], (n) => n % 2 === 0) // [[2, 4], [1, 3]]
+ */
+export function partition<T, S extends T>(
+  items: readonly T[],
+  predicate: (item: T, index: number) => item is S
+): [S[], Exclude<T, S>[]];
+export function partition<T>(items: readonly T[], predicate: (item: T, index: number) => boolean): [T[], T[]];
+export function partition<T>(items: readonly T[], predicate: (item: T, index: number) => boolean): [T[], T[]] {
+  const matched: T[] = [];
+  const rest: T[] = [];
+  items.forEach((item, index) => (predicate(item, index) ? matched : rest).push(item));
+  return [matched, rest];
+}
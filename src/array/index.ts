@@ -0,0 +1,17 @@
+/**
+ * Array Utilities
+ *
+ * 배열 그룹화, 집합 연산, 정렬, 생성 관련 유틸리티 함수들
+ */
+
+// Grouping & chunking utilities
+export * from './group';
+
+// Set operations by key
+export * from './set';
+
+// Sorting utilities
+export * from './sort';
+
+// Generation utilities
+export * from './generate';
@@ -0,0 +1,20 @@
+/**
+ * Array Key Selector
+ */
+
+/**
+ * 배열 항목에서 기준 값을 고르는 방법 (속성 이름 또는 함수)
+ * @example
+ * const byRole: KeySelector<User> = 'role'
+ * const byAge: KeySelector<User, number> = (user) => user.age
+ */
+export type KeySelector<T, R = unknown> = keyof T | ((item: T) => R);
+
+/**
+ * 항목에서 기준 값 꺼내기 (속성 이름이면 속성 값, 함수면 호출 결과)
+ * @example selectKey({ id: 1, name: 'Kim' }, 'name') // 'Kim'
+ * @example selectKey(1.8, Math.floor) // 1
+ */
+export function selectKey<T, R = unknown>(item: T, selector: KeySelector<T, R>): R {
+  return typeof selector === 'function' ? selector(item) : (item[selector] as unknown as R);
+}
@@ -0,0 +1,42 @@
+/**
+ * Array Set Operations
+ */
+
+import { selectKey, type KeySelector } from './selector';
+
+const identity = <T>(item: T) => item;
+
+/**
+ * 기준 값이 중복되는 항목 제거 (처음 나온 항목 유지)
+ * @example uniqBy([{ id: 1 }, { id: 2 }, { id: 1 }], 'id') // [{ id: 1 }, { id: 2 }]
+ * @example uniqBy(['a', 'A', 'b'], (s) => s.toLowerCase()) // ['a', 'b']
+ */
+export function uniqBy<T>(items: readonly T[], key: KeySelector<T>): T[] {
+  const seen = new Set<unknown>();
+  return items.filter((item) => {
+    const value = selectKey(item, key);
+    if (seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+}
+
+/**
+ * 다른 배열에 없는 항목만 (기준 값으로 비교, 생략하면 값 자체)
+ * @example difference([1, 2, 3], [2]) // [1, 3]
+ * @example difference(users, removedUsers, 'id')
+ */
+export function difference<T>(items: readonly T[], others: readonly T[], key: KeySelector<T> = identity): T[] {
+  const excluded = new Set(others.map((item) => selectKey(item, key)));
+  return items.filter((item) => !excluded.has(selectKey(item, key)));
+}
+
+/**
+ * 다른 배열에도 있는 항목만 (기준 값으로 비교, 생략하면 값 자체)
+ * @example intersection([1, 2, 3], [2, 3, 4]) // [2, 3]
+ * @example intersection(users, onlineUsers, (user) => user.id)
+ */
+export function intersection<T>(items: readonly T[], others: readonly T[], key: KeySelector<T> = identity): T[] {
+  const included = new Set(others.map((item) => selectKey(item, key)));
+  return items.filter((item) => included.has(selectKey(item, key)));
+}
@@ -0,0 +1,82 @@
+/**
+ * Array Sorting Utilities
+ */
+
+import { selectKey, type KeySelector } from './selector';
+
+/**
+ * 정렬 기준 (기준 값 또는 기준 값과 방향)
+ */
+export type SortCriterion<T> = KeySelector<T> | { key: KeySelector<T>; order?: 'asc' | 'desc' };
+
+/**
+ * sortBy 옵션
+ */
+export interface SortByOptions {
+  /** 문자열 비교 로케일 (기본값: 'ko') */
+  locale?: string;
+}
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'number' && Number.isNaN(value)) ||
+  (value instanceof Date && Number.isNaN(value.getTime()));
+
+/**
+ * 여러 기준으로 정렬 (원본은 변경하지 않음)
+ * 문자열은 로케일 규칙(기본 한국어, 숫자는 크기순)으로 비교하고, null, undefined, NaN, 잘못된 Date는 방향과 관계없이 맨 뒤에 둡니다.
+ * 타입이 다른 값끼리는 문자열로 바꿔 비교합니다.
+ * 기준 값이 모두 같으면 원래 순서를 유지합니다.
+ *
+ * @example
+ * sortBy(['나', '가', '다'], (s) => s) // ['가', '나', '다']
+ * sortBy(files, 'name') // ['file2', 'file10'] 순서
+ *
+ * @example
+ * sortBy(users, [{ key: 'age', order: 'desc' }, 'name'])
+ */
+export function sortBy<T>(
+  items: readonly T[],
+  criteria: SortCriterion<T> | SortCriterion<T>[],
+  options: SortByOptions = {}
+): T[] {
+  const collator = new Intl.Collator(options.locale ?? 'ko', { numeric: true });
+  const list = (Array.isArray(criteria) ? criteria : [criteria]).map((criterion) =>
+    typeof criterion === 'object'
+      ? { key: criterion.key, direction: criterion.order === 'desc' ? -1 : 1 }
+      : { key: criterion, direction: 1 }
+  );
+
+  const compare = (a: unknown, b: unknown): number => {
+    const left = a instanceof Date ? a.getTime() : a;
+    const right = b instanceof Date ? b.getTime() : b;
+
+    if (
+      (typeof left === 'number' && typeof right === 'number') ||
+      (typeof left === 'bigint' && typeof right === 'bigint') ||
+      (typeof left === 'boolean' && typeof right === 'boolean')
+    ) {
+      return left === right ? 0 : left < right ? -1 : 1;
+    }
+    return collator.compare(String(a), String(b));
+  };
+
+  return [...items].sort((a, b) => {
+    for (const { key, direction } of list) {
+      const left = selectKey(a, key);
+      const right = selectKey(b, key);
+      const leftEmpty = isEmpty(left);
+      const rightEmpty = isEmpty(right);
+
+      if (leftEmpty || rightEmpty) {
+        if (leftEmpty !== rightEmpty) return leftEmpty ? 1 : -1;
+        continue;
+      }
+
+      const result = compare(left, right);
+      if (result !== 0) return result * direction;
+    }
+    return 0;
+  });
+}
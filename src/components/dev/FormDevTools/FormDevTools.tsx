@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useCopyToClipboard } from '../../../hooks/useCopyToClipboard';
+import { diffValues } from '../../../form/diff';
 import {
   getContainerStyle,
   getToggleButtonStyle,
@@ -203,39 +204,14 @@ export default function FormDevTools({ form, validationSchema, generateMock, pos
   const dirtyFieldsCount = Object.keys(formState.dirtyFields || {}).length;
   const touchedFieldsCount = Object.keys(formState.touchedFields || {}).length;
 
-  // Changed Fields 계산: dirtyFields를 기반으로 실제 변경된 값들을 추출
+  // Changed Fields 계산: defaultValues와 현재 값을 경로별로 비교
   const getChangedFields = () => {
-    if (!formState.dirtyFields || !values) return {};
+    if (!values) return {};
 
-    const changed: Record<string, any> = {};
-    const getNestedValue = (obj: Record<string, any>, path: string) => {
-      return path.split('.').reduce((acc, key) => acc?.[key], obj);
-    };
-
-    const processDirtyFields = (dirty: Record<string, any>, prefix = '') => {
-      Object.keys(dirty).forEach((key) => {
-        const fullPath = prefix ? `${prefix}.${key}` : key;
-        const dirtyValue = dirty[key];
-
-        if (dirtyValue === true) {
-          // 최종 필드인 경우
-          const currentValue = getNestedValue(values, fullPath);
-          const originalValue = originalValues ? getNestedValue(originalValues, fullPath) : undefined;
-
-          if (JSON.stringify(currentValue) !== JSON.stringify(originalValue)) {
-            changed[fullPath] = {
-              from: originalValue,
-              to: currentValue,
-            };
-          }
-        } else if (typeof dirtyValue === 'object' && dirtyValue !== null) {
-          // 중첩된 객체인 경우 재귀적으로 처리
-          processDirtyFields(dirtyValue, fullPath);
-        }
-      });
-    };
-
-    processDirtyFields(formState.dirtyFields);
+    const changed: Record<string, { from: unknown; to: unknown }> = {};
+    diffValues(originalValues ?? {}, values).forEach(({ path, from, to }) => {
+      changed[path] = { from, to };
+    });
     return changed;
   };
 
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getHolidays,
+  getHolidaysOn,
+  isHoliday,
+  isBusinessDay,
+  addBusinessDays,
+  nextBusinessDay,
+  businessDaysBetween,
+} from './holiday';
+import { formatDate } from './index';
+
+const ymd = (date: Date | null) => (date ? formatDate(date, 'YYYY-MM-DD') : null);
+
+describe('Holidays', () => {
+  describe('getHolidays', () => {
+    it('should include fixed and lunar holidays', () => {
+      const dates = getHolidays(2024).map((h) => `${h.date} ${h.name}`);
+      expect(dates).toEqual([
+        '2024-01-01 신정',
+        '2024-02-09 설날',
+        '2024-02-10 설날',
+        '2024-02-11 설날',
+        '2024-02-12 대체공휴일(설날)',
+        '2024-03-01 삼일절',
+        '2024-05-05 어린이날',
+        '2024-05-06 대체공휴일(어린이날)',
+        '2024-05-15 부처님오신날',
+        '2024-06-06 현충일',
+        '2024-08-15 광복절',
+        '2024-09-16 추석',
+        '2024-09-17 추석',
+        '2024-09-18 추석',
+        '2024-10-03 개천절',
+        '2024-10-09 한글날',
+        '2024-12-25 성탄절',
+      ]);
+    });
+
+    it('should add substitute holidays when holidays overlap', () => {
+      // 어린이날과 부처님오신날이 겹침
+      expect(getHolidaysOn('2025-05-06')).toEqual([
+        { date: '2025-05-06', name: '대체공휴일(부처님오신날)', substitute: true },
+      ]);
+      // 추석과 개천절이 겹침
+      expect(isHoliday('2017-10-06')).toBe(true);
+    });
+
+    it('should apply substitute rules by year', () => {
+      // 추석 연휴 토요일은 대체공휴일 없음
+      expect(getHolidays(2023).filter((h) => h.substitute).map((h) => h.date)).toEqual([
+        '2023-01-24',
+        '2023-05-29',
+      ]);
+      // 2021년 8월 이전 삼일절은 대체공휴일 없음
+      expect(isHoliday('2020-03-02')).toBe(false);
+      expect(isHoliday('2025-03-03')).toBe(true);
+      // 2014년 첫 대체공휴일
+      expect(isHoliday('2014-09-10')).toBe(true);
+      expect(isHoliday('2013-02-12')).toBe(false);
+    });
+
+    it('should respect holiday periods', () => {
+      expect(isHoliday('2012-10-09')).toBe(false);
+      expect(isHoliday('2005-04-05')).toBe(true);
+      expect(isHoliday('2006-04-05')).toBe(false);
+    });
+  });
+
+  describe('isHoliday', () => {
+    it('should accept extra holidays', () => {
+      expect(isHoliday('2024-04-10')).toBe(false);
+      expect(isHoliday('2024-04-10', { extraHolidays: ['2024-04-10'] })).toBe(true);
+    });
+  });
+
+  describe('isBusinessDay', () => {
+    it('should exclude weekends and holidays', () => {
+      expect(isBusinessDay('2024-02-08')).toBe(true);
+      expect(isBusinessDay('2024-02-12')).toBe(false);
+      expect(isBusinessDay('2024-03-02')).toBe(false);
+    });
+
+    it('should support custom weekend days and extra holidays', () => {
+      expect(isBusinessDay('2024-03-02', { weekendDays: [0] })).toBe(true);
+      expect(isBusinessDay('2024-10-01', { extraHolidays: [new Date(2024, 9, 1)] })).toBe(false);
+    });
+  });
+
+  describe('addBusinessDays', () => {
+    it('should skip weekends and holidays', () => {
+      expect(ymd(addBusinessDays('2024-02-08', 1))).toBe('2024-02-13');
+      expect(ymd(addBusinessDays('2024-09-13', 2))).toBe('2024-09-20');
+      expect(ymd(addBusinessDays('2024-03-08', 0))).toBe('2024-03-08');
+    });
+
+    it('should move backwards with negative amounts', () => {
+      expect(ymd(addBusinessDays('2024-02-13', -1))).toBe('2024-02-08');
+    });
+
+    it('should preserve the time of day', () => {
+      expect(formatDate(addBusinessDays('2024-03-08 15:30', 1), 'YYYY-MM-DD HH:mm')).toBe('2024-03-11 15:30');
+    });
+
+    it('should throw when every day is a weekend day', () => {
+      expect(() => addBusinessDays('2024-03-08', 1, { weekendDays: [0, 1, 2, 3, 4, 5, 6] })).toThrow(
+        'Invalid weekendDays'
+      );
+    });
+  });
+
+  describe('nextBusinessDay', () => {
+    it('should return the next business day', () => {
+      expect(ymd(nextBusinessDay('2024-09-13'))).toBe('2024-09-19');
+      expect(ymd(nextBusinessDay('2024-03-04'))).toBe('2024-03-05');
+    });
+  });
+
+  describe('businessDaysBetween', () => {
+    it('should count business days excluding the start date', () => {
+      expect(businessDaysBetween('2024-02-08', '2024-02-13')).toBe(1);
+      expect(businessDaysBetween('2024-03-04', '2024-03-08')).toBe(4);
+      expect(businessDaysBetween('2024-03-04', '2024-03-04')).toBe(0);
+    });
+
+    it('should return negative values for reversed ranges', () => {
+      expect(businessDaysBetween('2024-03-08', '2024-03-04')).toBe(-4);
+    });
+
+    it('should accept extra holidays', () => {
+      expect(businessDaysBetween('2024-04-08', '2024-04-12', { extraHolidays: ['2024-04-10'] })).toBe(3);
+    });
+  });
+});
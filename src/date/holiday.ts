@@ -0,0 +1,243 @@
+/**
+ * Korean Public Holidays & Business Days
+ *
+ * 관공서의 공휴일에 관한 규정 기준 공휴일 계산 (음력 공휴일, 대체공휴일 포함, 오프라인)
+ * 선거일, 임시공휴일은 계산할 수 없으므로 extraHolidays로 전달합니다.
+ */
+
+import dayjs from 'dayjs';
+import { lunarToSolar } from './lunar';
+
+type DateInput = Date | string | number;
+
+/**
+ * 공휴일
+ */
+export interface Holiday {
+  /** 날짜 (YYYY-MM-DD) */
+  date: string;
+  /** 공휴일 이름 */
+  name: string;
+  /** 대체공휴일 여부 */
+  substitute: boolean;
+}
+
+/**
+ * 영업일 계산 옵션
+ */
+export interface BusinessDayOptions {
+  /** 추가 휴일 (선거일, 임시공휴일, 회사 휴무일 등) */
+  extraHolidays?: DateInput[];
+  /** 휴무 요일 (0: 일요일 ~ 6: 토요일, 기본값: [0, 6]) */
+  weekendDays?: number[];
+}
+
+/**
+ * 대체공휴일 규칙
+ * - sunday: 일요일 또는 다른 공휴일과 겹치면 대체 (설날, 추석)
+ * - weekend: 토요일, 일요일 또는 다른 공휴일과 겹치면 대체
+ */
+type SubstituteRule = 'sunday' | 'weekend';
+
+interface HolidayRule {
+  name: string;
+  /** 해당 연도의 날짜 목록 (연휴는 여러 날) */
+  dates: (year: number) => (dayjs.Dayjs | null)[];
+  /** 공휴일로 지정된 기간 */
+  years?: [number, number];
+  /** 대체공휴일 규칙과 적용 시작일 */
+  substitute?: { rule: SubstituteRule; since: string };
+}
+
+const solar = (month: number, day: number) => (year: number) => [dayjs(new Date(year, month - 1, day))];
+
+const lunar = (month: number, days: number[]) => (year: number) =>
+  days.map((day) => {
+    const date = lunarToSolar(year, month, day);
+    return date ? dayjs(date) : null;
+  });
+
+// 양력 공휴일을 먼저 처리해야 음력 공휴일과 겹칠 때 음력 공휴일에 대체공휴일이 붙습니다.
+const holidayRules: HolidayRule[] = [
+  { name: '신정', dates: solar(1, 1) },
+  { name: '삼일절', dates: solar(3, 1), substitute: { rule: 'weekend', since: '2021-08-04' } },
+  { name: '식목일', dates: solar(4, 5), years: [1949, 2005] },
+  { name: '어린이날', dates: solar(5, 5), substitute: { rule: 'weekend', since: '2014-01-01' } },
+  { name: '현충일', dates: solar(6, 6) },
+  { name: '제헌절', dates: solar(7, 17), years: [1949, 2007] },
+  { name: '광복절', dates: solar(8, 15), substitute: { rule: 'weekend', since: '2021-08-04' } },
+  { name: '개천절', dates: solar(10, 3), substitute: { rule: 'weekend', since: '2021-08-04' } },
+  { name: '한글날', dates: solar(10, 9), years: [2013, 9999], substitute: { rule: 'weekend', since: '2021-08-04' } },
+  { name: '성탄절', dates: solar(12, 25), substitute: { rule: 'weekend', since: '2023-05-04' } },
+  {
+    name: '설날',
+    // 음력 섣달 그믐날은 설날 하루 전
+    dates: (year) => {
+      const newYear = lunarToSolar(year, 1, 1);
+      return newYear ? [dayjs(newYear).subtract(1, 'day'), dayjs(newYear), dayjs(newYear).add(1, 'day')] : [];
+    },
+    substitute: { rule: 'sunday', since: '2014-01-01' },
+  },
+  { name: '부처님오신날', dates: lunar(4, [8]), substitute: { rule: 'weekend', since: '2023-05-04' } },
+  { name: '추석', dates: lunar(8, [14, 15, 16]), substitute: { rule: 'sunday', since: '2014-01-01' } },
+];
+
+const holidayCache = new Map<number, Holiday[]>();
+
+const toKey = (date: dayjs.Dayjs) => date.format('YYYY-MM-DD');
+
+function computeHolidays(year: number): Holiday[] {
+  const holidays: Holiday[] = [];
+  const taken = new Set<string>();
+  const pending: { after: dayjs.Dayjs; name: string; count: number }[] = [];
+
+  holidayRules.forEach(({ name, dates, years, substitute }) => {
+    if (years && (year < years[0] || year > years[1])) return;
+
+    const days = dates(year).filter((d): d is dayjs.Dayjs => d !== null);
+    if (days.length === 0) return;
+
+    let overlaps = 0;
+    days.forEach((day) => {
+      const key = toKey(day);
+      const weekday = day.day();
+
+      if (substitute && !day.isBefore(dayjs(substitute.since))) {
+        const onWeekend = weekday === 0 || (substitute.rule === 'weekend' && weekday === 6);
+        if (onWeekend || taken.has(key)) overlaps++;
+      }
+
+      holidays.push({ date: key, name, substitute: false });
+      taken.add(key);
+    });
+
+    if (overlaps > 0) {
+      pending.push({ after: days[days.length - 1], name, count: overlaps });
+    }
+  });
+
+  // 대체공휴일: 연휴 다음의 첫 번째 비공휴일 (주말 제외)
+  pending
+    .sort((a, b) => a.after.valueOf() - b.after.valueOf())
+    .forEach(({ after, name, count }) => {
+      let day = after;
+      for (let i = 0; i < count; i++) {
+        do {
+          day = day.add(1, 'day');
+        } while (day.day() === 0 || day.day() === 6 || taken.has(toKey(day)));
+
+        holidays.push({ date: toKey(day), name: `대체공휴일(${name})`, substitute: true });
+        taken.add(toKey(day));
+      }
+    });
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 연도별 공휴일 목록
+ * 음력 공휴일은 음력 데이터 범위(1900 ~ 2049년)에서만 계산됩니다.
+ * @param year - 연도
+ * @returns 날짜순 공휴일 목록 (대체공휴일 포함)
+ *
+ * @example
+ * getHolidays(2024).filter((h) => h.name.includes('설날'))
+ * // [{ date: '2024-02-09', name: '설날', substitute: false }, ..., { date: '2024-02-12', name: '대체공휴일(설날)', substitute: true }]
+ */
+export function getHolidays(year: number): Holiday[] {
+  if (!holidayCache.has(year)) {
+    holidayCache.set(year, computeHolidays(year));
+  }
+  return holidayCache.get(year)!.map((holiday) => ({ ...holiday }));
+}
+
+/**
+ * 공휴일 조회
+ * @returns 해당 날짜의 공휴일 목록 (공휴일이 아니면 빈 배열)
+ *
+ * @example
+ * getHolidaysOn('2025-05-05') // [{ name: '어린이날', ... }, { name: '부처님오신날', ... }]
+ */
+export function getHolidaysOn(date: DateInput): Holiday[] {
+  const day = dayjs(date);
+  const key = toKey(day);
+  return getHolidays(day.year()).filter((holiday) => holiday.date === key);
+}
+
+/**
+ * 공휴일(대체공휴일 포함)인지 확인 (주말은 제외)
+ * @example isHoliday('2024-09-17') // true (추석)
+ */
+export function isHoliday(date: DateInput, options: Pick<BusinessDayOptions, 'extraHolidays'> = {}): boolean {
+  const key = toKey(dayjs(date));
+  return getHolidaysOn(date).length > 0 || (options.extraHolidays ?? []).some((extra) => toKey(dayjs(extra)) === key);
+}
+
+/**
+ * 영업일인지 확인 (주말, 공휴일, 추가 휴일 제외)
+ * @example isBusinessDay('2024-02-12') // false (설날 대체공휴일)
+ * @example isBusinessDay('2024-04-10', { extraHolidays: ['2024-04-10'] }) // false (선거일)
+ */
+export function isBusinessDay(date: DateInput, options: BusinessDayOptions = {}): boolean {
+  const { weekendDays = [0, 6] } = options;
+  return !weekendDays.includes(dayjs(date).day()) && !isHoliday(date, options);
+}
+
+/**
+ * 영업일 기준으로 날짜 더하기 (음수면 이전 영업일로 이동)
+ * weekendDays가 일주일 전체를 포함하면 영업일이 없으므로 에러를 던집니다.
+ * @param date - 기준 날짜
+ * @param amount - 더할 영업일 수
+ * @returns 결과 날짜 (시각은 유지)
+ *
+ * @example
+ * addBusinessDays('2024-02-08', 1) // 2024-02-13 (설 연휴와 대체공휴일 건너뜀)
+ * addBusinessDays('2024-02-13', -1) // 2024-02-08
+ */
+export function addBusinessDays(date: DateInput, amount: number, options: BusinessDayOptions = {}): Date {
+  const { weekendDays = [0, 6] } = options;
+  if ([0, 1, 2, 3, 4, 5, 6].every((day) => weekendDays.includes(day))) {
+    throw new Error(`Invalid weekendDays: ${weekendDays.join(', ')} (no business days left)`);
+  }
+
+  const step = amount < 0 ? -1 : 1;
+  let current = dayjs(date);
+  let remaining = Math.abs(Math.trunc(amount));
+
+  while (remaining > 0) {
+    current = current.add(step, 'day');
+    if (isBusinessDay(current.toDate(), options)) remaining--;
+  }
+
+  return current.toDate();
+}
+
+/**
+ * 다음 영업일 (기준 날짜 다음 날부터 검색)
+ * @example nextBusinessDay('2024-09-13') // 2024-09-19 (추석 연휴 건너뜀)
+ */
+export function nextBusinessDay(date: DateInput, options: BusinessDayOptions = {}): Date {
+  return addBusinessDays(date, 1, options);
+}
+
+/**
+ * 두 날짜 사이의 영업일 수 (시작일 제외, 종료일 포함)
+ * 종료일이 시작일보다 이전이면 음수를 반환합니다.
+ *
+ * @example
+ * businessDaysBetween('2024-02-08', '2024-02-13') // 1
+ * businessDaysBetween('2024-03-04', '2024-03-08') // 4
+ */
+export function businessDaysBetween(start: DateInput, end: DateInput, options: BusinessDayOptions = {}): number {
+  let from = dayjs(start).startOf('day');
+  let to = dayjs(end).startOf('day');
+  const sign = to.isBefore(from) ? -1 : 1;
+  if (sign < 0) [from, to] = [to, from];
+
+  let count = 0;
+  for (let day = from.add(1, 'day'); !day.isAfter(to); day = day.add(1, 'day')) {
+    if (isBusinessDay(day.toDate(), options)) count++;
+  }
+
+  return count * sign;
+}
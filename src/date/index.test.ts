@@ -3,6 +3,7 @@ import {
   formatDate,
   now,
   fromNow,
+  formatDuration,
   diffDate,
   addDate,
   subtractDate,
@@ -65,6 +66,51 @@ describe('Date Utils', () => {
       const result = fromNow(yesterday, 'en');
       expect(result).toContain('ago');
     });
+
+    it('should accept options with a base date', () => {
+      const result = fromNow('2024-01-14T10:00:00Z', { locale: 'en', baseDate: '2024-01-15T10:00:00Z' });
+      expect(result).toBe('a day ago');
+    });
+
+    it('should show an absolute date after the threshold', () => {
+      const week = 7 * 24 * 60 * 60 * 1000;
+      const baseDate = new Date(2024, 0, 15);
+
+      expect(fromNow(new Date(2024, 0, 10), { baseDate, absoluteAfter: week })).toBe('5일 전');
+      expect(fromNow(new Date(2024, 0, 8), { baseDate, absoluteAfter: week })).toBe('2024-01-08');
+      expect(fromNow(new Date(2024, 0, 1), { baseDate, absoluteAfter: week, format: 'YYYY.MM.DD' })).toBe(
+        '2024.01.01'
+      );
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format durations in Korean', () => {
+      expect(formatDuration(7500000)).toBe('2시간 5분');
+      expect(formatDuration(93784000)).toBe('1일 2시간 3분 4초');
+      expect(formatDuration(500)).toBe('0초');
+    });
+
+    it('should limit the number of units', () => {
+      expect(formatDuration(93784000, { largest: 2 })).toBe('1일 2시간');
+      expect(formatDuration(86400000 + 180000, { largest: 2 })).toBe('1일 3분');
+    });
+
+    it('should format durations in other locales', () => {
+      expect(formatDuration(7500000, { locale: 'en' })).toBe('2 hours 5 minutes');
+      expect(formatDuration(61000, { locale: 'en' })).toBe('1 minute 1 second');
+      expect(formatDuration(7500000, { locale: 'ja' })).toBe('2時間 5分');
+      expect(formatDuration(7500000, { locale: 'xx' })).toBe('2 hours 5 minutes');
+    });
+
+    it('should use the given units', () => {
+      expect(formatDuration(15 * 86400000, { units: ['week', 'day'] })).toBe('2주 1일');
+      expect(formatDuration(7500000, { units: ['minute'] })).toBe('125분');
+    });
+
+    it('should use the absolute value of negative durations', () => {
+      expect(formatDuration(-7500000)).toBe('2시간 5분');
+    });
   });
 
   describe('diffDate', () => {
@@ -3,6 +3,8 @@ import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
 import relativeTime from 'dayjs/plugin/relativeTime';
 import 'dayjs/locale/ko';
+import { replaceLunarTokens } from './lunar';
+import { DurationUnit, getDateLocale, isDateLocaleLoaded } from './locale';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -10,14 +12,18 @@ dayjs.extend(relativeTime);
 
 /**
  * 날짜를 지정된 포맷으로 변환
+ * 음력 토큰(lYYYY, lYY, lMM, lM, lDD, lD, lL)을 사용할 수 있습니다.
  * @param date - 변환할 날짜 (Date, string, number)
  * @param format - 포맷 문자열 (기본값: 'YYYY-MM-DD HH:mm:ss')
+ *
+ * @example
+ * formatDate('2023-03-22', '음력 lYYYY년 lLlM월 lD일') // '음력 2023년 윤2월 1일'
  */
 export function formatDate(
   date: Date | string | number = new Date(),
   format: string = 'YYYY-MM-DD HH:mm:ss'
 ): string {
-  return dayjs(date).format(format);
+  return dayjs(date).format(replaceLunarTokens(format, date));
 }
 
 /**
@@ -29,13 +35,112 @@ export function now(format?: string): string | Date {
   return format ? current.format(format) : current.toDate();
 }
 
+/**
+ * fromNow 옵션
+ */
+export interface FromNowOptions {
+  /** 로케일 (기본값: 'ko', 'ko'/'en' 외에는 loadDateLocale로 먼저 로드) */
+  locale?: string;
+  /** 기준 시각 (기본값: 현재) */
+  baseDate?: Date | string | number;
+  /** 기준 시각과 이 시간(ms) 이상 차이 나면 상대 시간 대신 formatDate로 표시 */
+  absoluteAfter?: number;
+  /** absoluteAfter를 넘었을 때 사용할 포맷 (기본값: 'YYYY-MM-DD') */
+  format?: string;
+}
+
 /**
  * 상대 시간 반환 (예: "3시간 전")
+ * 로드되지 않은 로케일(등록되지 않은 로케일 포함)을 쓰면 에러를 던집니다.
  * @param date - 기준 날짜
- * @param locale - 로케일 (기본값: 'ko')
+ * @param options - 로케일 (기본값: 'ko') 또는 옵션
+ *
+ * @example
+ * fromNow(date) // '3시간 전'
+ * fromNow(date, 'en') // '3 hours ago'
+ *
+ * @example
+ * // 'ko'/'en' 외의 로케일은 먼저 로드
+ * await loadDateLocale('ja');
+ * fromNow(date, 'ja') // '3時間前'
+ *
+ * @example
+ * // 7일이 지나면 날짜로 표시
+ * fromNow(date, { absoluteAfter: 7 * 24 * 60 * 60 * 1000, format: 'YYYY.MM.DD' }) // '2024.01.15'
+ */
+export function fromNow(date: Date | string | number, options: string | FromNowOptions = 'ko'): string {
+  const { locale = 'ko', baseDate, absoluteAfter, format = 'YYYY-MM-DD' } =
+    typeof options === 'string' ? { locale: options } : options;
+  const base = baseDate === undefined ? dayjs() : dayjs(baseDate);
+
+  if (absoluteAfter !== undefined && Math.abs(base.diff(date)) >= absoluteAfter) {
+    return formatDate(date, format);
+  }
+
+  if (!isDateLocaleLoaded(locale)) {
+    throw new Error(`Date locale is not loaded: ${locale} (call loadDateLocale first)`);
+  }
+
+  return dayjs(date).locale(locale.toLowerCase()).from(base);
+}
+
+/**
+ * formatDuration 옵션
  */
-export function fromNow(date: Date | string | number, locale: string = 'ko'): string {
-  return dayjs(date).locale(locale).fromNow();
+export interface FormatDurationOptions {
+  /** 표시할 최대 단위 수 (예: 2면 '1일 2시간 3분' → '1일 2시간') */
+  largest?: number;
+  /** 로케일 (기본값: 'ko', 등록되지 않은 로케일은 'en' 문구 사용) */
+  locale?: string;
+  /** 사용할 단위 (기본값: 년, 개월, 일, 시간, 분, 초) */
+  units?: DurationUnit[];
+}
+
+const durationUnitMs: Record<DurationUnit, number> = {
+  year: 365 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  minute: 60 * 1000,
+  second: 1000,
+};
+
+/**
+ * 기간(ms)을 읽기 쉬운 문자열로 변환
+ * 1년은 365일, 1개월은 30일로 계산하며 가장 작은 단위 아래는 버립니다.
+ * @param ms - 기간 (밀리초, 음수는 절댓값 사용)
+ * @param options - 최대 단위 수, 로케일, 사용할 단위
+ *
+ * @example
+ * formatDuration(7500000) // '2시간 5분'
+ * formatDuration(93784000, { largest: 2 }) // '1일 2시간'
+ * formatDuration(7500000, { locale: 'en' }) // '2 hours 5 minutes'
+ * formatDuration(500) // '0초'
+ */
+export function formatDuration(ms: number, options: FormatDurationOptions = {}): string {
+  const { largest = Infinity, locale = 'ko', units = ['year', 'month', 'day', 'hour', 'minute', 'second'] } = options;
+  const definition = getDateLocale(locale);
+  const { durationUnits, durationSeparator = ' ' } = definition?.durationUnits ? definition : getDateLocale('en')!;
+  const labels = durationUnits!;
+
+  const sorted = [...units].sort((a, b) => durationUnitMs[b] - durationUnitMs[a]);
+  let remaining = Math.abs(ms);
+  const parts: string[] = [];
+
+  for (const unit of sorted) {
+    if (parts.length >= largest) break;
+
+    const value = Math.floor(remaining / durationUnitMs[unit]);
+    remaining -= value * durationUnitMs[unit];
+    if (value > 0) parts.push(labels[unit](value));
+  }
+
+  if (parts.length === 0 && sorted.length > 0) {
+    parts.push(labels[sorted[sorted.length - 1]](0));
+  }
+
+  return parts.join(durationSeparator);
 }
 
 /**
@@ -121,3 +226,21 @@ export function isValidDate(date: any): boolean {
 export function toTimezone(date: Date | string | number, tz: string): Date {
   return dayjs(date).tz(tz).toDate();
 }
+
+// Locale registry
+export * from './locale';
+
+// Lunar calendar utilities
+export * from './lunar';
+
+// Holiday & business day utilities
+export * from './holiday';
+
+// Date range utilities
+export * from './range';
+
+// Recurrence rule utilities
+export * from './rrule';
+
+// Date parsing utilities
+export * from './parse';
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { registerDateLocale, getDateLocale, isDateLocaleLoaded, loadDateLocale } from './locale';
+import { fromNow, formatDuration } from './index';
+
+describe('Date Locale', () => {
+  it('should have ko and en loaded', () => {
+    expect(isDateLocaleLoaded('ko')).toBe(true);
+    expect(isDateLocaleLoaded('en')).toBe(true);
+  });
+
+  it('should lazily load registered locales', async () => {
+    expect(isDateLocaleLoaded('ja')).toBe(false);
+    await expect(loadDateLocale('ja')).resolves.toBe(true);
+    expect(isDateLocaleLoaded('ja')).toBe(true);
+
+    const baseDate = '2024-01-15T10:00:00Z';
+    expect(fromNow('2024-01-14T10:00:00Z', { locale: 'ja', baseDate })).toBe('1日前');
+  });
+
+  it('should return false for unknown locales', async () => {
+    await expect(loadDateLocale('xx')).resolves.toBe(false);
+  });
+
+  it('should require locales to be loaded before fromNow', async () => {
+    const baseDate = '2024-01-15T10:00:00Z';
+
+    expect(() => fromNow('2024-01-14T10:00:00Z', { locale: 'zh-cn', baseDate })).toThrow('not loaded: zh-cn');
+    expect(isDateLocaleLoaded('zh-cn')).toBe(false);
+    await expect(loadDateLocale('zh-cn')).resolves.toBe(true);
+    expect(fromNow('2024-01-14T10:00:00Z', { locale: 'zh-cn', baseDate })).toBe('1 天前');
+  });
+
+  it('should throw for unknown locales', () => {
+    expect(() => fromNow(new Date(), 'xx')).toThrow('not loaded: xx');
+  });
+
+  it('should register custom locales', async () => {
+    registerDateLocale('de', {
+      load: () => import('dayjs/locale/de'),
+      durationUnits: {
+        year: (n) => `${n} J.`,
+        month: (n) => `${n} Mon.`,
+        week: (n) => `${n} Wo.`,
+        day: (n) => `${n} T.`,
+        hour: (n) => `${n} Std.`,
+        minute: (n) => `${n} Min.`,
+        second: (n) => `${n} Sek.`,
+      },
+      durationSeparator: ', ',
+    });
+
+    expect(getDateLocale('de')?.load).toBeDefined();
+    expect(formatDuration(7500000, { locale: 'de' })).toBe('2 Std., 5 Min.');
+    await expect(loadDateLocale('de')).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Date Locale Registry
+ *
+ * dayjs 로케일 지연 로딩과 기간 표기(formatDuration) 문구 관리
+ * 'ko'와 'en'은 항상 로드되어 있고, 그 외 로케일은 loadDateLocale로 불러온 뒤 사용합니다.
+ */
+
+import dayjs from 'dayjs';
+import 'dayjs/locale/ko';
+
+/**
+ * 기간 단위
+ */
+export type DurationUnit = 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute' | 'second';
+
+/**
+ * 날짜 로케일 정의
+ */
+export interface DateLocaleDefinition {
+  /** dayjs 로케일 로더 (예: () => import('dayjs/locale/ja')) */
+  load?: () => Promise<unknown>;
+  /** 기간 단위 표기 (formatDuration) */
+  durationUnits?: Record<DurationUnit, (value: number) => string>;
+  /** 기간 단위 사이 구분자 (기본값: ' ') */
+  durationSeparator?: string;
+}
+
+const plural = (singular: string) => (value: number) => `${value} ${value === 1 ? singular : `${singular}s`}`;
+const suffix = (unit: string) => (value: number) => `${value}${unit}`;
+
+const localeRegistry = new Map<string, DateLocaleDefinition>([
+  [
+    'ko',
+    {
+      durationUnits: {
+        year: suffix('년'),
+        month: suffix('개월'),
+        week: suffix('주'),
+        day: suffix('일'),
+        hour: suffix('시간'),
+        minute: suffix('분'),
+        second: suffix('초'),
+      },
+    },
+  ],
+  [
+    'en',
+    {
+      durationUnits: {
+        year: plural('year'),
+        month: plural('month'),
+        week: plural('week'),
+        day: plural('day'),
+        hour: plural('hour'),
+        minute: plural('minute'),
+        second: plural('second'),
+      },
+    },
+  ],
+  [
+    'ja',
+    {
+      load: () => import('dayjs/locale/ja'),
+      durationUnits: {
+        year: suffix('年'),
+        month: suffix('ヶ月'),
+        week: suffix('週間'),
+        day: suffix('日'),
+        hour: suffix('時間'),
+        minute: suffix('分'),
+        second: suffix('秒'),
+      },
+    },
+  ],
+  [
+    'zh-cn',
+    {
+      load: () => import('dayjs/locale/zh-cn'),
+      durationUnits: {
+        year: suffix('年'),
+        month: suffix('个月'),
+        week: suffix('周'),
+        day: suffix('天'),
+        hour: suffix('小时'),
+        minute: suffix('分钟'),
+        second: suffix('秒'),
+      },
+    },
+  ],
+]);
+
+const pendingLoads = new Map<string, Promise<boolean>>();
+
+/**
+ * 날짜 로케일 등록 (기존 정의가 있으면 합침)
+ * @param name - 로케일 이름 (dayjs 로케일 이름과 같아야 함)
+ *
+ * @example
+ * registerDateLocale('fr', {
+ *   load: () => import('dayjs/locale/fr'),
+ *   durationUnits: { year: (n) => `${n} an${n > 1 ? 's' : ''}`, ... },
+ * });
+ */
+export function registerDateLocale(name: string, definition: DateLocaleDefinition): void {
+  const key = name.toLowerCase();
+  localeRegistry.set(key, { ...localeRegistry.get(key), ...definition });
+}
+
+/**
+ * 등록된 날짜 로케일 정의
+ * @returns 로케일 정의 (등록되지 않았으면 null)
+ */
+export function getDateLocale(name: string): DateLocaleDefinition | null {
+  return localeRegistry.get(name.toLowerCase()) ?? null;
+}
+
+/**
+ * dayjs 로케일이 로드되었는지 확인
+ * @example isDateLocaleLoaded('ko') // true
+ */
+export function isDateLocaleLoaded(name: string): boolean {
+  return name.toLowerCase() in dayjs.Ls;
+}
+
+/**
+ * dayjs 로케일 불러오기 (한 번만 로드)
+ * @returns 로드 성공 여부 (로더가 없거나 실패하면 false)
+ *
+ * @example
+ * await loadDateLocale('ja');
+ * fromNow(date, 'ja') // '1日前'
+ */
+export function loadDateLocale(name: string): Promise<boolean> {
+  const key = name.toLowerCase();
+  if (isDateLocaleLoaded(key)) return Promise.resolve(true);
+
+  const load = localeRegistry.get(key)?.load;
+  if (!load) return Promise.resolve(false);
+
+  if (!pendingLoads.has(key)) {
+    const pending = load()
+      .then(() => isDateLocaleLoaded(key))
+      .catch(() => false)
+      .then((loaded) => {
+        if (!loaded) pendingLoads.delete(key);
+        return loaded;
+      });
+    pendingLoads.set(key, pending);
+  }
+
+  return pendingLoads.get(key)!;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  lunarToSolar,
+  solarToLunar,
+  getLunarLeapMonth,
+  getLunarMonthDays,
+  isValidLunarDate,
+  toSolarDate,
+  isValidCalendarDate,
+} from './lunar';
+import { formatDate } from './index';
+
+const ymd = (date: Date | null) => (date ? formatDate(date, 'YYYY-MM-DD') : null);
+
+describe('Lunar Calendar', () => {
+  describe('lunarToSolar', () => {
+    it('should convert lunar dates to solar dates', () => {
+      expect(ymd(lunarToSolar(2024, 1, 1))).toBe('2024-02-10');
+      expect(ymd(lunarToSolar(2024, 8, 15))).toBe('2024-09-17');
+      expect(ymd(lunarToSolar(1900, 1, 1))).toBe('1900-01-31');
+    });
+
+    it('should handle leap months', () => {
+      expect(ymd(lunarToSolar(2023, 2, 1, true))).toBe('2023-03-22');
+      expect(ymd(lunarToSolar(2023, 3, 1))).toBe('2023-04-20');
+      expect(lunarToSolar(2024, 2, 1, true)).toBeNull();
+    });
+
+    it('should return null for invalid or out-of-range dates', () => {
+      expect(lunarToSolar(2024, 13, 1)).toBeNull();
+      expect(lunarToSolar(2024, 1, 31)).toBeNull();
+      expect(lunarToSolar(1899, 1, 1)).toBeNull();
+      expect(lunarToSolar(2050, 1, 1)).toBeNull();
+    });
+  });
+
+  describe('solarToLunar', () => {
+    it('should convert solar dates to lunar dates', () => {
+      expect(solarToLunar('2024-02-10')).toEqual({ year: 2024, month: 1, day: 1, isLeapMonth: false });
+      expect(solarToLunar('1990-10-03')).toEqual({ year: 1990, month: 8, day: 15, isLeapMonth: false });
+    });
+
+    it('should resolve dates before the lunar new year to the previous lunar year', () => {
+      expect(solarToLunar('2024-01-01')).toEqual({ year: 2023, month: 11, day: 20, isLeapMonth: false });
+      expect(solarToLunar('2049-12-31')).toEqual({ year: 2049, month: 12, day: 7, isLeapMonth: false });
+    });
+
+    it('should handle leap months', () => {
+      expect(solarToLunar('2023-03-22')).toEqual({ year: 2023, month: 2, day: 1, isLeapMonth: true });
+      expect(solarToLunar('2023-04-19')).toEqual({ year: 2023, month: 2, day: 29, isLeapMonth: true });
+    });
+
+    it('should ignore the time of day', () => {
+      expect(solarToLunar(new Date(2024, 1, 10, 23, 59))).toEqual({ year: 2024, month: 1, day: 1, isLeapMonth: false });
+    });
+
+    it('should return null outside the supported range', () => {
+      expect(solarToLunar('1900-01-30')).toBeNull();
+      expect(solarToLunar('2050-01-23')).toBeNull();
+      expect(solarToLunar('invalid')).toBeNull();
+    });
+
+    it('should round-trip with lunarToSolar', () => {
+      for (let year = 1990; year <= 2030; year += 7) {
+        const leapMonth = getLunarLeapMonth(year)!;
+        for (let month = 1; month <= 12; month++) {
+          for (const isLeapMonth of month === leapMonth ? [false, true] : [false]) {
+            const days = getLunarMonthDays(year, month, isLeapMonth)!;
+            const solar = lunarToSolar(year, month, days, isLeapMonth);
+            expect(solarToLunar(solar!)).toEqual({ year, month, day: days, isLeapMonth });
+          }
+        }
+      }
+    });
+  });
+
+  describe('getLunarLeapMonth / getLunarMonthDays', () => {
+    it('should return leap month information', () => {
+      expect(getLunarLeapMonth(2023)).toBe(2);
+      expect(getLunarLeapMonth(2024)).toBe(0);
+      expect(getLunarLeapMonth(2050)).toBeNull();
+    });
+
+    it('should return the number of days in a lunar month', () => {
+      expect(getLunarMonthDays(2023, 2, true)).toBe(29);
+      expect([29, 30]).toContain(getLunarMonthDays(2024, 1));
+      expect(getLunarMonthDays(2024, 2, true)).toBeNull();
+    });
+  });
+
+  describe('isValidLunarDate', () => {
+    it('should validate lunar dates including leap months', () => {
+      expect(isValidLunarDate(2023, 2, 29, true)).toBe(true);
+      expect(isValidLunarDate(2023, 2, 30, true)).toBe(false);
+      expect(isValidLunarDate(2024, 2, 1, true)).toBe(false);
+      expect(isValidLunarDate(2024, 0, 1)).toBe(false);
+    });
+  });
+
+  describe('toSolarDate / isValidCalendarDate', () => {
+    it('should convert lunar input', () => {
+      expect(ymd(toSolarDate({ calendar: 'lunar', year: 1990, month: 8, day: 15 }))).toBe('1990-10-03');
+      expect(ymd(toSolarDate({ calendar: 'lunar', year: 2023, month: 2, day: 1, isLeapMonth: true }))).toBe(
+        '2023-03-22'
+      );
+    });
+
+    it('should validate solar input', () => {
+      expect(ymd(toSolarDate({ calendar: 'solar', year: 2024, month: 2, day: 29 }))).toBe('2024-02-29');
+      expect(toSolarDate({ calendar: 'solar', year: 2023, month: 2, day: 29 })).toBeNull();
+      expect(isValidCalendarDate({ calendar: 'solar', year: 2024, month: 13, day: 1 })).toBe(false);
+      expect(isValidCalendarDate({ calendar: 'lunar', year: 2024, month: 2, day: 1, isLeapMonth: true })).toBe(false);
+    });
+  });
+
+  describe('formatDate lunar tokens', () => {
+    it('should format lunar dates', () => {
+      expect(formatDate('2024-02-10', 'lYYYY-lMM-lDD')).toBe('2024-01-01');
+      expect(formatDate('2023-03-22', '음력 lYYYY년 lLlM월 lD일')).toBe('음력 2023년 윤2월 1일');
+    });
+
+    it('should combine lunar and solar tokens', () => {
+      expect(formatDate('2024-09-17', 'YYYY.MM.DD (음력 lM.lD)')).toBe('2024.09.17 (음력 8.15)');
+    });
+
+    it('should leave escaped text untouched', () => {
+      expect(formatDate('2024-02-10', '[lYYYY] lYY')).toBe('lYYYY 24');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Korean Lunar Calendar
+ *
+ * 한국천문연구원 기준 음력 데이터 (음력 1900년 ~ 2049년, 오프라인)
+ */
+
+import dayjs from 'dayjs';
+
+/**
+ * 음력 날짜
+ */
+export interface LunarDate {
+  year: number;
+  month: number;
+  day: number;
+  /** 윤달 여부 */
+  isLeapMonth: boolean;
+}
+
+/** 데이터가 있는 첫 음력 연도 */
+export const LUNAR_MIN_YEAR = 1900;
+/** 데이터가 있는 마지막 음력 연도 */
+export const LUNAR_MAX_YEAR = 2049;
+
+/**
+ * 음력 연도별 데이터
+ * - bit 0~3: 윤달 (0이면 없음)
+ * - bit 4: 윤달이 큰달(30일)인지
+ * - bit 5~16: 1~12월이 큰달(30일)인지
+ * - bit 17~22: 음력 1월 1일의 양력 1월 1일로부터의 일수
+ */
+const LUNAR_YEAR_DATA = [
+  0x3d7a48, 0x62ea40, 0x4dd4a0, 0x396545, 0x5cc960, 0x455360, 0x3154d4, 0x56ad40, 0x416b20, 0x2b7542,
+  0x50ea40, 0x3bb4a6, 0x6164a0, 0x494960, 0x332b65, 0x5955a0, 0x44ad40, 0x2cb6a2, 0x537520, 0x3fba47,
+  0x65b240, 0x4da4a0, 0x37a5a5, 0x5d2ac0, 0x4656a0, 0x2f5ba4, 0x56da80, 0x41b520, 0x2dd942, 0x51d240,
+  0x3ad4c6, 0x5ea4e0, 0x494ae0, 0x332ad5, 0x595b40, 0x44da80, 0x2eea33, 0x52e920, 0x3d6277, 0x635260,
+  0x4ca560, 0x34a376, 0x5b2da0, 0x476d40, 0x33b494, 0x577480, 0x416920, 0x2ba962, 0x5152a0, 0x395567,
+  0x5ea5a0, 0x4955a0, 0x355555, 0x59b640, 0x45b480, 0x2fd433, 0x55a940, 0x3db2a8, 0x6352c0, 0x4caac0,
+  0x36aea6, 0x5b5aa0, 0x46da40, 0x30eaa4, 0x57d4a0, 0x41c940, 0x2ac9c3, 0x4f5360, 0x3b5ac7, 0x5ead40,
+  0x496b20, 0x357645, 0x5aea40, 0x42e4a0, 0x2d6564, 0x534960, 0x3d3568, 0x6055a0, 0x4aad60, 0x36b536,
+  0x5db520, 0x47b240, 0x31b2a4, 0x57a4a0, 0x41c9aa, 0x654ac0, 0x4e56c0, 0x395da6, 0x60da80, 0x49b520,
+  0x35da45, 0x5bd240, 0x45a4c0, 0x2ca5c3, 0x514ae0, 0x3d36c8, 0x636b40, 0x4cda80, 0x36ed25, 0x5ce920,
+  0x46d260, 0x2f52e4, 0x54a560, 0x3f4b60, 0x2b55c2, 0x4e6d40, 0x39baa7, 0x617480, 0x4b6920, 0x33aa65,
+  0x5952a0, 0x42a5a0, 0x2ca5b3, 0x5155a0, 0x3d7549, 0x62ba40, 0x4db4a0, 0x37d545, 0x5da940, 0x4752a0,
+  0x3153a4, 0x54aac0, 0x3f56a0, 0x2b5ac2, 0x50da40, 0x38eca6, 0x5fd4a0, 0x4bc940, 0x34cac5, 0x579360,
+  0x42ab40, 0x2cada3, 0x536d20, 0x3dea4b, 0x62ea40, 0x4d64a0, 0x376176, 0x5b4960, 0x449560, 0x2e5765,
+  0x54ada0, 0x3f6d20, 0x2bb542, 0x51b240, 0x3bd4a7, 0x5fa4a0, 0x4949a0, 0x3349b5, 0x5856c0, 0x40b6a0,
+];
+
+interface LunarYearInfo {
+  /** 음력 1월 1일 (양력) */
+  newYear: dayjs.Dayjs;
+  /** 윤달 (0이면 없음) */
+  leapMonth: number;
+  /** 달 순서대로 [월, 윤달 여부, 일수] (윤달은 해당 월 바로 뒤) */
+  months: [number, boolean, number][];
+}
+
+/**
+ * 음력 연도 정보 (범위 밖이면 null)
+ */
+function getLunarYearInfo(year: number): LunarYearInfo | null {
+  if (!Number.isInteger(year) || year < LUNAR_MIN_YEAR || year > LUNAR_MAX_YEAR) return null;
+
+  const data = LUNAR_YEAR_DATA[year - LUNAR_MIN_YEAR];
+  const leapMonth = data & 0xf;
+  const months: [number, boolean, number][] = [];
+
+  for (let month = 1; month <= 12; month++) {
+    months.push([month, false, data & (1 << (month + 4)) ? 30 : 29]);
+    if (month === leapMonth) {
+      months.push([month, true, data & 0x10 ? 30 : 29]);
+    }
+  }
+
+  return {
+    newYear: dayjs(new Date(year, 0, 1)).add(data >> 17, 'day'),
+    leapMonth,
+    months,
+  };
+}
+
+/**
+ * 음력을 양력으로 변환
+ * @param year - 음력 연도 (1900 ~ 2049)
+ * @param month - 음력 월
+ * @param day - 음력 일
+ * @param isLeapMonth - 윤달 여부 (기본값: false)
+ * @returns 양력 날짜 (로컬 자정, 존재하지 않는 음력 날짜면 null)
+ *
+ * @example
+ * lunarToSolar(2024, 1, 1) // 2024-02-10 (설날)
+ * lunarToSolar(2023, 2, 1, true) // 2023-03-22 (윤2월 1일)
+ */
+export function lunarToSolar(year: number, month: number, day: number, isLeapMonth: boolean = false): Date | null {
+  const info = getLunarYearInfo(year);
+  if (!info) return null;
+
+  let offset = 0;
+  for (const [m, leap, days] of info.months) {
+    if (m === month && leap === isLeapMonth) {
+      return Number.isInteger(day) && day >= 1 && day <= days ? info.newYear.add(offset + day - 1, 'day').toDate() : null;
+    }
+    offset += days;
+  }
+
+  return null;
+}
+
+/**
+ * 양력을 음력으로 변환
+ * @param date - 양력 날짜
+ * @returns 음력 날짜 (데이터 범위 밖이면 null)
+ *
+ * @example
+ * solarToLunar('2024-02-10') // { year: 2024, month: 1, day: 1, isLeapMonth: false }
+ * solarToLunar('2023-03-22') // { year: 2023, month: 2, day: 1, isLeapMonth: true }
+ */
+export function solarToLunar(date: Date | string | number): LunarDate | null {
+  const target = dayjs(date).startOf('day');
+  if (!target.isValid()) return null;
+
+  for (const year of [target.year(), target.year() - 1]) {
+    const info = getLunarYearInfo(year);
+    if (!info) continue;
+
+    let offset = target.diff(info.newYear, 'day');
+    if (offset < 0) continue;
+
+    for (const [month, isLeapMonth, days] of info.months) {
+      if (offset < days) {
+        return { year, month, day: offset + 1, isLeapMonth };
+      }
+      offset -= days;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 음력 연도의 윤달
+ * @returns 윤달 (없으면 0, 범위 밖이면 null)
+ *
+ * @example
+ * getLunarLeapMonth(2023) // 2
+ * getLunarLeapMonth(2024) // 0
+ */
+export function getLunarLeapMonth(year: number): number | null {
+  const info = getLunarYearInfo(year);
+  return info ? info.leapMonth : null;
+}
+
+/**
+ * 음력 달의 일수 (29 또는 30)
+ * @returns 일수 (존재하지 않는 달이면 null)
+ *
+ * @example
+ * getLunarMonthDays(2024, 1) // 29
+ */
+export function getLunarMonthDays(year: number, month: number, isLeapMonth: boolean = false): number | null {
+  const info = getLunarYearInfo(year);
+  const found = info?.months.find(([m, leap]) => m === month && leap === isLeapMonth);
+  return found ? found[2] : null;
+}
+
+/**
+ * 존재하는 음력 날짜인지 확인 (윤달 포함)
+ * @example
+ * isValidLunarDate(2023, 2, 29, true) // true (2023년 윤2월)
+ * isValidLunarDate(2024, 2, 1, true) // false (2024년은 윤2월 없음)
+ */
+export function isValidLunarDate(year: number, month: number, day: number, isLeapMonth: boolean = false): boolean {
+  return lunarToSolar(year, month, day, isLeapMonth) !== null;
+}
+
+/**
+ * 양력/음력 중 하나로 입력된 날짜
+ */
+export interface CalendarDateInput {
+  calendar: 'solar' | 'lunar';
+  year: number;
+  month: number;
+  day: number;
+  /** 윤달 여부 (음력만 해당) */
+  isLeapMonth?: boolean;
+}
+
+/**
+ * 양력/음력 입력을 양력 날짜로 변환 (생일 입력 폼 등)
+ * @returns 양력 날짜 (존재하지 않는 날짜면 null)
+ *
+ * @example
+ * toSolarDate({ calendar: 'lunar', year: 1990, month: 8, day: 15 }) // 1990-10-03
+ * toSolarDate({ calendar: 'solar', year: 2024, month: 2, day: 30 }) // null
+ */
+export function toSolarDate(input: CalendarDateInput): Date | null {
+  const { calendar, year, month, day, isLeapMonth = false } = input;
+
+  if (calendar === 'lunar') {
+    return lunarToSolar(year, month, day, isLeapMonth);
+  }
+
+  const date = new Date(year, month - 1, day);
+  const valid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+  return valid ? date : null;
+}
+
+/**
+ * 양력/음력 입력이 존재하는 날짜인지 확인
+ * @example isValidCalendarDate({ calendar: 'lunar', year: 2023, month: 2, day: 1, isLeapMonth: true }) // true
+ */
+export function isValidCalendarDate(input: CalendarDateInput): boolean {
+  return toSolarDate(input) !== null;
+}
+
+/**
+ * 포맷 문자열의 음력 토큰 치환 (대괄호로 감싸 dayjs가 그대로 출력하게 함)
+ * - lYYYY, lYY: 음력 연도
+ * - lMM, lM: 음력 월
+ * - lDD, lD: 음력 일
+ * - lL: 윤달이면 '윤', 아니면 빈 문자열
+ */
+export function replaceLunarTokens(format: string, date: Date | string | number): string {
+  let lunar: LunarDate | null | undefined;
+
+  return format.replace(/\[[^\]]*]|lYYYY|lYY|lMM|lM|lDD|lD|lL/g, (token) => {
+    if (token.startsWith('[')) return token;
+    if (lunar === undefined) lunar = solarToLunar(date);
+    if (!lunar) return '';
+
+    const values: Record<string, string> = {
+      lYYYY: String(lunar.year),
+      lYY: String(lunar.year).slice(-2),
+      lMM: String(lunar.month).padStart(2, '0'),
+      lM: String(lunar.month),
+      lDD: String(lunar.day).padStart(2, '0'),
+      lD: String(lunar.day),
+      lL: lunar.isLeapMonth ? '윤' : '',
+    };
+    return values[token] ? `[${values[token]}]` : '';
+  });
+}
+
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate } from './parse';
+import { formatDate } from './index';
+
+// 2024-03-06은 수요일
+const baseDate = new Date(2024, 2, 6, 15, 30);
+
+const parsed = (input: string, formats: string[] = [], strict = false) => {
+  const result = parseDate(input, formats, { baseDate, strict });
+  return result.valid ? formatDate(result.date, 'YYYY-MM-DD HH:mm:ss') : result.reason;
+};
+
+describe('parseDate', () => {
+  describe('numeric formats', () => {
+    it('should parse common separators with or without padding', () => {
+      expect(parsed('2024-03-05')).toBe('2024-03-05 00:00:00');
+      expect(parsed('2024.3.5')).toBe('2024-03-05 00:00:00');
+      expect(parsed('2024/03/05')).toBe('2024-03-05 00:00:00');
+      expect(parsed('2024. 3. 5.')).toBe('2024-03-05 00:00:00');
+      expect(parsed('20240305')).toBe('2024-03-05 00:00:00');
+    });
+
+    it('should parse two-digit years', () => {
+      expect(parsed('24/03/05')).toBe('2024-03-05 00:00:00');
+      expect(parsed('90.1.1')).toBe('1990-01-01 00:00:00');
+    });
+
+    it('should parse an optional time', () => {
+      expect(parsed('2024-03-05 14:30')).toBe('2024-03-05 14:30:00');
+      expect(parsed('2024-03-05T09:05:07')).toBe('2024-03-05 09:05:07');
+    });
+
+    it('should reject dates that do not exist', () => {
+      expect(parsed('2024-02-30')).toBe('invalid');
+      expect(parsed('2023.2.29')).toBe('invalid');
+      expect(parsed('2024-13-01')).toBe('invalid');
+      expect(parsed('2024-03-05 25:00')).toBe('invalid');
+    });
+
+    it('should reject mixed separators', () => {
+      expect(parsed('2024-03/05')).toBe('format');
+    });
+  });
+
+  describe('Korean expressions', () => {
+    it('should parse relative days', () => {
+      expect(parsed('오늘')).toBe('2024-03-06 00:00:00');
+      expect(parsed('내일')).toBe('2024-03-07 00:00:00');
+      expect(parsed('모레')).toBe('2024-03-08 00:00:00');
+      expect(parsed('어제')).toBe('2024-03-05 00:00:00');
+    });
+
+    it('should parse relative amounts', () => {
+      expect(parsed('3일 후')).toBe('2024-03-09 00:00:00');
+      expect(parsed('3일후')).toBe('2024-03-09 00:00:00');
+      expect(parsed('2주 전')).toBe('2024-02-21 00:00:00');
+      expect(parsed('1개월 뒤')).toBe('2024-04-06 00:00:00');
+      expect(parsed('1년 전')).toBe('2023-03-06 00:00:00');
+    });
+
+    it('should parse weekdays relative to the week', () => {
+      expect(parsed('다음주 월요일')).toBe('2024-03-11 00:00:00');
+      expect(parsed('다음 주 월')).toBe('2024-03-11 00:00:00');
+      expect(parsed('이번주 금요일')).toBe('2024-03-08 00:00:00');
+      expect(parsed('이번주 월요일')).toBe('2024-03-04 00:00:00');
+      expect(parsed('지난주 일요일')).toBe('2024-03-03 00:00:00');
+      expect(parsed('다다음주 수요일')).toBe('2024-03-20 00:00:00');
+    });
+
+    it('should parse a bare weekday as the nearest upcoming day', () => {
+      expect(parsed('수요일')).toBe('2024-03-06 00:00:00');
+      expect(parsed('화요일')).toBe('2024-03-12 00:00:00');
+    });
+
+    it('should parse month and day', () => {
+      expect(parsed('3월 5일')).toBe('2024-03-05 00:00:00');
+      expect(parsed('2025년 12월 25일')).toBe('2025-12-25 00:00:00');
+      expect(parsed('2월 30일')).toBe('invalid');
+    });
+  });
+
+  describe('formats', () => {
+    it('should try the given formats first', () => {
+      expect(parsed('05/03/2024', ['DD/MM/YYYY'])).toBe('2024-03-05 00:00:00');
+    });
+
+    it('should only accept the given formats in strict mode', () => {
+      expect(parsed('05/03/2024', ['DD/MM/YYYY'], true)).toBe('2024-03-05 00:00:00');
+      expect(parsed('2024-03-05', ['DD/MM/YYYY'], true)).toBe('format');
+      expect(parsed('내일', ['DD/MM/YYYY'], true)).toBe('format');
+      expect(parsed('31/02/2024', ['DD/MM/YYYY'], true)).toBe('format');
+    });
+  });
+
+  describe('errors', () => {
+    it('should return structured errors', () => {
+      expect(parseDate('   ')).toEqual({ valid: false, reason: 'empty', input: '   ' });
+      expect(parseDate('asdf')).toEqual({ valid: false, reason: 'format', input: 'asdf' });
+      expect(parseDate('12345')).toEqual({ valid: false, reason: 'format', input: '12345' });
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Date Parsing Utilities
+ *
+ * 사용자가 입력한 날짜 문자열 해석 (지정 포맷, 자주 쓰는 숫자 표기, 한국어 자연어 표현)
+ * dayjs 생성자에 그대로 넘기지 않으므로 해석할 수 없는 입력은 오류로 반환됩니다.
+ */
+
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+
+dayjs.extend(customParseFormat);
+
+type DateInput = Date | string | number;
+
+/**
+ * 날짜 해석 실패 사유
+ * - empty: 빈 입력
+ * - format: 해석할 수 있는 형식이 아님
+ * - invalid: 형식은 맞지만 존재하지 않는 날짜/시각 (예: 2024-02-30)
+ */
+export type DateParseErrorReason = 'empty' | 'format' | 'invalid';
+
+/**
+ * 날짜 해석 결과
+ */
+export type ParseDateResult =
+  | { valid: true; date: Date }
+  | { valid: false; reason: DateParseErrorReason; input: string };
+
+/**
+ * 날짜 해석 옵션
+ */
+export interface ParseDateOptions {
+  /** 지정한 포맷만 허용 (숫자 표기, 자연어 표현 해석 안 함, 기본값: false) */
+  strict?: boolean;
+  /** 상대 표현('오늘', '3일 후')의 기준 날짜 (기본값: 현재) */
+  baseDate?: DateInput;
+}
+
+const WEEKDAY_NAMES = ['일', '월', '화', '수', '목', '금', '토'];
+
+const relativeDays: Record<string, number> = {
+  그저께: -2,
+  그제: -2,
+  어제: -1,
+  오늘: 0,
+  내일: 1,
+  모레: 2,
+  글피: 3,
+};
+
+const weekOffsets: Record<string, number> = {
+  지난: -1,
+  저번: -1,
+  이번: 0,
+  금: 0,
+  다음: 1,
+  다다음: 2,
+};
+
+const relativeUnits: Record<string, dayjs.ManipulateType> = {
+  일: 'day',
+  주: 'week',
+  주일: 'week',
+  개월: 'month',
+  달: 'month',
+  년: 'year',
+};
+
+const TIME_PATTERN = '(?:[ T](\\d{1,2}):(\\d{2})(?::(\\d{2}))?)?';
+
+const numericPatterns = [
+  // 2024-03-05, 2024.3.5, 2024/03/05, 2024. 3. 5.
+  new RegExp(`^(\\d{4})\\s*([-./])\\s*(\\d{1,2})\\s*\\2\\s*(\\d{1,2})\\.?${TIME_PATTERN}$`),
+  // 24/03/05, 24.3.5
+  new RegExp(`^(\\d{2})([-./])(\\d{1,2})\\2(\\d{1,2})\\.?${TIME_PATTERN}$`),
+  // 20240305
+  new RegExp(`^(\\d{4})()(\\d{2})(\\d{2})${TIME_PATTERN}$`),
+];
+
+// 두 자리 연도: dayjs와 같은 기준 (69 ~ 99 → 1900년대, 00 ~ 68 → 2000년대)
+const expandYear = (year: string) => {
+  const value = Number(year);
+  if (year.length > 2) return value;
+  return value + (value > 68 ? 1900 : 2000);
+};
+
+function buildDate(year: number, month: number, day: number, hour = 0, minute = 0, second = 0): Date | null {
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  const valid =
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day &&
+    date.getHours() === hour &&
+    date.getMinutes() === minute &&
+    date.getSeconds() === second;
+  return valid ? date : null;
+}
+
+// 숫자 표기: 일치하지 않으면 undefined, 존재하지 않는 날짜면 null
+function parseNumeric(input: string): Date | null | undefined {
+  for (const pattern of numericPatterns) {
+    const match = input.match(pattern);
+    if (!match) continue;
+
+    const [, year, , month, day, hour, minute, second] = match;
+    return buildDate(
+      expandYear(year),
+      Number(month),
+      Number(day),
+      Number(hour ?? 0),
+      Number(minute ?? 0),
+      Number(second ?? 0)
+    );
+  }
+  return undefined;
+}
+
+// 한국어 자연어 표현: 일치하지 않으면 undefined, 존재하지 않는 날짜면 null
+function parseKorean(input: string, base: dayjs.Dayjs): Date | null | undefined {
+  const text = input.replace(/\s+/g, ' ').trim();
+  const today = base.startOf('day');
+
+  if (text in relativeDays) {
+    return today.add(relativeDays[text], 'day').toDate();
+  }
+
+  // 3일 후, 2주 전, 1개월 뒤
+  const relative = text.match(/^(\d+)\s*(일|주일|주|개월|달|년)\s*(후|뒤|전)$/);
+  if (relative) {
+    const amount = Number(relative[1]) * (relative[3] === '전' ? -1 : 1);
+    return today.add(amount, relativeUnits[relative[2]]).toDate();
+  }
+
+  // 다음주 월요일, 이번 주 금, 지난주 수요일 (주는 월요일부터 시작)
+  const weekday = text.match(/^(?:(지난|저번|이번|금|다음|다다음)\s*주\s*)?([일월화수목금토])(?:요일)?$/);
+  if (weekday) {
+    const target = WEEKDAY_NAMES.indexOf(weekday[2]);
+
+    if (weekday[1] === undefined) {
+      // 요일만 입력하면 오늘 이후 가장 가까운 해당 요일
+      return today.add((target - today.day() + 7) % 7, 'day').toDate();
+    }
+
+    const monday = today.subtract((today.day() + 6) % 7, 'day');
+    return monday.add(weekOffsets[weekday[1]], 'week').add((target + 6) % 7, 'day').toDate();
+  }
+
+  // 2024년 3월 5일, 3월 5일
+  const absolute = text.match(/^(?:(\d{2}|\d{4})\s*년\s*)?(\d{1,2})\s*월\s*(\d{1,2})\s*일$/);
+  if (absolute) {
+    const year = absolute[1] ? expandYear(absolute[1]) : today.year();
+    return buildDate(year, Number(absolute[2]), Number(absolute[3]));
+  }
+
+  return undefined;
+}
+
+/**
+ * 사용자가 입력한 날짜 문자열 해석
+ * 지정한 포맷(dayjs 포맷, 정확히 일치)을 먼저 시도하고, strict가 아니면 숫자 표기와 한국어 표현을 해석합니다.
+ * - 숫자 표기: 2024-03-05, 2024.3.5, 2024/03/05, 24/03/05, 20240305 (시각 HH:mm[:ss] 선택)
+ * - 한국어: 오늘, 내일, 모레, 어제, 3일 후, 2주 전, 다음주 월요일, 금요일, 3월 5일, 2024년 3월 5일
+ *
+ * @param input - 입력 문자열
+ * @param formats - 허용할 dayjs 포맷 목록 (예: ['DD/MM/YYYY'])
+ * @param options - strict, 상대 표현의 기준 날짜
+ * @returns 해석 결과 ({ valid: true, date } 또는 { valid: false, reason, input })
+ *
+ * @example
+ * parseDate('2024.3.5') // { valid: true, date: 2024-03-05 }
+ * parseDate('다음주 월요일', [], { baseDate: '2024-03-06' }) // { valid: true, date: 2024-03-11 }
+ * parseDate('2024-02-30') // { valid: false, reason: 'invalid', input: '2024-02-30' }
+ * parseDate('asdf') // { valid: false, reason: 'format', input: 'asdf' }
+ *
+ * @example
+ * // 지정한 포맷만 허용
+ * parseDate('05/03/2024', ['DD/MM/YYYY'], { strict: true }) // { valid: true, date: 2024-03-05 }
+ */
+export function parseDate(input: string, formats: string[] = [], options: ParseDateOptions = {}): ParseDateResult {
+  const { strict = false, baseDate } = options;
+  const text = input.trim();
+
+  if (!text) return { valid: false, reason: 'empty', input };
+
+  for (const format of formats) {
+    const parsed = dayjs(text, format, true);
+    if (parsed.isValid()) return { valid: true, date: parsed.toDate() };
+  }
+
+  if (strict) return { valid: false, reason: 'format', input };
+
+  let parsed = parseNumeric(text);
+  if (parsed === undefined) {
+    parsed = parseKorean(text, baseDate === undefined ? dayjs() : dayjs(baseDate));
+  }
+
+  if (parsed === undefined) return { valid: false, reason: 'format', input };
+  if (parsed === null) return { valid: false, reason: 'invalid', input };
+  return { valid: true, date: parsed };
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DateRange,
+  createDateRange,
+  getRangeDuration,
+  rangeContains,
+  rangesOverlap,
+  getRangeIntersection,
+  getRangeUnion,
+  getRangeGaps,
+  splitRange,
+  iterateRange,
+} from './range';
+
+const utc = (start: string, end: string) => createDateRange(`${start}Z`, `${end}Z`);
+const iso = (ranges: DateRange[]) => ranges.map(({ start, end }) => [start.toISOString(), end.toISOString()]);
+
+describe('Date Range', () => {
+  describe('createDateRange', () => {
+    it('should create a range and normalize the order', () => {
+      const range = createDateRange('2024-01-10T00:00:00Z', '2024-01-01T00:00:00Z');
+      expect(range.start.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      expect(range.end.toISOString()).toBe('2024-01-10T00:00:00.000Z');
+    });
+
+    it('should throw for invalid dates', () => {
+      expect(() => createDateRange('invalid', '2024-01-01')).toThrow();
+    });
+  });
+
+  describe('getRangeDuration', () => {
+    it('should return the duration in the given unit', () => {
+      const range = utc('2024-01-01T00:00:00', '2024-01-08T12:00:00');
+      expect(getRangeDuration(range, 'day')).toBe(7);
+      expect(getRangeDuration(range, 'hour')).toBe(180);
+    });
+  });
+
+  describe('rangeContains', () => {
+    const january = utc('2024-01-01T00:00:00', '2024-02-01T00:00:00');
+
+    it('should include the start and exclude the end', () => {
+      expect(rangeContains(january, '2024-01-01T00:00:00Z')).toBe(true);
+      expect(rangeContains(january, '2024-01-31T23:59:59Z')).toBe(true);
+      expect(rangeContains(january, '2024-02-01T00:00:00Z')).toBe(false);
+    });
+
+    it('should check contained ranges', () => {
+      expect(rangeContains(january, utc('2024-01-10T00:00:00', '2024-02-01T00:00:00'))).toBe(true);
+      expect(rangeContains(january, utc('2023-12-31T00:00:00', '2024-01-10T00:00:00'))).toBe(false);
+    });
+  });
+
+  describe('rangesOverlap', () => {
+    it('should detect overlapping ranges', () => {
+      const a = utc('2024-01-01T00:00:00', '2024-01-10T00:00:00');
+      expect(rangesOverlap(a, utc('2024-01-05T00:00:00', '2024-01-15T00:00:00'))).toBe(true);
+      expect(rangesOverlap(a, utc('2024-01-10T00:00:00', '2024-01-15T00:00:00'))).toBe(false);
+    });
+  });
+
+  describe('getRangeIntersection', () => {
+    it('should return the common range', () => {
+      const result = getRangeIntersection([
+        utc('2024-01-01T00:00:00', '2024-01-10T00:00:00'),
+        utc('2024-01-05T00:00:00', '2024-01-15T00:00:00'),
+        utc('2024-01-03T00:00:00', '2024-01-08T00:00:00'),
+      ]);
+      expect(iso([result!])).toEqual([['2024-01-05T00:00:00.000Z', '2024-01-08T00:00:00.000Z']]);
+    });
+
+    it('should return null without a common range', () => {
+      expect(
+        getRangeIntersection([
+          utc('2024-01-01T00:00:00', '2024-01-05T00:00:00'),
+          utc('2024-01-05T00:00:00', '2024-01-10T00:00:00'),
+        ])
+      ).toBeNull();
+      expect(getRangeIntersection([])).toBeNull();
+    });
+  });
+
+  describe('getRangeUnion', () => {
+    it('should merge overlapping and adjacent ranges', () => {
+      const result = getRangeUnion([
+        utc('2024-01-20T00:00:00', '2024-01-25T00:00:00'),
+        utc('2024-01-05T00:00:00', '2024-01-10T00:00:00'),
+        utc('2024-01-01T00:00:00', '2024-01-06T00:00:00'),
+        utc('2024-01-10T00:00:00', '2024-01-12T00:00:00'),
+      ]);
+      expect(iso(result)).toEqual([
+        ['2024-01-01T00:00:00.000Z', '2024-01-12T00:00:00.000Z'],
+        ['2024-01-20T00:00:00.000Z', '2024-01-25T00:00:00.000Z'],
+      ]);
+    });
+
+    it('should not mutate the input', () => {
+      const a = utc('2024-01-01T00:00:00', '2024-01-06T00:00:00');
+      getRangeUnion([a, utc('2024-01-05T00:00:00', '2024-01-10T00:00:00')]);
+      expect(a.end.toISOString()).toBe('2024-01-06T00:00:00.000Z');
+    });
+  });
+
+  describe('getRangeGaps', () => {
+    const bookings = [
+      utc('2024-01-01T10:00:00', '2024-01-01T11:00:00'),
+      utc('2024-01-01T13:00:00', '2024-01-01T14:00:00'),
+      utc('2024-01-01T10:30:00', '2024-01-01T12:00:00'),
+    ];
+
+    it('should find gaps between ranges', () => {
+      expect(iso(getRangeGaps(bookings))).toEqual([['2024-01-01T12:00:00.000Z', '2024-01-01T13:00:00.000Z']]);
+    });
+
+    it('should find gaps within bounds', () => {
+      const day = utc('2024-01-01T09:00:00', '2024-01-01T18:00:00');
+      expect(iso(getRangeGaps(bookings, day))).toEqual([
+        ['2024-01-01T09:00:00.000Z', '2024-01-01T10:00:00.000Z'],
+        ['2024-01-01T12:00:00.000Z', '2024-01-01T13:00:00.000Z'],
+        ['2024-01-01T14:00:00.000Z', '2024-01-01T18:00:00.000Z'],
+      ]);
+    });
+
+    it('should return the whole bounds without ranges', () => {
+      const day = utc('2024-01-01T09:00:00', '2024-01-01T18:00:00');
+      expect(iso(getRangeGaps([], day))).toEqual(iso([day]));
+      expect(getRangeGaps([])).toEqual([]);
+    });
+  });
+
+  describe('splitRange', () => {
+    it('should split by day in the given timezone', () => {
+      const range = utc('2024-01-01T12:00:00', '2024-01-03T00:00:00');
+      expect(iso(splitRange(range, 'day', { timezone: 'Asia/Seoul' }))).toEqual([
+        ['2024-01-01T12:00:00.000Z', '2024-01-01T15:00:00.000Z'],
+        ['2024-01-01T15:00:00.000Z', '2024-01-02T15:00:00.000Z'],
+        ['2024-01-02T15:00:00.000Z', '2024-01-03T00:00:00.000Z'],
+      ]);
+    });
+
+    it('should split by month', () => {
+      const range = utc('2024-01-30T00:00:00', '2024-03-15T00:00:00');
+      expect(iso(splitRange(range, 'month', { timezone: 'UTC' }))).toEqual([
+        ['2024-01-30T00:00:00.000Z', '2024-02-01T00:00:00.000Z'],
+        ['2024-02-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z'],
+        ['2024-03-01T00:00:00.000Z', '2024-03-15T00:00:00.000Z'],
+      ]);
+    });
+
+    it('should split by week with a custom start day', () => {
+      // 2024-01-03은 수요일
+      const range = utc('2024-01-03T00:00:00', '2024-01-17T00:00:00');
+      expect(iso(splitRange(range, 'week', { timezone: 'UTC', weekStartsOn: 1 }))).toEqual([
+        ['2024-01-03T00:00:00.000Z', '2024-01-08T00:00:00.000Z'],
+        ['2024-01-08T00:00:00.000Z', '2024-01-15T00:00:00.000Z'],
+        ['2024-01-15T00:00:00.000Z', '2024-01-17T00:00:00.000Z'],
+      ]);
+    });
+
+    it('should keep day boundaries at local midnight across DST changes', () => {
+      const range = utc('2024-03-09T05:00:00', '2024-03-11T04:00:00');
+      expect(iso(splitRange(range, 'day', { timezone: 'America/New_York' }))).toEqual([
+        ['2024-03-09T05:00:00.000Z', '2024-03-10T05:00:00.000Z'],
+        ['2024-03-10T05:00:00.000Z', '2024-03-11T04:00:00.000Z'],
+      ]);
+    });
+  });
+
+  describe('iterateRange', () => {
+    it('should iterate by day', () => {
+      const days = Array.from(iterateRange(utc('2024-01-01T00:00:00', '2024-01-04T00:00:00'), { timezone: 'UTC' }));
+      expect(days.map((d) => d.toISOString())).toEqual([
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-02T00:00:00.000Z',
+        '2024-01-03T00:00:00.000Z',
+      ]);
+    });
+
+    it('should iterate with a step and unit', () => {
+      const slots = Array.from(
+        iterateRange(utc('2024-01-01T09:00:00', '2024-01-01T11:00:00'), { step: 30, unit: 'minute' })
+      );
+      expect(slots).toHaveLength(4);
+      expect(slots[3].toISOString()).toBe('2024-01-01T10:30:00.000Z');
+    });
+
+    it('should keep the wall-clock time across DST changes', () => {
+      const range = utc('2024-03-09T14:00:00', '2024-03-12T00:00:00');
+      const days = Array.from(iterateRange(range, { timezone: 'America/New_York' }));
+      expect(days.map((d) => d.toISOString())).toEqual([
+        '2024-03-09T14:00:00.000Z',
+        '2024-03-10T13:00:00.000Z',
+        '2024-03-11T13:00:00.000Z',
+      ]);
+    });
+
+    it('should be lazy', () => {
+      const iterator = iterateRange(utc('2024-01-01T00:00:00', '9999-01-01T00:00:00'), { timezone: 'UTC' });
+      expect(iterator.next().value?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      expect(iterator.next().value?.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Date Range Utilities
+ *
+ * 기간(시작 ~ 종료)의 포함/겹침 판단, 교집합/합집합/빈 구간 계산, 단위별 분할과 순회
+ * 기간은 시작 시각을 포함하고 종료 시각은 포함하지 않습니다. ([start, end))
+ */
+
+import dayjs from 'dayjs';
+import { toWallClock, fromWallClock } from './wallClock';
+
+type DateInput = Date | string | number;
+
+/**
+ * 기간
+ */
+export interface DateRange {
+  /** 시작 시각 (포함) */
+  start: Date;
+  /** 종료 시각 (미포함) */
+  end: Date;
+}
+
+/**
+ * 기간 분할 단위
+ */
+export type DateRangeUnit = 'day' | 'week' | 'month';
+
+/**
+ * 기간 분할 옵션
+ */
+export interface SplitRangeOptions {
+  /** 단위 경계를 계산할 타임존 (예: 'Asia/Seoul', 기본값: 로컬 타임존) */
+  timezone?: string;
+  /** 주의 시작 요일 (0: 일요일 ~ 6: 토요일, 기본값: 0) */
+  weekStartsOn?: number;
+}
+
+/**
+ * 기간 순회 옵션
+ */
+export interface IterateRangeOptions {
+  /** 간격 (기본값: 1) */
+  step?: number;
+  /** 간격 단위 (기본값: 'day') */
+  unit?: 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute';
+  /** 날짜 단위 간격을 계산할 타임존 (기본값: 로컬 타임존) */
+  timezone?: string;
+}
+
+function startOfUnit(date: Date, unit: DateRangeUnit, tz?: string, weekStartsOn: number = 0): dayjs.Dayjs {
+  const day = toWallClock(date, tz).startOf('day');
+  if (unit === 'month') return day.startOf('month');
+  if (unit === 'week') return day.subtract((day.day() - weekStartsOn + 7) % 7, 'day');
+  return day;
+}
+
+/**
+ * 기간 생성 (시작이 종료보다 늦으면 순서를 바꿈)
+ * @param start - 시작 시각 (포함)
+ * @param end - 종료 시각 (미포함)
+ *
+ * @example
+ * createDateRange('2024-01-01', '2024-02-01') // { start: 2024-01-01, end: 2024-02-01 }
+ */
+export function createDateRange(start: DateInput, end: DateInput): DateRange {
+  const from = dayjs(start);
+  const to = dayjs(end);
+  if (!from.isValid() || !to.isValid()) {
+    throw new Error(`Invalid date range: ${String(start)} ~ ${String(end)}`);
+  }
+
+  return from.isAfter(to) ? { start: to.toDate(), end: from.toDate() } : { start: from.toDate(), end: to.toDate() };
+}
+
+/**
+ * 기간의 길이
+ * @param unit - 단위 (기본값: 'millisecond')
+ * @example getRangeDuration(createDateRange('2024-01-01', '2024-01-08'), 'day') // 7
+ */
+export function getRangeDuration(range: DateRange, unit: dayjs.OpUnitType = 'millisecond'): number {
+  return dayjs(range.end).diff(range.start, unit);
+}
+
+/**
+ * 날짜 또는 기간이 기간 안에 포함되는지 확인
+ * @example
+ * const january = createDateRange('2024-01-01', '2024-02-01');
+ * rangeContains(january, '2024-01-31') // true
+ * rangeContains(january, '2024-02-01') // false (종료 시각 미포함)
+ */
+export function rangeContains(range: DateRange, target: DateInput | DateRange): boolean {
+  if (typeof target === 'object' && 'start' in target) {
+    return target.start >= range.start && target.end <= range.end;
+  }
+
+  const time = dayjs(target).valueOf();
+  return time >= range.start.getTime() && time < range.end.getTime();
+}
+
+/**
+ * 두 기간이 겹치는지 확인 (맞닿기만 하면 겹치지 않음)
+ * @example
+ * rangesOverlap(createDateRange('2024-01-01', '2024-01-10'), createDateRange('2024-01-05', '2024-01-15')) // true
+ * rangesOverlap(createDateRange('2024-01-01', '2024-01-10'), createDateRange('2024-01-10', '2024-01-15')) // false
+ */
+export function rangesOverlap(a: DateRange, b: DateRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * 모든 기간의 교집합
+ * @returns 공통 기간 (없으면 null)
+ *
+ * @example
+ * getRangeIntersection([createDateRange('2024-01-01', '2024-01-10'), createDateRange('2024-01-05', '2024-01-15')])
+ * // { start: 2024-01-05, end: 2024-01-10 }
+ */
+export function getRangeIntersection(ranges: DateRange[]): DateRange | null {
+  if (ranges.length === 0) return null;
+
+  const start = Math.max(...ranges.map((r) => r.start.getTime()));
+  const end = Math.min(...ranges.map((r) => r.end.getTime()));
+  return start < end ? { start: new Date(start), end: new Date(end) } : null;
+}
+
+/**
+ * 기간들의 합집합 (겹치거나 맞닿은 기간을 합침)
+ * @returns 시작 시각순으로 정렬된 기간 목록
+ *
+ * @example
+ * getRangeUnion([createDateRange('2024-01-05', '2024-01-15'), createDateRange('2024-01-01', '2024-01-10')])
+ * // [{ start: 2024-01-01, end: 2024-01-15 }]
+ */
+export function getRangeUnion(ranges: DateRange[]): DateRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: DateRange[] = [];
+
+  sorted.forEach(({ start, end }) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last.end) {
+      if (end > last.end) last.end = new Date(end);
+    } else {
+      merged.push({ start: new Date(start), end: new Date(end) });
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * 기간들 사이의 빈 구간
+ * @param ranges - 기간 목록 (순서 무관, 겹쳐도 됨)
+ * @param within - 빈 구간을 찾을 전체 기간 (기본값: 첫 기간 시작 ~ 마지막 기간 종료)
+ *
+ * @example
+ * // 예약된 시간 사이의 빈 시간
+ * getRangeGaps(bookings, createDateRange('2024-01-01 09:00', '2024-01-01 18:00'))
+ */
+export function getRangeGaps(ranges: DateRange[], within?: DateRange): DateRange[] {
+  const merged = getRangeUnion(ranges);
+  const bounds = within ?? (merged.length > 0 ? { start: merged[0].start, end: merged[merged.length - 1].end } : null);
+  if (!bounds) return [];
+
+  const gaps: DateRange[] = [];
+  let cursor = bounds.start;
+
+  merged.forEach(({ start, end }) => {
+    if (start > cursor) {
+      const gapEnd = start < bounds.end ? start : bounds.end;
+      if (gapEnd > cursor) gaps.push({ start: new Date(cursor), end: new Date(gapEnd) });
+    }
+    if (end > cursor) cursor = end;
+  });
+
+  if (cursor < bounds.end) {
+    gaps.push({ start: new Date(cursor), end: new Date(bounds.end) });
+  }
+
+  return gaps;
+}
+
+/**
+ * 기간을 일/주/월 경계로 분할
+ * 첫 구간과 마지막 구간은 원래 기간에 맞춰 잘립니다.
+ *
+ * @example
+ * splitRange(createDateRange('2024-01-30', '2024-03-15'), 'month')
+ * // [{ 01-30 ~ 02-01 }, { 02-01 ~ 03-01 }, { 03-01 ~ 03-15 }]
+ *
+ * @example
+ * // 서울 기준 일별 분할
+ * splitRange(range, 'day', { timezone: 'Asia/Seoul' })
+ */
+export function splitRange(range: DateRange, unit: DateRangeUnit, options: SplitRangeOptions = {}): DateRange[] {
+  const { timezone: tz, weekStartsOn = 0 } = options;
+  const result: DateRange[] = [];
+
+  let start = range.start;
+  let boundary = startOfUnit(range.start, unit, tz, weekStartsOn);
+
+  while (start < range.end) {
+    boundary = boundary.add(1, unit);
+    const next = fromWallClock(boundary, tz);
+    const end = next < range.end ? next : range.end;
+
+    result.push({ start: new Date(start), end: new Date(end) });
+    start = end;
+  }
+
+  return result;
+}
+
+/**
+ * 기간 안의 시각을 간격마다 순회 (지연 계산)
+ * 날짜 단위 간격은 타임존의 벽시계 기준이므로 DST가 바뀌어도 같은 시각을 유지합니다.
+ *
+ * @example
+ * for (const day of iterateRange(createDateRange('2024-01-01', '2024-01-04'))) {
+ *   console.log(formatDate(day, 'YYYY-MM-DD')); // 2024-01-01, 2024-01-02, 2024-01-03
+ * }
+ *
+ * @example
+ * Array.from(iterateRange(range, { step: 30, unit: 'minute' })) // 30분 간격 시간대
+ */
+export function* iterateRange(range: DateRange, options: IterateRangeOptions = {}): Generator<Date> {
+  const { step = 1, unit = 'day', timezone: tz } = options;
+  if (step <= 0) return;
+
+  const wallClock = unit !== 'hour' && unit !== 'minute';
+  const origin = wallClock ? toWallClock(range.start, tz) : dayjs(range.start);
+
+  for (let i = 0; ; i++) {
+    const shifted = origin.add(i * step, unit);
+    const current = wallClock ? fromWallClock(shifted, tz) : shifted.toDate();
+    if (current >= range.end) return;
+    yield current;
+  }
+}
@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RRule,
+  parseRRule,
+  stringifyRRule,
+  iterateRRule,
+  getOccurrences,
+  getNextOccurrence,
+  describeRRule,
+} from './rrule';
+import { createDateRange } from './range';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+const utc = (value: string) => new Date(`${value}Z`);
+
+describe('Recurrence Rule', () => {
+  describe('parseRRule', () => {
+    it('should parse DTSTART, RRULE and EXDATE lines', () => {
+      const rule = parseRRule(
+        [
+          'DTSTART;TZID=Asia/Seoul:20240126T090000',
+          'RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2MO;COUNT=12',
+          'EXDATE;TZID=Asia/Seoul:20240329T090000',
+        ].join('\n')
+      );
+
+      expect(rule).toEqual({
+        freq: 'MONTHLY',
+        dtstart: utc('2024-01-26T00:00:00'),
+        tzid: 'Asia/Seoul',
+        interval: 2,
+        byDay: [
+          { weekday: 'FR', n: -1 },
+          { weekday: 'MO', n: 2 },
+        ],
+        count: 12,
+        exdate: [utc('2024-03-29T00:00:00')],
+      });
+    });
+
+    it('should parse a bare rule with a given start', () => {
+      const dtstart = utc('2024-01-01T00:00:00');
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240131T000000Z', { dtstart });
+
+      expect(rule?.freq).toBe('WEEKLY');
+      expect(rule?.dtstart).toEqual(dtstart);
+      expect(rule?.until).toEqual(utc('2024-01-31T00:00:00'));
+    });
+
+    it('should return null for invalid or unsupported rules', () => {
+      const dtstart = new Date();
+      expect(parseRRule('FREQ=WEEKLY')).toBeNull();
+      expect(parseRRule('FREQ=SECONDLY', { dtstart })).toBeNull();
+      expect(parseRRule('FREQ=DAILY;INTERVAL=0', { dtstart })).toBeNull();
+      expect(parseRRule('FREQ=DAILY;BYHOUR=9', { dtstart })).toBeNull();
+      expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=32', { dtstart })).toBeNull();
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=XX', { dtstart })).toBeNull();
+      expect(parseRRule('FREQ=WEEKLY;WKST=XX', { dtstart })).toBeNull();
+      expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20240101T000000Z', { dtstart })).toBeNull();
+      expect(parseRRule('DTSTART:20240230T000000Z\nRRULE:FREQ=DAILY')).toBeNull();
+    });
+  });
+
+  describe('stringifyRRule', () => {
+    it('should round-trip with parseRRule', () => {
+      const text = [
+        'DTSTART;TZID=Asia/Seoul:20240126T090000',
+        'RRULE:FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=1,-1;BYDAY=-1FR;UNTIL=20241231T150000Z',
+        'EXDATE;TZID=Asia/Seoul:20240329T090000',
+      ].join('\n');
+
+      expect(stringifyRRule(parseRRule(text)!)).toBe(text);
+    });
+
+    it('should keep WKST', () => {
+      const text = 'DTSTART:20240101T000000Z\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=SU';
+      expect(parseRRule(text)!.wkst).toBe('SU');
+      expect(stringifyRRule(parseRRule(text)!)).toBe(text);
+    });
+
+    it('should use UTC without a timezone', () => {
+      const rule: RRule = { freq: 'DAILY', dtstart: utc('2024-01-01T09:00:00'), count: 3 };
+      expect(stringifyRRule(rule)).toBe('DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;COUNT=3');
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('should expand daily rules with an interval', () => {
+      const rule: RRule = { freq: 'DAILY', dtstart: utc('2024-01-01T09:00:00'), interval: 2, count: 3, tzid: 'UTC' };
+      expect(iso(getOccurrences(rule))).toEqual([
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-03T09:00:00.000Z',
+        '2024-01-05T09:00:00.000Z',
+      ]);
+    });
+
+    it('should expand weekly rules by weekday', () => {
+      // 2024-01-03은 수요일
+      const rule = parseRRule('DTSTART:20240103T100000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=5', { tzid: 'UTC' })!;
+      expect(iso(getOccurrences(rule))).toEqual([
+        '2024-01-03T10:00:00.000Z',
+        '2024-01-05T10:00:00.000Z',
+        '2024-01-08T10:00:00.000Z',
+        '2024-01-10T10:00:00.000Z',
+        '2024-01-12T10:00:00.000Z',
+      ]);
+    });
+
+    it('should start weeks on WKST for weekly rules with an interval', () => {
+      // 2024-01-01은 월요일
+      const text = 'DTSTART:20240101T000000Z\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;COUNT=4';
+      expect(iso(getOccurrences(parseRRule(`${text};WKST=SU`, { tzid: 'UTC' })!))).toEqual([
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-14T00:00:00.000Z',
+        '2024-01-15T00:00:00.000Z',
+        '2024-01-28T00:00:00.000Z',
+      ]);
+      expect(iso(getOccurrences(parseRRule(text, { tzid: 'UTC' })!))).toEqual([
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-07T00:00:00.000Z',
+        '2024-01-15T00:00:00.000Z',
+        '2024-01-21T00:00:00.000Z',
+      ]);
+    });
+
+    it('should skip months without the start day instead of clamping', () => {
+      const rule = parseRRule('DTSTART;TZID=UTC:20240131T000000\nRRULE:FREQ=MONTHLY;COUNT=4')!;
+      expect(iso(getOccurrences(rule))).toEqual([
+        '2024-01-31T00:00:00.000Z',
+        '2024-03-31T00:00:00.000Z',
+        '2024-05-31T00:00:00.000Z',
+        '2024-07-31T00:00:00.000Z',
+      ]);
+    });
+
+    it('should support the last day of the month', () => {
+      const rule = parseRRule('DTSTART;TZID=UTC:20240115T000000\nRRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3')!;
+      expect(iso(getOccurrences(rule))).toEqual([
+        '2024-01-31T00:00:00.000Z',
+        '2024-02-29T00:00:00.000Z',
+        '2024-03-31T00:00:00.000Z',
+      ]);
+    });
+
+    it('should support the nth weekday of the month', () => {
+      const rule = parseRRule('DTSTART;TZID=Asia/Seoul:20240101T090000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')!;
+      expect(iso(getOccurrences(rule))).toEqual([
+        '2024-01-26T00:00:00.000Z',
+        '2024-02-23T00:00:00.000Z',
+        '2024-03-29T00:00:00.000Z',
+      ]);
+    });
+
+    it('should support yearly rules with BYMONTH and BYDAY', () => {
+      // 미국 서머타임 시작일: 3월 둘째 일요일
+      const rule = parseRRule('DTSTART;TZID=UTC:20240101T000000\nRRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU;COUNT=3')!;
+      expect(iso(getOccurrences(rule))).toEqual([
+        '2024-03-10T00:00:00.000Z',
+        '2025-03-09T00:00:00.000Z',
+        '2026-03-08T00:00:00.000Z',
+      ]);
+    });
+
+    it('should handle leap days in yearly rules', () => {
+      const rule = parseRRule('DTSTART;TZID=UTC:20240229T000000\nRRULE:FREQ=YEARLY;COUNT=2')!;
+      expect(iso(getOccurrences(rule))).toEqual(['2024-02-29T00:00:00.000Z', '2028-02-29T00:00:00.000Z']);
+    });
+
+    it('should keep the wall-clock time across DST changes', () => {
+      const rule = parseRRule('DTSTART;TZID=America/New_York:20240309T090000\nRRULE:FREQ=DAILY;COUNT=2')!;
+      expect(iso(getOccurrences(rule))).toEqual(['2024-03-09T14:00:00.000Z', '2024-03-10T13:00:00.000Z']);
+    });
+
+    it('should stop at UNTIL (inclusive)', () => {
+      const rule = parseRRule('DTSTART:20240101T000000Z\nRRULE:FREQ=DAILY;UNTIL=20240103T000000Z', { tzid: 'UTC' })!;
+      expect(getOccurrences(rule)).toHaveLength(3);
+    });
+
+    it('should exclude EXDATE but still count it', () => {
+      const rule = parseRRule(
+        'DTSTART:20240101T000000Z\nRRULE:FREQ=DAILY;COUNT=3\nEXDATE:20240102T000000Z',
+        { tzid: 'UTC' }
+      )!;
+      expect(iso(getOccurrences(rule))).toEqual(['2024-01-01T00:00:00.000Z', '2024-01-03T00:00:00.000Z']);
+    });
+
+    it('should limit occurrences to a range', () => {
+      const rule = parseRRule('DTSTART:20240101T000000Z\nRRULE:FREQ=WEEKLY', { tzid: 'UTC' })!;
+      const range = createDateRange('2024-02-01T00:00:00Z', '2024-03-01T00:00:00Z');
+      expect(iso(getOccurrences(rule, { range }))).toEqual([
+        '2024-02-05T00:00:00.000Z',
+        '2024-02-12T00:00:00.000Z',
+        '2024-02-19T00:00:00.000Z',
+        '2024-02-26T00:00:00.000Z',
+      ]);
+    });
+
+    it('should cap unbounded rules', () => {
+      const rule = parseRRule('DTSTART:20240101T000000Z\nRRULE:FREQ=DAILY', { tzid: 'UTC' })!;
+      expect(getOccurrences(rule, { limit: 10 })).toHaveLength(10);
+      expect(getOccurrences(rule)).toHaveLength(1000);
+    });
+
+    it('should terminate for rules that never match', () => {
+      const rule = parseRRule('DTSTART:20240101T000000Z\nRRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', { tzid: 'UTC' })!;
+      expect(iterateRRule(rule).next().done).toBe(true);
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    const rule = parseRRule('DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;COUNT=5', { tzid: 'UTC' })!;
+
+    it('should return the next occurrence after a date', () => {
+      expect(getNextOccurrence(rule, '2024-01-02T09:00:00Z')?.toISOString()).toBe('2024-01-03T09:00:00.000Z');
+    });
+
+    it('should return null when the rule has ended', () => {
+      expect(getNextOccurrence(rule, '2024-01-05T09:00:00Z')).toBeNull();
+    });
+  });
+
+  describe('describeRRule', () => {
+    const dtstart = new Date();
+    const describeText = (text: string, locale?: 'ko' | 'en') => describeRRule(parseRRule(text, { dtstart })!, locale);
+
+    it('should describe rules in Korean', () => {
+      expect(describeText('FREQ=MONTHLY;BYDAY=-1FR')).toBe('매월 마지막 금요일');
+      expect(describeText('FREQ=DAILY;INTERVAL=2')).toBe('2일마다');
+      expect(describeText('FREQ=WEEKLY;BYDAY=MO,WE')).toBe('매주 월요일, 수요일');
+      expect(describeText('FREQ=YEARLY;BYMONTH=3;BYDAY=2SU;COUNT=3')).toBe('매년 3월 둘째 일요일, 3회');
+      expect(describeText('FREQ=MONTHLY;BYMONTHDAY=-1')).toBe('매월 마지막 날');
+    });
+
+    it('should describe rules in English', () => {
+      expect(describeText('FREQ=MONTHLY;BYDAY=-1FR', 'en')).toBe('Monthly on the last Friday');
+      expect(describeText('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', 'en')).toBe('Every 2 weeks on Monday, Wednesday');
+      expect(describeText('FREQ=MONTHLY;BYMONTHDAY=15;COUNT=1', 'en')).toBe('Monthly on day 15, 1 time');
+    });
+
+    it('should describe UNTIL in the rule timezone', () => {
+      const rule = parseRRule('DTSTART;TZID=Asia/Seoul:20240101T090000\nRRULE:FREQ=DAILY;UNTIL=20241231T150000Z')!;
+      expect(describeRRule(rule)).toBe('매일, 2025년 1월 1일까지');
+      expect(describeRRule(rule, 'en')).toBe('Daily, until January 1, 2025');
+    });
+  });
+});
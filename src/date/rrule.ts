@@ -0,0 +1,517 @@
+/**
+ * Recurrence Rule Utilities
+ *
+ * iCalendar(RFC 5545) RRULE 해석/직렬화, 반복 일정 계산, 한국어/영어 설명
+ * 지원 속성: FREQ(YEARLY, MONTHLY, WEEKLY, DAILY), INTERVAL, BYMONTH, BYMONTHDAY, BYDAY, COUNT, UNTIL, WKST
+ * 반복 시각은 DTSTART의 타임존(TZID) 벽시계 기준이므로 DST가 바뀌어도 같은 시각을 유지합니다.
+ */
+
+import dayjs from 'dayjs';
+import { toWallClock, fromWallClock } from './wallClock';
+import type { DateRange } from './range';
+
+/**
+ * 반복 주기
+ */
+export type RRuleFrequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY';
+
+/**
+ * 요일 (iCalendar 표기)
+ */
+export type RRuleWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * BYDAY 항목 (예: '-1FR' → { weekday: 'FR', n: -1 })
+ */
+export interface RRuleByDay {
+  weekday: RRuleWeekday;
+  /** 몇 번째 요일 (음수는 뒤에서부터, MONTHLY/YEARLY에서만 사용) */
+  n?: number;
+}
+
+/**
+ * 반복 규칙
+ */
+export interface RRule {
+  freq: RRuleFrequency;
+  /** 시작 시각 (첫 반복, 반복 시각의 기준) */
+  dtstart: Date;
+  /** DTSTART의 타임존 (기본값: 로컬 타임존) */
+  tzid?: string;
+  /** 반복 간격 (기본값: 1) */
+  interval?: number;
+  /** 월 (1 ~ 12) */
+  byMonth?: number[];
+  /** 일 (1 ~ 31, 음수는 말일부터: -1은 마지막 날) */
+  byMonthDay?: number[];
+  /** 요일 */
+  byDay?: RRuleByDay[];
+  /** 주의 시작 요일 (WEEKLY의 INTERVAL 계산에 사용, 기본값: 'MO') */
+  wkst?: RRuleWeekday;
+  /** 최대 반복 횟수 (EXDATE로 제외된 날짜도 횟수에 포함) */
+  count?: number;
+  /** 마지막 반복 시각 (포함) */
+  until?: Date;
+  /** 제외할 시각 */
+  exdate?: Date[];
+}
+
+/**
+ * 반복 일정 조회 옵션
+ */
+export interface OccurrenceOptions {
+  /** 조회 기간 (시작 포함, 종료 미포함) */
+  range?: DateRange;
+  /** 최대 개수 (기본값: COUNT, UNTIL, range 종료가 모두 없으면 1000) */
+  limit?: number;
+}
+
+const WEEKDAYS: RRuleWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY'];
+
+const frequencyUnits = {
+  YEARLY: 'year',
+  MONTHLY: 'month',
+  WEEKLY: 'week',
+  DAILY: 'day',
+} as const;
+
+/** 규칙에 맞는 날짜가 이 기간 동안 없으면 더 이상 반복되지 않는 것으로 봄 (그레고리력 400년 주기) */
+const MAX_EMPTY_YEARS = 400;
+
+const DEFAULT_LIMIT = 1000;
+
+// 날짜/시각 값 (YYYYMMDD, YYYYMMDDTHHmmss, YYYYMMDDTHHmmssZ)
+function parseDateValue(value: string, tz?: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h = '00', mi = '00', s = '00', z] = match;
+  const wall = dayjs.utc(`${y}-${mo}-${d}T${h}:${mi}:${s}`);
+  if (!wall.isValid() || wall.format('YYYYMMDD') !== `${y}${mo}${d}`) return null;
+
+  return z ? wall.toDate() : fromWallClock(wall, tz);
+}
+
+function formatDateValue(date: Date, tz?: string): string {
+  return tz ? toWallClock(date, tz).format('YYYYMMDD[T]HHmmss') : dayjs(date).utc().format('YYYYMMDD[T]HHmmss[Z]');
+}
+
+function parseByDay(value: string): RRuleByDay | null {
+  const match = value.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+  if (!match) return null;
+
+  const n = match[1] ? Number(match[1]) : undefined;
+  if (n !== undefined && (n === 0 || Math.abs(n) > 53)) return null;
+
+  return n === undefined ? { weekday: match[2] as RRuleWeekday } : { weekday: match[2] as RRuleWeekday, n };
+}
+
+function parseIntegerList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map((v) => (/^[+-]?\d+$/.test(v) ? Number(v) : NaN));
+  const valid = numbers.every((n) => !Number.isNaN(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max);
+  return valid ? numbers : null;
+}
+
+/**
+ * RRULE 문자열을 반복 규칙으로 변환
+ * DTSTART, RRULE, EXDATE 줄을 함께 해석합니다. DTSTART가 없으면 options.dtstart를 사용합니다.
+ *
+ * @param text - iCalendar 반복 규칙 (여러 줄 가능)
+ * @param options.dtstart - DTSTART 줄이 없을 때 사용할 시작 시각
+ * @param options.tzid - TZID가 없을 때 사용할 타임존
+ * @returns 반복 규칙 (해석할 수 없거나 지원하지 않는 속성이 있으면 null)
+ *
+ * @example
+ * parseRRule('DTSTART;TZID=Asia/Seoul:20240126T090000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=12')
+ * // { freq: 'MONTHLY', dtstart: 2024-01-26T00:00:00Z, tzid: 'Asia/Seoul', byDay: [{ weekday: 'FR', n: -1 }], count: 12 }
+ *
+ * @example
+ * parseRRule('FREQ=WEEKLY;BYDAY=MO,WE', { dtstart: new Date() })
+ */
+export function parseRRule(text: string, options: { dtstart?: Date; tzid?: string } = {}): RRule | null {
+  let tzid = options.tzid;
+  let dtstart = options.dtstart;
+  let ruleText: string | undefined;
+  const exdate: Date[] = [];
+
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    const [name, ...params] = (separator >= 0 ? line.slice(0, separator) : 'RRULE').split(';');
+    const value = separator >= 0 ? line.slice(separator + 1) : line;
+    const lineTzid = params.find((param) => param.toUpperCase().startsWith('TZID='))?.slice(5) ?? tzid;
+
+    switch (name.toUpperCase()) {
+      case 'DTSTART': {
+        const parsed = parseDateValue(value, lineTzid);
+        if (!parsed) return null;
+        dtstart = parsed;
+        tzid = lineTzid;
+        break;
+      }
+      case 'RRULE':
+        ruleText = value;
+        break;
+      case 'EXDATE':
+        for (const item of value.split(',')) {
+          const parsed = parseDateValue(item, lineTzid);
+          if (!parsed) return null;
+          exdate.push(parsed);
+        }
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!ruleText || !dtstart) return null;
+
+  const rule: Partial<RRule> = { dtstart };
+  if (tzid) rule.tzid = tzid;
+
+  for (const part of ruleText.split(';').filter(Boolean)) {
+    const [key, value = ''] = part.split('=');
+
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value as RRuleFrequency)) return null;
+        rule.freq = value as RRuleFrequency;
+        break;
+      case 'INTERVAL':
+        if (!/^\d+$/.test(value) || Number(value) < 1) return null;
+        rule.interval = Number(value);
+        break;
+      case 'COUNT':
+        if (!/^\d+$/.test(value) || Number(value) < 1) return null;
+        rule.count = Number(value);
+        break;
+      case 'UNTIL': {
+        const until = parseDateValue(value, tzid);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntegerList(value, 1, 12);
+        if (!months || months.some((m) => m < 0)) return null;
+        rule.byMonth = months;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseIntegerList(value, 1, 31);
+        if (!days) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYDAY': {
+        const days = value.split(',').map(parseByDay);
+        if (days.some((d) => d === null)) return null;
+        rule.byDay = days as RRuleByDay[];
+        break;
+      }
+      case 'WKST':
+        if (!WEEKDAYS.includes(value as RRuleWeekday)) return null;
+        rule.wkst = value as RRuleWeekday;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  // RFC 5545: COUNT와 UNTIL은 함께 쓸 수 없음
+  if (!rule.freq || (rule.count !== undefined && rule.until !== undefined)) return null;
+  if (exdate.length > 0) rule.exdate = exdate;
+
+  return rule as RRule;
+}
+
+/**
+ * 반복 규칙을 iCalendar 문자열로 변환 (DTSTART, RRULE, EXDATE 줄)
+ * @example
+ * stringifyRRule({ freq: 'MONTHLY', dtstart, tzid: 'Asia/Seoul', byDay: [{ weekday: 'FR', n: -1 }] })
+ * // 'DTSTART;TZID=Asia/Seoul:20240126T090000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR'
+ */
+export function stringifyRRule(rule: RRule): string {
+  const { tzid } = rule;
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(({ weekday, n }) => `${n ?? ''}${weekday}`).join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatDateValue(rule.until)}`);
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+
+  const prefix = tzid ? `;TZID=${tzid}` : '';
+  const lines = [`DTSTART${prefix}:${formatDateValue(rule.dtstart, tzid)}`, `RRULE:${parts.join(';')}`];
+
+  if (rule.exdate?.length) {
+    lines.push(`EXDATE${prefix}:${rule.exdate.map((date) => formatDateValue(date, tzid)).join(',')}`);
+  }
+
+  return lines.join('\n');
+}
+
+// 기간(월/연) 안에서 BYDAY에 맞는 날짜 (n은 기간 안에서 몇 번째 요일인지, 음수는 뒤에서부터)
+function nthWeekdaysInPeriod(days: dayjs.Dayjs[], byDay: RRuleByDay[]): dayjs.Dayjs[] {
+  const totals = Array(7).fill(0);
+  days.forEach((day) => totals[day.day()]++);
+
+  const seen = Array(7).fill(0);
+  return days.filter((day) => {
+    const weekday = day.day();
+    const index = seen[weekday]++;
+    return byDay.some(
+      ({ weekday: w, n }) =>
+        WEEKDAYS[weekday] === w && (n === undefined || (n > 0 ? index === n - 1 : index === totals[weekday] + n))
+    );
+  });
+}
+
+function matchesMonthDay(day: dayjs.Dayjs, byMonthDay: number[]): boolean {
+  const daysInMonth = day.daysInMonth();
+  return byMonthDay.some((n) => (n > 0 ? day.date() === n : day.date() === daysInMonth + n + 1));
+}
+
+function daysOf(start: dayjs.Dayjs, unit: 'year' | 'month' | 'week' | 'day'): dayjs.Dayjs[] {
+  const end = start.add(1, unit);
+  const days: dayjs.Dayjs[] = [];
+  for (let day = start; day.isBefore(end); day = day.add(1, 'day')) {
+    days.push(day);
+  }
+  return days;
+}
+
+// 한 주기(년/월/주/일) 안에서 규칙에 맞는 날짜 (벽시계 기준, 자정)
+function candidatesInPeriod(rule: RRule, periodStart: dayjs.Dayjs, start: dayjs.Dayjs): dayjs.Dayjs[] {
+  const { freq, byMonth, byMonthDay, byDay } = rule;
+  const inMonth = (day: dayjs.Dayjs) => !byMonth || byMonth.includes(day.month() + 1);
+
+  // 한 달 안의 날짜: BYMONTHDAY/BYDAY가 없으면 시작일과 같은 일
+  const monthCandidates = (monthStart: dayjs.Dayjs) => {
+    let days = daysOf(monthStart, 'month');
+    if (byMonthDay) days = days.filter((day) => matchesMonthDay(day, byMonthDay));
+    if (byDay) days = nthWeekdaysInPeriod(days, byDay);
+    if (!byMonthDay && !byDay) days = days.filter((day) => day.date() === start.date());
+    return days;
+  };
+
+  switch (freq) {
+    case 'YEARLY': {
+      if (byDay && !byMonth && !byMonthDay) {
+        // BYDAY의 n은 연중 n번째 요일
+        return nthWeekdaysInPeriod(daysOf(periodStart, 'year'), byDay);
+      }
+      if (!byMonth && !byMonthDay && !byDay) {
+        return daysOf(periodStart, 'year').filter((day) => day.month() === start.month() && day.date() === start.date());
+      }
+      const months = byMonth ?? (byMonthDay ? Array.from({ length: 12 }, (_, i) => i + 1) : [start.month() + 1]);
+      return months
+        .slice()
+        .sort((a, b) => a - b)
+        .flatMap((month) => monthCandidates(periodStart.month(month - 1)));
+    }
+    case 'MONTHLY':
+      return inMonth(periodStart) ? monthCandidates(periodStart) : [];
+    case 'WEEKLY': {
+      const weekdays = byDay ? byDay.map(({ weekday }) => weekday) : [WEEKDAYS[start.day()]];
+      return daysOf(periodStart, 'week').filter((day) => inMonth(day) && weekdays.includes(WEEKDAYS[day.day()]));
+    }
+    case 'DAILY': {
+      const matches =
+        inMonth(periodStart) &&
+        (!byMonthDay || matchesMonthDay(periodStart, byMonthDay)) &&
+        (!byDay || byDay.some(({ weekday }) => WEEKDAYS[periodStart.day()] === weekday));
+      return matches ? [periodStart] : [];
+    }
+  }
+}
+
+/**
+ * 반복 일정을 순서대로 계산 (지연 계산, EXDATE 제외)
+ * COUNT와 UNTIL이 없으면 끝없이 반복되므로 필요한 만큼만 꺼내 사용합니다.
+ *
+ * @example
+ * const iterator = iterateRRule(rule);
+ * iterator.next().value // 첫 반복 시각
+ */
+export function* iterateRRule(rule: RRule): Generator<Date> {
+  const { freq, dtstart, tzid, interval = 1, count, until, wkst = 'MO' } = rule;
+  const unit = frequencyUnits[freq];
+  const excluded = new Set((rule.exdate ?? []).map((date) => date.getTime()));
+
+  const start = toWallClock(dtstart, tzid);
+  const startDay = start.startOf('day');
+  const timeOfDay = start.diff(startDay);
+  // 주는 WKST 요일부터 시작
+  const weekOffset = (startDay.day() - WEEKDAYS.indexOf(wkst) + 7) % 7;
+  const firstPeriod = unit === 'week' ? startDay.subtract(weekOffset, 'day') : startDay.startOf(unit);
+
+  let generated = 0;
+  let lastHit = startDay;
+
+  for (let i = 0; ; i++) {
+    const periodStart = firstPeriod.add(i * interval, unit);
+    if (periodStart.diff(lastHit, 'year') > MAX_EMPTY_YEARS * (unit === 'year' ? interval : 1)) return;
+
+    for (const day of candidatesInPeriod(rule, periodStart, start)) {
+      if (day.isBefore(startDay)) continue;
+
+      const occurrence = fromWallClock(day.add(timeOfDay, 'millisecond'), tzid);
+      if (occurrence < dtstart) continue;
+      if (until && occurrence > until) return;
+
+      lastHit = day;
+      generated++;
+      if (!excluded.has(occurrence.getTime())) yield occurrence;
+      if (count !== undefined && generated >= count) return;
+    }
+  }
+}
+
+/**
+ * 반복 일정 목록
+ * @param options.range - 조회 기간 (시작 포함, 종료 미포함)
+ * @param options.limit - 최대 개수
+ *
+ * @example
+ * // 2024년 매월 마지막 금요일 09:00 (서울)
+ * getOccurrences(parseRRule('DTSTART;TZID=Asia/Seoul:20240126T090000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR')!, {
+ *   range: createDateRange('2024-01-01', '2025-01-01'),
+ * })
+ */
+export function getOccurrences(rule: RRule, options: OccurrenceOptions = {}): Date[] {
+  const { range } = options;
+  const bounded = rule.count !== undefined || rule.until !== undefined || range !== undefined;
+  const limit = options.limit ?? (bounded ? Infinity : DEFAULT_LIMIT);
+  const result: Date[] = [];
+
+  if (limit <= 0) return result;
+
+  for (const occurrence of iterateRRule(rule)) {
+    if (range && occurrence >= range.end) break;
+    if (range && occurrence < range.start) continue;
+
+    result.push(occurrence);
+    if (result.length >= limit) break;
+  }
+
+  return result;
+}
+
+/**
+ * 기준 시각 이후의 다음 반복 시각
+ * @returns 다음 반복 시각 (더 이상 없으면 null)
+ *
+ * @example getNextOccurrence(rule, new Date()) // 다음 알림 시각
+ */
+export function getNextOccurrence(rule: RRule, after: Date | string | number = new Date()): Date | null {
+  const time = dayjs(after).valueOf();
+  for (const occurrence of iterateRRule(rule)) {
+    if (occurrence.getTime() > time) return occurrence;
+  }
+  return null;
+}
+
+const descriptionTexts = {
+  ko: {
+    every: { YEARLY: '매년', MONTHLY: '매월', WEEKLY: '매주', DAILY: '매일' },
+    interval: { YEARLY: '{n}년마다', MONTHLY: '{n}개월마다', WEEKLY: '{n}주마다', DAILY: '{n}일마다' },
+    weekdays: { MO: '월요일', TU: '화요일', WE: '수요일', TH: '목요일', FR: '금요일', SA: '토요일', SU: '일요일' },
+    ordinals: ['첫째', '둘째', '셋째', '넷째', '다섯째'],
+  },
+  en: {
+    every: { YEARLY: 'Yearly', MONTHLY: 'Monthly', WEEKLY: 'Weekly', DAILY: 'Daily' },
+    interval: { YEARLY: 'Every {n} years', MONTHLY: 'Every {n} months', WEEKLY: 'Every {n} weeks', DAILY: 'Every {n} days' },
+    weekdays: {
+      MO: 'Monday',
+      TU: 'Tuesday',
+      WE: 'Wednesday',
+      TH: 'Thursday',
+      FR: 'Friday',
+      SA: 'Saturday',
+      SU: 'Sunday',
+    },
+    ordinals: ['first', 'second', 'third', 'fourth', 'fifth'],
+  },
+};
+
+const englishMonths = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+function describeOrdinal(n: number, locale: 'ko' | 'en'): string {
+  const { ordinals } = descriptionTexts[locale];
+  if (n > 0) return ordinals[n - 1] ?? (locale === 'ko' ? `${n}번째` : `${n}th`);
+  if (n === -1) return locale === 'ko' ? '마지막' : 'last';
+  return locale === 'ko' ? `끝에서 ${-n}번째` : `${-n}th to last`;
+}
+
+/**
+ * 반복 규칙을 사람이 읽을 수 있는 문장으로 변환
+ * @param locale - 'ko' 또는 'en' (기본값: 'ko')
+ *
+ * @example
+ * describeRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR', { dtstart })!) // '매월 마지막 금요일'
+ * describeRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', { dtstart })!, 'en') // 'Every 2 weeks on Monday, Wednesday'
+ * describeRRule(parseRRule('FREQ=YEARLY;BYMONTH=5;BYMONTHDAY=8;COUNT=3', { dtstart })!) // '매년 5월 8일, 3회'
+ */
+export function describeRRule(rule: RRule, locale: 'ko' | 'en' = 'ko'): string {
+  const texts = descriptionTexts[locale];
+  const { freq, interval = 1, byMonth, byMonthDay, byDay, count, until } = rule;
+  const ko = locale === 'ko';
+
+  const parts = [interval > 1 ? texts.interval[freq].replace('{n}', String(interval)) : texts.every[freq]];
+
+  if (byMonth?.length) {
+    const months = byMonth.map((m) => (ko ? `${m}월` : englishMonths[m - 1])).join(', ');
+    parts.push(ko ? months : `in ${months}`);
+  }
+
+  if (byMonthDay?.length) {
+    const days = byMonthDay.map((n) => {
+      if (n === -1) return ko ? '마지막 날' : 'the last day';
+      if (n < 0) return ko ? `끝에서 ${-n}번째 날` : `the ${-n}th to last day`;
+      return ko ? `${n}일` : `day ${n}`;
+    });
+    parts.push(ko ? days.join(', ') : `on ${days.join(', ')}`);
+  }
+
+  if (byDay?.length) {
+    const days = byDay
+      .map(({ weekday, n }) =>
+        n === undefined ? texts.weekdays[weekday] : `${ko ? '' : 'the '}${describeOrdinal(n, locale)} ${texts.weekdays[weekday]}`
+      )
+      .join(', ');
+    parts.push(ko ? days : `on ${days}`);
+  }
+
+  let description = parts.join(' ');
+
+  if (count !== undefined) {
+    description += ko ? `, ${count}회` : `, ${count} ${count === 1 ? 'time' : 'times'}`;
+  }
+  if (until) {
+    const date = toWallClock(until, rule.tzid);
+    description += ko ? `, ${date.format('YYYY년 M월 D일')}까지` : `, until ${englishMonths[date.month()]} ${date.date()}, ${date.year()}`;
+  }
+
+  return description;
+}
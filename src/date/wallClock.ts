@@ -0,0 +1,26 @@
+/**
+ * Wall-clock helpers (내부용)
+ *
+ * 타임존의 벽시계 시각을 UTC 기준 dayjs로 옮겨 DST 영향 없이 날짜를 계산한 뒤 다시 실제 시각으로 변환
+ */
+
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const WALL_FORMAT = 'YYYY-MM-DDTHH:mm:ss.SSS';
+
+/**
+ * 시각을 타임존(기본값: 로컬)의 벽시계 시각으로 변환
+ */
+export const toWallClock = (date: Date, tz?: string): dayjs.Dayjs =>
+  dayjs.utc((tz ? dayjs(date).tz(tz) : dayjs(date)).format(WALL_FORMAT));
+
+/**
+ * 타임존(기본값: 로컬)의 벽시계 시각을 실제 시각으로 변환
+ */
+export const fromWallClock = (wall: dayjs.Dayjs, tz?: string): Date =>
+  (tz ? dayjs.tz(wall.format(WALL_FORMAT), tz) : dayjs(wall.format(WALL_FORMAT))).toDate();
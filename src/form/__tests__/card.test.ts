@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  detectCardBrand,
+  getCardBrandInfo,
+  registerCardIssuer,
+  clearCardIssuers,
+  detectCardIssuer,
+  isLuhnValid,
+  calculateLuhnCheckDigit,
+  validateCreditCard,
+  isCreditCard,
+  validateCardExpiry,
+  validateCardCvc,
+} from '../card';
+
+describe('Credit Card', () => {
+  afterEach(() => {
+    clearCardIssuers();
+  });
+
+  describe('isLuhnValid', () => {
+    it('should validate Luhn checksums', () => {
+      expect(isLuhnValid('4111111111111111')).toBe(true);
+      expect(isLuhnValid('4111-1111-1111-1111')).toBe(true);
+      expect(isLuhnValid('378282246310005')).toBe(true);
+      expect(isLuhnValid('4111111111111112')).toBe(false);
+      expect(isLuhnValid('')).toBe(false);
+    });
+  });
+
+  describe('calculateLuhnCheckDigit', () => {
+    it('should calculate the check digit', () => {
+      expect(calculateLuhnCheckDigit('411111111111111')).toBe(1);
+      expect(calculateLuhnCheckDigit('37828224631000')).toBe(5);
+    });
+  });
+
+  describe('detectCardBrand', () => {
+    it('should detect international brands', () => {
+      expect(detectCardBrand('4111111111111111')).toBe('visa');
+      expect(detectCardBrand('5555555555554444')).toBe('mastercard');
+      expect(detectCardBrand('2223003122003222')).toBe('mastercard');
+      expect(detectCardBrand('378282246310005')).toBe('amex');
+      expect(detectCardBrand('3530111333300000')).toBe('jcb');
+      expect(detectCardBrand('30569309025904')).toBe('diners');
+      expect(detectCardBrand('6011111111111117')).toBe('discover');
+      expect(detectCardBrand('6200000000000005')).toBe('unionpay');
+    });
+
+    it('should detect domestic-only cards', () => {
+      expect(detectCardBrand('9410-1234-5678-9012')).toBe('domestic');
+      expect(detectCardBrand('9430-1234-5678-9012')).toBe('bc');
+      expect(detectCardBrand('943')).toBe('bc');
+    });
+
+    it('should detect brand from a partial number', () => {
+      expect(detectCardBrand('37')).toBe('amex');
+      expect(detectCardBrand('1234')).toBeNull();
+      expect(detectCardBrand('')).toBeNull();
+    });
+  });
+
+  describe('getCardBrandInfo', () => {
+    it('should return brand grouping and CVC length', () => {
+      expect(getCardBrandInfo('amex')).toMatchObject({ gaps: [4, 10], cvcLength: 4, lengths: [15] });
+    });
+  });
+
+  describe('detectCardIssuer', () => {
+    it('should detect registered issuers by the longest prefix', () => {
+      registerCardIssuer('A카드', ['9420']);
+      registerCardIssuer('B카드', ['942012']);
+
+      expect(detectCardIssuer('9420-5678-1234-9012')).toBe('A카드');
+      expect(detectCardIssuer('9420-1234-5678-9012')).toBe('B카드');
+      expect(detectCardIssuer('4111111111111111')).toBeNull();
+    });
+
+    it('should not detect issuers that were not registered', () => {
+      expect(detectCardIssuer('9445-1234-5678-9012')).toBeNull();
+      expect(detectCardIssuer('')).toBeNull();
+
+      registerCardIssuer('A카드', ['9445']);
+      expect(detectCardIssuer('9445-1234-5678-9012')).toBe('A카드');
+
+      clearCardIssuers();
+      expect(detectCardIssuer('9445-1234-5678-9012')).toBeNull();
+    });
+  });
+
+  describe('validateCreditCard', () => {
+    it('should validate card numbers', () => {
+      expect(validateCreditCard('4111-1111-1111-1111')).toEqual({ valid: true, brand: 'visa', issuer: null });
+    });
+
+    it('should report the failure reason', () => {
+      expect(validateCreditCard('4111-1111-1111-1112')).toEqual({
+        valid: false,
+        reason: 'luhn',
+        brand: 'visa',
+        issuer: null,
+      });
+      expect(validateCreditCard('3782822463100050')).toMatchObject({ valid: false, reason: 'length', brand: 'amex' });
+      expect(validateCreditCard('1234')).toMatchObject({ valid: false, reason: 'length', brand: null });
+    });
+
+    it('should include the issuer', () => {
+      const bc = '943012345678901';
+      expect(validateCreditCard(bc + calculateLuhnCheckDigit(bc))).toEqual({ valid: true, brand: 'bc', issuer: null });
+
+      registerCardIssuer('A카드', ['9420']);
+      const body = '942012345678901';
+      expect(validateCreditCard(body + calculateLuhnCheckDigit(body))).toEqual({
+        valid: true,
+        brand: 'domestic',
+        issuer: 'A카드',
+      });
+    });
+  });
+
+  describe('isCreditCard', () => {
+    it('should return a boolean', () => {
+      expect(isCreditCard('5555 5555 5555 4444')).toBe(true);
+      expect(isCreditCard('5555 5555 5555 4445')).toBe(false);
+    });
+  });
+
+  describe('validateCardExpiry', () => {
+    const base = new Date(2024, 5, 15);
+
+    it('should accept expiry dates until the end of the month', () => {
+      expect(validateCardExpiry('06/24', base)).toBe(true);
+      expect(validateCardExpiry('0624', base)).toBe(true);
+      expect(validateCardExpiry('12/2030', base)).toBe(true);
+    });
+
+    it('should reject expired or malformed dates', () => {
+      expect(validateCardExpiry('05/24', base)).toBe(false);
+      expect(validateCardExpiry('13/29', base)).toBe(false);
+      expect(validateCardExpiry('1/29', base)).toBe(false);
+    });
+  });
+
+  describe('validateCardCvc', () => {
+    it('should validate CVC length by brand', () => {
+      expect(validateCardCvc('123', 'visa')).toBe(true);
+      expect(validateCardCvc('1234', 'amex')).toBe(true);
+      expect(validateCardCvc('123', 'amex')).toBe(false);
+      expect(validateCardCvc('1234')).toBe(true);
+      expect(validateCardCvc('12a')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { diffValues, createPatch, applyPatch, JsonPatchOperation } from '../diff';
+
+describe('Diff & JSON Patch', () => {
+  const original = {
+    name: 'Kim',
+    address: { city: '서울', zip: '06236' },
+    items: [
+      { id: 1, qty: 1 },
+      { id: 2, qty: 2 },
+      { id: 3, qty: 5 },
+    ],
+    tags: ['a', 'b'],
+    memo: 'old',
+  };
+
+  const current = {
+    name: 'Kim',
+    address: { city: '부산', zip: '06236' },
+    items: [
+      { id: 1, qty: 1 },
+      { id: 2, qty: 2 },
+      { id: 3, qty: 7 },
+    ],
+    tags: ['a'],
+    agreed: true,
+  };
+
+  describe('diffValues', () => {
+    it('should report nested changes with paths', () => {
+      expect(diffValues(original, current)).toEqual([
+        { path: 'memo', type: 'removed', from: 'old', to: undefined },
+        { path: 'address.city', type: 'changed', from: '서울', to: '부산' },
+        { path: 'items[2].qty', type: 'changed', from: 5, to: 7 },
+        { path: 'tags[1]', type: 'removed', from: 'b', to: undefined },
+        { path: 'agreed', type: 'added', from: undefined, to: true },
+      ]);
+    });
+
+    it('should return no changes for deeply equal values', () => {
+      expect(diffValues({ a: [{ b: 1 }], d: new Date(0) }, { a: [{ b: 1 }], d: new Date(0) })).toEqual([]);
+    });
+
+    it('should compare dates by time', () => {
+      expect(diffValues({ d: new Date(0) }, { d: new Date(1000) })).toHaveLength(1);
+    });
+
+    it('should treat a type change as a single change', () => {
+      expect(diffValues({ a: { b: 1 } }, { a: [1] })).toEqual([
+        { path: 'a', type: 'changed', from: { b: 1 }, to: [1] },
+      ]);
+    });
+  });
+
+  describe('createPatch', () => {
+    it('should create JSON Patch operations', () => {
+      expect(createPatch(original, current)).toEqual([
+        { op: 'remove', path: '/memo' },
+        { op: 'replace', path: '/address/city', value: '부산' },
+        { op: 'replace', path: '/items/2/qty', value: 7 },
+        { op: 'remove', path: '/tags/1' },
+        { op: 'add', path: '/agreed', value: true },
+      ]);
+    });
+
+    it('should escape JSON Pointer characters', () => {
+      expect(createPatch({ 'a/b': 1, 'c~d': 1 }, { 'a/b': 2, 'c~d': 2 })).toEqual([
+        { op: 'replace', path: '/a~1b', value: 2 },
+        { op: 'replace', path: '/c~0d', value: 2 },
+      ]);
+    });
+
+    it('should round-trip with applyPatch', () => {
+      expect(applyPatch(original, createPatch(original, current))).toEqual(current);
+
+      const shrink = { list: [1, 2, 3, 4] };
+      expect(applyPatch(shrink, createPatch(shrink, { list: [1] }))).toEqual({ list: [1] });
+    });
+  });
+
+  describe('applyPatch', () => {
+    it('should apply operations without mutating the original', () => {
+      const doc = { name: 'Kim', tags: ['a'], nested: { value: 1 } };
+      const result = applyPatch(doc, [
+        { op: 'replace', path: '/name', value: 'Lee' },
+        { op: 'add', path: '/tags/-', value: 'b' },
+        { op: 'add', path: '/tags/0', value: 'z' },
+        { op: 'remove', path: '/nested/value' },
+      ]);
+
+      expect(result).toEqual({ name: 'Lee', tags: ['z', 'a', 'b'], nested: {} });
+      expect(doc).toEqual({ name: 'Kim', tags: ['a'], nested: { value: 1 } });
+    });
+
+    it('should support move, copy and test', () => {
+      const result = applyPatch({ a: 1, b: { c: 2 } }, [
+        { op: 'test', path: '/a', value: 1 },
+        { op: 'copy', from: '/b/c', path: '/d' },
+        { op: 'move', from: '/a', path: '/b/a' },
+      ]);
+      expect(result).toEqual({ b: { c: 2, a: 1 }, d: 2 });
+    });
+
+    it('should throw when an operation fails', () => {
+      const doc = { a: 1, list: [1] };
+      const failing: JsonPatchOperation[][] = [
+        [{ op: 'test', path: '/a', value: 2 }],
+        [{ op: 'remove', path: '/missing' }],
+        [{ op: 'replace', path: '/missing/deep', value: 1 }],
+        [{ op: 'add', path: '/list/5', value: 1 }],
+        [{ op: 'add', path: 'a', value: 1 }],
+      ];
+
+      failing.forEach((operations) => {
+        expect(() => applyPatch(doc, operations)).toThrow();
+      });
+    });
+
+    it('should not follow inherited properties', () => {
+      expect(() => applyPatch({ a: 1 }, [{ op: 'remove', path: '/toString' }])).toThrow('Path not found');
+      expect(() => applyPatch({ list: [1] }, [{ op: 'remove', path: '/list/length' }])).toThrow();
+      expect(diffValues({ toString: 1 }, {})).toEqual([{ path: 'toString', type: 'removed', from: 1, to: undefined }]);
+    });
+
+    it('should reject prototype pollution paths', () => {
+      const doc = { a: 1 };
+      expect(() => applyPatch(doc, [{ op: 'add', path: '/__proto__/x', value: 1 }])).toThrow('Invalid JSON Pointer');
+      expect(() => applyPatch(doc, [{ op: 'add', path: '/constructor/prototype/x', value: 1 }])).toThrow();
+      expect(Object.getPrototypeOf(doc)).toBe(Object.prototype);
+      expect(({} as any).x).toBeUndefined();
+    });
+
+    it('should replace the whole document', () => {
+      expect(applyPatch({ a: 1 }, [{ op: 'replace', path: '', value: { b: 2 } }])).toEqual({ b: 2 });
+    });
+  });
+});
@@ -44,6 +44,13 @@ describe('Form Formatters', () => {
       expect(formatCreditCard('1234567890123456')).toBe('1234-5678-9012-3456');
       expect(formatCreditCard('1234')).toBe('1234');
     });
+
+    it('should use brand-aware grouping', () => {
+      expect(formatCreditCard('378282246310005')).toBe('3782-822463-10005');
+      expect(formatCreditCard('3782822')).toBe('3782-822');
+      expect(formatCreditCard('30569309025904')).toBe('3056-930902-5904');
+      expect(formatCreditCard('4111111111111111')).toBe('4111-1111-1111-1111');
+    });
   });
 
   describe('extractNumbers', () => {
@@ -27,6 +27,20 @@ describe('Form State Helpers', () => {
       const current = { name: 'John' };
       expect(getChangedFields(original, current)).toEqual({});
     });
+
+    it('should include only changed nested fields', () => {
+      const original = { name: 'Kim', address: { city: '서울', zip: '06236' }, tags: ['a'] };
+      const current = { name: 'Kim', address: { city: '부산', zip: '06236' }, tags: ['a'] };
+
+      expect(getChangedFields(original, current)).toEqual({ address: { city: '부산' } });
+    });
+
+    it('should include whole arrays and dates when their contents change', () => {
+      const original = { tags: ['a', 'b'], birth: new Date(2000, 0, 1), items: [{ qty: 1 }] };
+      const current = { tags: ['a', 'b'], birth: new Date(2000, 0, 2), items: [{ qty: 2 }] };
+
+      expect(getChangedFields(original, current)).toEqual({ birth: new Date(2000, 0, 2), items: [{ qty: 2 }] });
+    });
   });
 
   describe('removeEmptyValues', () => {
@@ -49,5 +63,56 @@ describe('Form State Helpers', () => {
       const input = { count: 0, active: false };
       expect(removeEmptyValues(input)).toEqual({ count: 0, active: false });
     });
+
+    it('should only clean the top level by default', () => {
+      const input = { address: { detail: null }, tags: ['', 'a'], memo: '' };
+      expect(removeEmptyValues(input)).toEqual({ address: { detail: null }, tags: ['', 'a'] });
+    });
+
+    it('should clean nested objects and arrays when deep is true', () => {
+      const birth = new Date(2000, 0, 1);
+      const input = {
+        name: 'Kim',
+        address: { city: '서울', detail: null, zip: '' },
+        tags: ['a', '', null, 'b'],
+        items: [{ qty: 1, memo: undefined }],
+        birth,
+      };
+
+      expect(removeEmptyValues(input, { deep: true })).toEqual({
+        name: 'Kim',
+        address: { city: '서울' },
+        tags: ['a', 'b'],
+        items: [{ qty: 1 }],
+        birth,
+      });
+    });
+
+    it('should remove empty arrays and objects when configured', () => {
+      const input = { address: { detail: null }, tags: [''], nested: { deep: { value: '' } }, keep: [0] };
+
+      expect(removeEmptyValues(input, { deep: true })).toEqual({ address: {}, tags: [], nested: { deep: {} }, keep: [0] });
+      expect(removeEmptyValues(input, { deep: true, emptyArrays: true, emptyObjects: true })).toEqual({ keep: [0] });
+      expect(removeEmptyValues({ empty: {}, list: [] }, { emptyArrays: true, emptyObjects: true })).toEqual({});
+    });
+
+    it('should handle whitespace, NaN and trimming', () => {
+      const input = { blank: '   ', name: '  Kim  ', count: NaN };
+
+      expect(removeEmptyValues(input)).toEqual(input);
+      expect(removeEmptyValues(input, { whitespace: true, nan: true })).toEqual({ name: '  Kim  ' });
+      expect(removeEmptyValues(input, { trim: true })).toEqual({ name: 'Kim', count: NaN });
+    });
+
+    it('should type the result as a deep partial', () => {
+      const cleaned = removeEmptyValues({ address: { city: '서울', zip: '' } }, { deep: true });
+      const zip: string | undefined = cleaned.address?.zip;
+      expect(zip).toBeUndefined();
+    });
+
+    it('should keep non-plain objects as they are', () => {
+      const file = new Blob(['a']);
+      expect(removeEmptyValues({ file }).file).toBe(file);
+    });
   });
 });
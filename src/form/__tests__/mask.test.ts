@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { applyMask, maskInput, maskPatterns } from '../mask';
+
+describe('Input Mask', () => {
+  describe('applyMask', () => {
+    it('should format values with a pattern', () => {
+      expect(applyMask('01012345678', '000-0000-0000')).toBe('010-1234-5678');
+      expect(applyMask('010-1234-5678', '000-0000-0000')).toBe('010-1234-5678');
+      expect(applyMask('0101', '000-0000-0000')).toBe('010-1');
+      expect(applyMask('010', '000-0000-0000')).toBe('010');
+    });
+
+    it('should drop characters that do not fit the pattern', () => {
+      expect(applyMask('01a0b1234', '000-0000')).toBe('010-1234');
+      expect(applyMask('0101234999', '000-0000')).toBe('010-1234');
+    });
+
+    it('should support letter and alphanumeric tokens', () => {
+      expect(applyMask('ab12cd', 'AA-00-AA')).toBe('ab-12-cd');
+      expect(applyMask('a1b2', '**-**')).toBe('a1-b2');
+    });
+
+    it('should support presets', () => {
+      expect(applyMask('1234567890', maskPatterns.businessNumber)).toBe('123-45-67890');
+      expect(applyMask('9001011234568', maskPatterns.residentNumber)).toBe('900101-1234568');
+      expect(applyMask('0212345678', maskPatterns.phoneNumber)).toBe('02-1234-5678');
+      expect(applyMask('021234567', maskPatterns.phoneNumber)).toBe('02-123-4567');
+      expect(applyMask('0311234567', maskPatterns.phoneNumber)).toBe('031-123-4567');
+      expect(applyMask('01012345678', maskPatterns.phoneNumber)).toBe('010-1234-5678');
+      expect(applyMask('378282246310005', maskPatterns.creditCard)).toBe('3782-822463-10005');
+      expect(applyMask('4111111111111111', maskPatterns.creditCard)).toBe('4111-1111-1111-1111');
+      expect(applyMask('1229', maskPatterns.cardExpiry)).toBe('12/29');
+    });
+  });
+
+  describe('maskInput', () => {
+    const pattern = '000-0000-0000';
+
+    it('should keep the caret after typed characters at the end', () => {
+      expect(maskInput({ previousValue: '010', value: '0101', selectionStart: 4 }, pattern)).toEqual({
+        value: '010-1',
+        rawValue: '0101',
+        caret: 5,
+      });
+    });
+
+    it('should keep the caret in place when typing in the middle', () => {
+      expect(maskInput({ previousValue: '010-1234', value: '010-91234', selectionStart: 5 }, pattern)).toEqual({
+        value: '010-9123-4',
+        rawValue: '01091234',
+        caret: 5,
+      });
+    });
+
+    it('should move the caret past a separator after deleting the last character of a group', () => {
+      expect(maskInput({ previousValue: '010-1234', value: '010-234', selectionStart: 4 }, pattern)).toEqual({
+        value: '010-234',
+        rawValue: '010234',
+        caret: 4,
+      });
+    });
+
+    it('should keep the caret in place when deleting in the middle', () => {
+      expect(maskInput({ previousValue: '010-1234-5678', value: '010-134-5678', selectionStart: 5 }, pattern)).toEqual({
+        value: '010-1345-678',
+        rawValue: '0101345678',
+        caret: 5,
+      });
+    });
+
+    it('should delete the preceding character when only a separator was removed', () => {
+      expect(maskInput({ previousValue: '010-1234', value: '0101234', selectionStart: 3 }, pattern)).toEqual({
+        value: '011-234',
+        rawValue: '011234',
+        caret: 2,
+      });
+    });
+
+    it('should delete the following character when a separator was removed with Delete', () => {
+      expect(
+        maskInput(
+          { previousValue: '010-1234', value: '0101234', selectionStart: 3, inputType: 'deleteContentForward' },
+          pattern
+        )
+      ).toEqual({
+        value: '010-234',
+        rawValue: '010234',
+        caret: 4,
+      });
+    });
+
+    it('should not move the caret for rejected characters', () => {
+      expect(maskInput({ previousValue: '010-1', value: '010-a1', selectionStart: 5 }, pattern)).toEqual({
+        value: '010-1',
+        rawValue: '0101',
+        caret: 4,
+      });
+    });
+
+    it('should default the caret to the end', () => {
+      expect(maskInput({ value: '01012345678' }, pattern).caret).toBe(13);
+    });
+
+    it('should handle pasted values', () => {
+      expect(maskInput({ previousValue: '', value: '010 1234 5678', selectionStart: 13 }, pattern)).toEqual({
+        value: '010-1234-5678',
+        rawValue: '01012345678',
+        caret: 13,
+      });
+    });
+
+    it('should work with dynamic patterns', () => {
+      expect(maskInput({ value: '3782822463' }, maskPatterns.creditCard).value).toBe('3782-822463');
+    });
+  });
+});
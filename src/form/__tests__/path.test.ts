@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getByPath, setByPath } from '../path';
+
+describe('Nested Path Utilities', () => {
+  const values = { name: 'Kim', address: { city: '서울' }, items: [{ qty: 1 }, { qty: 2 }], empty: null };
+
+  describe('getByPath', () => {
+    it('should read nested values with dots and brackets', () => {
+      expect(getByPath(values, 'address.city')).toBe('서울');
+      expect(getByPath(values, 'items[1].qty')).toBe(2);
+      expect(getByPath(values, 'items.0.qty')).toBe(1);
+    });
+
+    it('should return the default value for missing paths', () => {
+      expect(getByPath(values, 'address.zip')).toBeUndefined();
+      expect(getByPath(values, 'empty.value', '-')).toBe('-');
+      expect(getByPath(values, 'items[5].qty', 0)).toBe(0);
+    });
+  });
+
+  describe('setByPath', () => {
+    it('should set nested values without mutating the original', () => {
+      const result = setByPath(values, 'address.city', '부산');
+
+      expect(result.address.city).toBe('부산');
+      expect(values.address.city).toBe('서울');
+      expect(result.items).toBe(values.items);
+    });
+
+    it('should create missing objects and arrays', () => {
+      expect(setByPath({}, 'address.city', '서울')).toEqual({ address: { city: '서울' } });
+      expect(setByPath({} as Record<string, any>, 'items[1].qty', 3).items).toEqual([undefined, { qty: 3 }]);
+    });
+
+    it('should update array items', () => {
+      const result = setByPath(values, 'items[0].qty', 10);
+      expect(result.items).toEqual([{ qty: 10 }, { qty: 2 }]);
+      expect(values.items[0].qty).toBe(1);
+    });
+
+    it('should ignore unsafe paths', () => {
+      const result = setByPath({}, '__proto__.polluted', true);
+      expect(result).toEqual({});
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseResidentNumber,
+  isResidentNumber,
+  calculateResidentNumberCheckDigit,
+  getResidentGenderDigit,
+  getResidentAge,
+} from '../resident';
+import { formatDate } from '../../date';
+
+describe('Resident Registration Number', () => {
+  describe('calculateResidentNumberCheckDigit', () => {
+    it('should calculate the check digit', () => {
+      expect(calculateResidentNumberCheckDigit('900101123456')).toBe(8);
+      expect(calculateResidentNumberCheckDigit('900101-123456')).toBe(8);
+    });
+
+    it('should use the foreigner rule for foreigner numbers', () => {
+      // 합 % 11 = 2 → 내국인 규칙이면 9, 외국인 규칙 (13 - 2) % 10 = 1
+      expect(calculateResidentNumberCheckDigit('900101523456')).toBe(1);
+    });
+  });
+
+  describe('parseResidentNumber', () => {
+    it('should parse a valid resident number', () => {
+      const result = parseResidentNumber('900101-1234568');
+      expect(result.valid).toBe(true);
+      expect(result.century).toBe(1900);
+      expect(result.gender).toBe('male');
+      expect(result.foreigner).toBe(false);
+      expect(result.checksumVerified).toBe(true);
+      expect(formatDate(result.birthDate!, 'YYYY-MM-DD')).toBe('1990-01-01');
+    });
+
+    it('should derive century and gender from the 7th digit', () => {
+      const female2000 = parseResidentNumber(`050505-412345${calculateResidentNumberCheckDigit('050505412345')}`);
+      expect(female2000).toMatchObject({ valid: true, century: 2000, gender: 'female', foreigner: false });
+
+      const female1800 = parseResidentNumber(`990101-012345${calculateResidentNumberCheckDigit('990101012345')}`);
+      expect(female1800).toMatchObject({ valid: true, century: 1800, gender: 'female' });
+    });
+
+    it('should parse foreigner registration numbers', () => {
+      expect(parseResidentNumber('900101-5234561')).toMatchObject({
+        valid: true,
+        gender: 'male',
+        foreigner: true,
+      });
+    });
+
+    it('should report the failure reason', () => {
+      expect(parseResidentNumber('900101-123')).toEqual({ valid: false, reason: 'length' });
+      expect(parseResidentNumber('900230-1234568')).toMatchObject({ valid: false, reason: 'birthDate' });
+      expect(parseResidentNumber('900101-1234567')).toMatchObject({ valid: false, reason: 'checksum' });
+    });
+
+    it('should skip checksum when disabled', () => {
+      expect(parseResidentNumber('900101-1234567', { checksum: false })).toMatchObject({
+        valid: true,
+        checksumVerified: false,
+      });
+    });
+
+    it('should skip checksum for numbers issued after October 2020', () => {
+      expect(parseResidentNumber('210301-3000000')).toMatchObject({
+        valid: true,
+        century: 2000,
+        checksumVerified: false,
+      });
+    });
+  });
+
+  describe('isResidentNumber', () => {
+    it('should validate resident numbers', () => {
+      expect(isResidentNumber('9001011234568')).toBe(true);
+      expect(isResidentNumber('9001011234567')).toBe(false);
+    });
+  });
+
+  describe('getResidentGenderDigit', () => {
+    it('should return the 7th digit', () => {
+      expect(getResidentGenderDigit('male', 1900)).toBe('1');
+      expect(getResidentGenderDigit('female', 2000)).toBe('4');
+      expect(getResidentGenderDigit('female', 2000, true)).toBe('8');
+      expect(getResidentGenderDigit('male', 1800)).toBe('9');
+    });
+
+    it('should throw for unsupported combinations', () => {
+      expect(() => getResidentGenderDigit('male', 1800, true)).toThrow();
+    });
+  });
+
+  describe('getResidentAge', () => {
+    it('should calculate age from the birth date', () => {
+      expect(getResidentAge('900101-1234568', '2024-06-01')).toBe(34);
+      expect(getResidentAge('900101-1234568', '2023-12-31')).toBe(33);
+    });
+
+    it('should return null for invalid numbers', () => {
+      expect(getResidentAge('900101-1234567')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { toFormData, fromFormData, toQueryString, parseQueryString } from '../serialize';
+
+const entriesOf = (formData: FormData) => {
+  const entries: [string, FormDataEntryValue][] = [];
+  formData.forEach((value, key) => entries.push([key, value]));
+  return entries;
+};
+
+describe('Form Serialization', () => {
+  describe('toFormData / fromFormData', () => {
+    const file = new File(['hello'], 'hello.txt', { type: 'text/plain' });
+
+    it('should flatten nested values with bracket conventions', () => {
+      const formData = toFormData({
+        title: '공지',
+        files: [file],
+        author: { name: 'Kim', tags: ['a', 'b'] },
+        published: true,
+        date: new Date('2024-01-01T00:00:00Z'),
+        memo: null,
+        skipped: undefined,
+      });
+
+      expect(entriesOf(formData).map(([key, value]) => [key, typeof value === 'string' ? value : 'FILE'])).toEqual([
+        ['title', '공지'],
+        ['files[]', 'FILE'],
+        ['author[name]', 'Kim'],
+        ['author[tags][]', 'a'],
+        ['author[tags][]', 'b'],
+        ['published', 'true'],
+        ['date', '2024-01-01T00:00:00.000Z'],
+        ['memo', ''],
+      ]);
+      expect((formData.get('files[]') as File).name).toBe('hello.txt');
+    });
+
+    it('should support indices and dot notation', () => {
+      const formData = toFormData(
+        { items: [{ name: 'A' }, { name: 'B' }], author: { name: 'Kim' } },
+        { arrayFormat: 'indices', objectFormat: 'dots' }
+      );
+
+      expect(entriesOf(formData).map(([key]) => key)).toEqual(['items[0].name', 'items[1].name', 'author.name']);
+    });
+
+    it('should round-trip back to nested values', () => {
+      const values = { title: '공지', items: [{ name: 'A', qty: '1' }], tags: ['a', 'b'], files: [file] };
+
+      const restored = fromFormData(toFormData(values));
+      expect(restored.title).toBe('공지');
+      expect(restored.tags).toEqual(['a', 'b']);
+      expect(restored.items).toEqual([{ name: 'A', qty: '1' }]);
+      expect((restored.files[0] as File).name).toBe('hello.txt');
+
+      const dotted = fromFormData(toFormData(values, { arrayFormat: 'indices', objectFormat: 'dots' }), {
+        arrayFormat: 'indices',
+        objectFormat: 'dots',
+      });
+      expect(dotted.items).toEqual([{ name: 'A', qty: '1' }]);
+    });
+  });
+
+  describe('toQueryString', () => {
+    const values = { q: '검색 어', page: 2, tags: ['a', 'b'], filter: { status: 'open' } };
+
+    it('should use brackets by default', () => {
+      expect(decodeURIComponent(toQueryString(values))).toBe(
+        'q=검색+어&page=2&tags[]=a&tags[]=b&filter[status]=open'
+      );
+    });
+
+    it('should support array formats', () => {
+      expect(decodeURIComponent(toQueryString({ tags: ['a', 'b'] }, { arrayFormat: 'indices' }))).toBe(
+        'tags[0]=a&tags[1]=b'
+      );
+      expect(toQueryString({ tags: ['a', 'b'] }, { arrayFormat: 'repeat' })).toBe('tags=a&tags=b');
+      expect(decodeURIComponent(toQueryString({ tags: ['a', 'b'] }, { arrayFormat: 'comma' }))).toBe('tags=a,b');
+    });
+
+    it('should use indices for arrays of objects', () => {
+      expect(decodeURIComponent(toQueryString({ items: [{ id: 1 }] }, { arrayFormat: 'repeat' }))).toBe(
+        'items[0][id]=1'
+      );
+    });
+
+    it('should skip undefined and empty arrays', () => {
+      expect(toQueryString({ a: undefined, b: [], c: 'x' })).toBe('c=x');
+    });
+  });
+
+  describe('parseQueryString', () => {
+    it('should parse nested keys', () => {
+      expect(parseQueryString('?page=2&tags[]=a&tags[]=b&filter[status]=open&items[0][id]=1&items[1][id]=2')).toEqual({
+        page: '2',
+        tags: ['a', 'b'],
+        filter: { status: 'open' },
+        items: [{ id: '1' }, { id: '2' }],
+      });
+    });
+
+    it('should parse repeated and comma separated values', () => {
+      expect(parseQueryString('tags=a&tags=b&q=x')).toEqual({ tags: ['a', 'b'], q: 'x' });
+      expect(parseQueryString('tags=a%2Cb', { arrayFormat: 'comma', commaKeys: ['tags'] })).toEqual({ tags: ['a', 'b'] });
+      expect(parseQueryString('tags=a', { arrayFormat: 'comma', commaKeys: ['tags'] })).toEqual({ tags: ['a'] });
+      expect(parseQueryString('q=a%2Cb', { arrayFormat: 'comma' })).toEqual({ q: 'a,b' });
+    });
+
+    it('should parse dot notation when configured', () => {
+      expect(parseQueryString('filter.status=open', { objectFormat: 'dots' })).toEqual({ filter: { status: 'open' } });
+      expect(parseQueryString('filter.status=open')).toEqual({ 'filter.status': 'open' });
+    });
+
+    it('should round-trip with toQueryString', () => {
+      const values = { q: '검색', tags: ['a', 'b'], filter: { status: 'open', range: ['1', '2'] } };
+      expect(parseQueryString(toQueryString(values))).toEqual(values);
+    });
+
+    it('should keep commas in scalar values when round-tripping the comma format', () => {
+      const values = { q: '서울, 부산', tags: ['a', 'b'] };
+      const query = toQueryString(values, { arrayFormat: 'comma' });
+      expect(parseQueryString(query, { arrayFormat: 'comma', commaKeys: ['tags'] })).toEqual(values);
+    });
+
+    it('should ignore prototype pollution keys', () => {
+      const result = parseQueryString('__proto__[polluted]=1&constructor[prototype][x]=1&a=1');
+      expect(result).toEqual({ a: '1' });
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should not treat inherited properties as repeated keys', () => {
+      expect(parseQueryString('toString=a&constructor=b&valueOf=c&hasOwnProperty[x]=d')).toEqual({
+        toString: 'a',
+        valueOf: 'c',
+        hasOwnProperty: { x: 'd' },
+      });
+    });
+  });
+});
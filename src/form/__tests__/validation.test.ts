@@ -5,6 +5,9 @@ import {
   isUrl,
   isStrongPassword,
   isBusinessNumber,
+  validateBusinessNumber,
+  calculateBusinessNumberCheckDigit,
+  getBusinessType,
 } from '../validation';
 
 describe('Form Validation', () => {
@@ -71,14 +74,58 @@ describe('Form Validation', () => {
   });
 
   describe('isBusinessNumber', () => {
-    it('should validate 10-digit business numbers', () => {
-      expect(isBusinessNumber('1234567890')).toBe(true);
-      expect(isBusinessNumber('123-45-67890')).toBe(true);
+    it('should validate business numbers with a valid check digit', () => {
+      expect(isBusinessNumber('2208162517')).toBe(true);
+      expect(isBusinessNumber('220-81-62517')).toBe(true);
     });
 
     it('should reject invalid business numbers', () => {
       expect(isBusinessNumber('123456789')).toBe(false);
       expect(isBusinessNumber('12345678901')).toBe(false);
+      expect(isBusinessNumber('1234567890')).toBe(false);
+    });
+  });
+
+  describe('validateBusinessNumber', () => {
+    it('should return business type for valid numbers', () => {
+      expect(validateBusinessNumber('220-81-62517')).toEqual({
+        valid: true,
+        typeCode: '81',
+        businessType: 'corporation',
+      });
+    });
+
+    it('should report the failure reason', () => {
+      expect(validateBusinessNumber('12345')).toEqual({ valid: false, reason: 'length' });
+      expect(validateBusinessNumber('123-00-45678')).toEqual({ valid: false, reason: 'typeCode', typeCode: '00' });
+      expect(validateBusinessNumber('123-45-67890')).toEqual({
+        valid: false,
+        reason: 'checksum',
+        typeCode: '45',
+        businessType: 'individual',
+      });
+    });
+  });
+
+  describe('calculateBusinessNumberCheckDigit', () => {
+    it('should calculate the NTS check digit', () => {
+      expect(calculateBusinessNumberCheckDigit('220816251')).toBe(7);
+      expect(calculateBusinessNumberCheckDigit('220-81-6251')).toBe(7);
+    });
+  });
+
+  describe('getBusinessType', () => {
+    it('should map type codes to business types', () => {
+      expect(getBusinessType('01')).toBe('individual');
+      expect(getBusinessType('80')).toBe('individualTaxFree');
+      expect(getBusinessType('95')).toBe('individualTaxFree');
+      expect(getBusinessType('82')).toBe('nonProfit');
+      expect(getBusinessType('83')).toBe('government');
+      expect(getBusinessType('84')).toBe('foreignCorporation');
+      expect(getBusinessType('85')).toBe('corporationBranch');
+      expect(getBusinessType('86')).toBe('corporation');
+      expect(getBusinessType('89')).toBe('religious');
+      expect(getBusinessType('00')).toBeNull();
     });
   });
 });
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { createValidator, rules } from '../validator';
+import { hasFormErrors } from '../helpers';
+
+describe('Form Validator', () => {
+  describe('createValidator', () => {
+    it('should return an empty error map for valid values', async () => {
+      const validator = createValidator({
+        email: [rules.required(), rules.email()],
+        name: [rules.required(), rules.minLength(2)],
+      });
+
+      const errors = await validator.validate({ email: 'test@example.com', name: '홍길동' });
+      expect(errors).toEqual({});
+      expect(hasFormErrors(errors)).toBe(false);
+    });
+
+    it('should report the first failing rule per field', async () => {
+      const validator = createValidator({
+        email: [rules.required(), rules.email()],
+        password: [rules.required(), rules.minLength(8)],
+      });
+
+      const errors = await validator.validate({ email: 'invalid', password: '' });
+      expect(errors).toEqual({
+        email: { type: 'email', message: '올바른 이메일 형식이 아닙니다' },
+        password: { type: 'required', message: '필수 입력 항목입니다' },
+      });
+      expect(hasFormErrors(errors)).toBe(true);
+    });
+
+    it('should interpolate rule params into messages', async () => {
+      const validator = createValidator({ name: [rules.minLength(3)] });
+      expect(await validator.validate({ name: 'ab' })).toEqual({
+        name: { type: 'minLength', message: '3자 이상 입력해주세요' },
+      });
+    });
+
+    it('should use the configured locale', async () => {
+      const validator = createValidator({ name: [rules.maxLength(2)] }, { locale: 'en' });
+      expect(await validator.validate({ name: 'abc' })).toEqual({
+        name: { type: 'maxLength', message: 'Must be at most 2 characters' },
+      });
+    });
+
+    it('should prefer rule messages over overrides and defaults', async () => {
+      const validator = createValidator(
+        {
+          a: [rules.required()],
+          b: [rules.required('b는 필수입니다')],
+          c: [rules.min(10, ({ min }) => `min ${min}`)],
+        },
+        { messages: { required: '입력해주세요' } }
+      );
+
+      expect(await validator.validate({ c: 5 })).toEqual({
+        a: { type: 'required', message: '입력해주세요' },
+        b: { type: 'required', message: 'b는 필수입니다' },
+        c: { type: 'min', message: 'min 10' },
+      });
+    });
+
+    it('should skip non-required rules for empty values', async () => {
+      const validator = createValidator({
+        phone: [rules.phoneNumber()],
+        homepage: [rules.url()],
+      });
+      expect(await validator.validate({ phone: '', homepage: undefined })).toEqual({});
+    });
+
+    it('should support pattern and existing predicates', async () => {
+      const validator = createValidator({
+        code: [rules.pattern(/^[A-Z]{3}$/)],
+        password: [rules.strongPassword({ requireSpecialChars: false })],
+      });
+
+      const errors = await validator.validate({ code: 'ab1', password: 'Password1' });
+      expect(errors).toEqual({
+        code: { type: 'pattern', message: '형식이 올바르지 않습니다' },
+      });
+    });
+
+    it('should support async custom rules with access to all values', async () => {
+      const taken = ['admin'];
+      const validator = createValidator({
+        nickname: [
+          rules.custom(async (value) => !taken.includes(value), '이미 사용 중인 닉네임입니다', 'unique'),
+        ],
+        passwordConfirm: [rules.custom((value, values) => value === values.password)],
+      });
+
+      const errors = await validator.validate({ nickname: 'admin', password: 'a', passwordConfirm: 'b' });
+      expect(errors).toEqual({
+        nickname: { type: 'unique', message: '이미 사용 중인 닉네임입니다' },
+        passwordConfirm: { type: 'custom', message: '올바르지 않은 값입니다' },
+      });
+    });
+
+    it('should nest errors for path fields', async () => {
+      const validator = createValidator({
+        'address.city': [rules.required()],
+        'address.zip': [rules.pattern(/^\d{5}$/)],
+        'items[1].qty': [rules.min(1)],
+        name: [rules.required()],
+      });
+
+      expect(await validator.validate({ name: 'Kim', address: { city: '서울', zip: '06236' }, items: [] })).toEqual({});
+      expect(await validator.validate({ address: { zip: '1' }, items: [{ qty: 1 }, { qty: 0 }] })).toEqual({
+        address: {
+          city: { type: 'required', message: '필수 입력 항목입니다' },
+          zip: { type: 'pattern', message: '형식이 올바르지 않습니다' },
+        },
+        items: [undefined, { qty: { type: 'min', message: '1 이상이어야 합니다' } }],
+        name: { type: 'required', message: '필수 입력 항목입니다' },
+      });
+    });
+  });
+
+  describe('validateField', () => {
+    it('should validate a single field', async () => {
+      const validator = createValidator({ email: [rules.email()] });
+      expect(await validator.validateField('email', { email: 'bad' })).toEqual({
+        type: 'email',
+        message: '올바른 이메일 형식이 아닙니다',
+      });
+      expect(await validator.validateField('email', { email: 'a@b.co' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Credit Card Utilities
+ *
+ * 카드번호 Luhn 검증, 브랜드/발급사 판별, 유효기간 및 CVC 검증
+ */
+
+/**
+ * 카드 브랜드
+ * 'bc'는 BC카드 국내전용 BIN, 'domestic'은 그 밖의 9로 시작하는 국내전용 카드입니다.
+ */
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'jcb' | 'diners' | 'discover' | 'unionpay' | 'bc' | 'domestic';
+
+/**
+ * 카드 브랜드 정보
+ */
+export interface CardBrandInfo {
+  brand: CardBrand;
+  /** 표시 이름 */
+  name: string;
+  /** BIN 패턴 (숫자는 접두사, [시작, 끝]은 같은 자릿수의 접두사 범위) */
+  patterns: (number | [number, number])[];
+  /** 허용 자릿수 */
+  lengths: number[];
+  /** 그룹 구분 위치 (예: Amex [4, 10] → 4-6-5) */
+  gaps: number[];
+  /** CVC 자릿수 */
+  cvcLength: number;
+}
+
+/**
+ * 카드번호 검증 결과
+ */
+export interface CreditCardResult {
+  /** 유효 여부 */
+  valid: boolean;
+  /** 실패 사유 (유효하면 undefined) */
+  reason?: 'length' | 'luhn';
+  /** 카드 브랜드 (판별 불가 시 null) */
+  brand: CardBrand | null;
+  /** 등록된 발급사 (registerCardIssuer로 등록한 BIN 기준, 없으면 null) */
+  issuer: string | null;
+}
+
+const DEFAULT_GAPS = [4, 8, 12];
+
+const cardBrands: CardBrandInfo[] = [
+  { brand: 'amex', name: 'American Express', patterns: [34, 37], lengths: [15], gaps: [4, 10], cvcLength: 4 },
+  { brand: 'diners', name: 'Diners Club', patterns: [[300, 305], 36], lengths: [14], gaps: [4, 10], cvcLength: 3 },
+  { brand: 'jcb', name: 'JCB', patterns: [[3528, 3589]], lengths: [16, 17, 18, 19], gaps: DEFAULT_GAPS, cvcLength: 3 },
+  { brand: 'visa', name: 'Visa', patterns: [4], lengths: [13, 16, 19], gaps: DEFAULT_GAPS, cvcLength: 3 },
+  {
+    brand: 'mastercard',
+    name: 'Mastercard',
+    patterns: [[51, 55], [2221, 2720]],
+    lengths: [16],
+    gaps: DEFAULT_GAPS,
+    cvcLength: 3,
+  },
+  {
+    brand: 'discover',
+    name: 'Discover',
+    patterns: [6011, [644, 649], 65],
+    lengths: [16, 19],
+    gaps: DEFAULT_GAPS,
+    cvcLength: 3,
+  },
+  { brand: 'unionpay', name: 'UnionPay', patterns: [62], lengths: [16, 17, 18, 19], gaps: DEFAULT_GAPS, cvcLength: 3 },
+  { brand: 'bc', name: 'BC카드', patterns: [943], lengths: [16], gaps: DEFAULT_GAPS, cvcLength: 3 },
+  { brand: 'domestic', name: '국내전용', patterns: [9], lengths: [16], gaps: DEFAULT_GAPS, cvcLength: 3 },
+];
+
+/**
+ * 등록된 발급사 BIN 접두사 → 발급사 이름
+ */
+const cardIssuerBins: { prefix: string; issuer: string }[] = [];
+
+function matchesPattern(cleaned: string, pattern: number | [number, number]): boolean {
+  if (typeof pattern === 'number') {
+    return cleaned.startsWith(String(pattern));
+  }
+
+  const [start, end] = pattern;
+  const prefix = Number(cleaned.slice(0, String(start).length));
+  return cleaned.length >= String(start).length && prefix >= start && prefix <= end;
+}
+
+/**
+ * 카드 브랜드 정보 조회
+ * @example getCardBrandInfo('amex').gaps // [4, 10]
+ */
+export function getCardBrandInfo(brand: CardBrand): CardBrandInfo {
+  return cardBrands.find((info) => info.brand === brand)!;
+}
+
+/**
+ * BIN(앞자리)으로 카드 브랜드 판별
+ * 입력 중인 번호도 앞자리만으로 판별합니다.
+ *
+ * @example
+ * detectCardBrand('4111 1111 1111 1111') // 'visa'
+ * detectCardBrand('3782') // 'amex'
+ * detectCardBrand('9430-1234-5678-9012') // 'bc'
+ * detectCardBrand('9410-1234-5678-9012') // 'domestic'
+ */
+export function detectCardBrand(value: string): CardBrand | null {
+  const cleaned = value.replace(/[^0-9]/g, '');
+  if (!cleaned) return null;
+
+  const info = cardBrands.find(({ patterns }) => patterns.some((pattern) => matchesPattern(cleaned, pattern)));
+  return info ? info.brand : null;
+}
+
+/**
+ * 발급사 BIN 등록
+ * 카드사별 BIN은 자주 바뀌고 공개된 공식 목록이 없으므로 기본 BIN을 내장하지 않고 서비스에서 직접 등록합니다.
+ * 긴 접두사가 우선합니다.
+ *
+ * @example
+ * registerCardIssuer('A카드', ['941012', '9420'])
+ * detectCardIssuer('9420-1234-5678-9012') // 'A카드'
+ */
+export function registerCardIssuer(issuer: string, prefixes: string[]): void {
+  prefixes.forEach((prefix) => {
+    cardIssuerBins.push({ prefix: prefix.replace(/[^0-9]/g, ''), issuer });
+  });
+  cardIssuerBins.sort((a, b) => b.prefix.length - a.prefix.length);
+}
+
+/**
+ * 등록한 발급사 BIN 초기화
+ */
+export function clearCardIssuers(): void {
+  cardIssuerBins.length = 0;
+}
+
+/**
+ * 등록한 BIN으로 발급사 판별
+ * @returns 발급사 이름 (등록되지 않은 BIN은 null)
+ *
+ * @example
+ * registerCardIssuer('A카드', ['9420'])
+ * detectCardIssuer('9420-1234-5678-9012') // 'A카드'
+ */
+export function detectCardIssuer(value: string): string | null {
+  const cleaned = value.replace(/[^0-9]/g, '');
+  if (!cleaned) return null;
+
+  const match = cardIssuerBins.find(({ prefix }) => cleaned.startsWith(prefix));
+  return match ? match.issuer : null;
+}
+
+/**
+ * Luhn 알고리즘 검증
+ * @example isLuhnValid('4111111111111111') // true
+ */
+export function isLuhnValid(value: string): boolean {
+  const cleaned = value.replace(/[^0-9]/g, '');
+  if (!cleaned) return false;
+
+  return calculateLuhnCheckDigit(cleaned.slice(0, -1)) === Number(cleaned[cleaned.length - 1]);
+}
+
+/**
+ * Luhn 검증번호 계산
+ * @param value - 검증번호를 제외한 카드번호
+ * @returns 마지막 자리에 올 검증번호 (0~9)
+ *
+ * @example
+ * calculateLuhnCheckDigit('411111111111111') // 1
+ */
+export function calculateLuhnCheckDigit(value: string): number {
+  const digits = value.replace(/[^0-9]/g, '');
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    // 검증번호 바로 앞자리부터 한 자리씩 건너 두 배
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * 카드번호 검증 (브랜드별 자릿수 + Luhn)
+ * 브랜드를 판별할 수 없으면 12~19자리만 확인합니다.
+ *
+ * @example
+ * validateCreditCard('4111-1111-1111-1111') // { valid: true, brand: 'visa', issuer: null }
+ * validateCreditCard('4111-1111-1111-1112') // { valid: false, reason: 'luhn', brand: 'visa', issuer: null }
+ */
+export function validateCreditCard(value: string): CreditCardResult {
+  const cleaned = value.replace(/[^0-9]/g, '');
+  const brand = detectCardBrand(cleaned);
+  const issuer = detectCardIssuer(cleaned);
+  const lengthValid = brand
+    ? getCardBrandInfo(brand).lengths.includes(cleaned.length)
+    : cleaned.length >= 12 && cleaned.length <= 19;
+
+  if (!lengthValid) {
+    return { valid: false, reason: 'length', brand, issuer };
+  }
+
+  if (!isLuhnValid(cleaned)) {
+    return { valid: false, reason: 'luhn', brand, issuer };
+  }
+
+  return { valid: true, brand, issuer };
+}
+
+/**
+ * 카드번호가 유효한지 확인
+ * @example isCreditCard('4111 1111 1111 1111') // true
+ */
+export function isCreditCard(value: string): boolean {
+  return validateCreditCard(value).valid;
+}
+
+/**
+ * 카드 유효기간 검증 (해당 월 말일까지 유효)
+ * @param value - 'MM/YY', 'MM/YYYY', 'MMYY' 형식
+ * @param baseDate - 기준일 (기본값: 오늘)
+ *
+ * @example
+ * validateCardExpiry('12/29') // true
+ * validateCardExpiry('13/29') // false
+ */
+export function validateCardExpiry(value: string, baseDate: Date = new Date()): boolean {
+  const match = value.replace(/\s/g, '').match(/^(\d{2})\/?(\d{2}|\d{4})$/);
+  if (!match) return false;
+
+  const month = Number(match[1]);
+  const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+  if (month < 1 || month > 12) return false;
+
+  // 유효기간 다음 달 1일 0시 이전이면 유효
+  return baseDate < new Date(year, month, 1);
+}
+
+/**
+ * CVC 검증
+ * @param value - CVC
+ * @param brand - 카드 브랜드 (지정 시 브랜드별 자릿수 확인, 없으면 3~4자리)
+ *
+ * @example
+ * validateCardCvc('123', 'visa') // true
+ * validateCardCvc('123', 'amex') // false
+ */
+export function validateCardCvc(value: string, brand?: CardBrand | null): boolean {
+  if (!/^[0-9]+$/.test(value)) return false;
+  if (brand) return value.length === getCardBrandInfo(brand).cvcLength;
+  return value.length === 3 || value.length === 4;
+}
@@ -0,0 +1,245 @@
+/**
+ * Form Value Diff & JSON Patch Utilities
+ *
+ * 중첩된 폼 값의 변경 내역(경로별 이전/이후 값) 계산, JSON Patch(RFC 6902) 생성과 적용
+ */
+
+import { isPlainObject } from '../object/transform';
+import { deepEqual } from '../object/equal';
+
+/**
+ * 필드 변경 내역
+ */
+export interface FieldChange {
+  /** 변경된 경로 (예: 'address.city', 'items[2].qty') */
+  path: string;
+  /** 변경 유형 */
+  type: 'added' | 'removed' | 'changed';
+  /** 이전 값 (added면 undefined) */
+  from: unknown;
+  /** 이후 값 (removed면 undefined) */
+  to: unknown;
+}
+
+/**
+ * JSON Patch 연산 (RFC 6902)
+ */
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+type PathSegment = string | number;
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+const hasOwn = (node: object, key: string) => Object.prototype.hasOwnProperty.call(node, key);
+
+const toFieldPath = (segments: PathSegment[]) =>
+  segments.reduce<string>(
+    (path, segment) => (typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment),
+    ''
+  );
+
+const toPointer = (segments: PathSegment[]) =>
+  segments.map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer: ${pointer}`);
+
+  const segments = pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (segments.some((segment) => UNSAFE_KEYS.includes(segment))) throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  return segments;
+}
+
+function collectChanges(from: unknown, to: unknown, segments: PathSegment[], changes: [PathSegment[], FieldChange][]) {
+  if (deepEqual(from, to)) return;
+
+  const push = (path: PathSegment[], change: Omit<FieldChange, 'path'>) =>
+    changes.push([path, { path: toFieldPath(path), ...change }]);
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const common = Math.min(from.length, to.length);
+    for (let i = 0; i < common; i++) {
+      collectChanges(from[i], to[i], [...segments, i], changes);
+    }
+    for (let i = common; i < to.length; i++) {
+      push([...segments, i], { type: 'added', from: undefined, to: to[i] });
+    }
+    // 뒤에서부터 제거해야 JSON Patch의 인덱스가 어긋나지 않음
+    for (let i = from.length - 1; i >= common; i--) {
+      push([...segments, i], { type: 'removed', from: from[i], to: undefined });
+    }
+    return;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    Object.keys(from).forEach((key) => {
+      if (!hasOwn(to, key)) push([...segments, key], { type: 'removed', from: from[key], to: undefined });
+    });
+    Object.keys(to).forEach((key) => {
+      if (hasOwn(from, key)) {
+        collectChanges(from[key], to[key], [...segments, key], changes);
+      } else {
+        push([...segments, key], { type: 'added', from: undefined, to: to[key] });
+      }
+    });
+    return;
+  }
+
+  push(segments, { type: 'changed', from, to });
+}
+
+/**
+ * 두 값의 변경 내역 (중첩 객체와 배열은 경로별로 비교)
+ * 배열은 같은 인덱스끼리 비교하며, Date는 시각으로 비교합니다.
+ *
+ * @example
+ * diffValues(
+ *   { address: { city: '서울' }, items: [{ qty: 1 }, { qty: 2 }] },
+ *   { address: { city: '부산' }, items: [{ qty: 1 }, { qty: 3 }] }
+ * )
+ * // [
+ * //   { path: 'address.city', type: 'changed', from: '서울', to: '부산' },
+ * //   { path: 'items[1].qty', type: 'changed', from: 2, to: 3 },
+ * // ]
+ */
+export function diffValues(original: unknown, current: unknown): FieldChange[] {
+  const changes: [PathSegment[], FieldChange][] = [];
+  collectChanges(original, current, [], changes);
+  return changes.map(([, change]) => change);
+}
+
+/**
+ * 두 값의 차이를 JSON Patch 연산 목록으로 변환
+ * @example
+ * createPatch({ name: 'Kim', tags: ['a', 'b'] }, { name: 'Lee', tags: ['a'] })
+ * // [{ op: 'replace', path: '/name', value: 'Lee' }, { op: 'remove', path: '/tags/1' }]
+ */
+export function createPatch(original: unknown, current: unknown): JsonPatchOperation[] {
+  const changes: [PathSegment[], FieldChange][] = [];
+  collectChanges(original, current, [], changes);
+
+  return changes.map(([segments, change]): JsonPatchOperation => {
+    const path = toPointer(segments);
+    if (change.type === 'removed') return { op: 'remove', path };
+    return { op: change.type === 'added' ? 'add' : 'replace', path, value: change.to };
+  });
+}
+
+function cloneContainer(value: unknown): any {
+  if (Array.isArray(value)) return [...value];
+  if (isPlainObject(value)) return { ...value };
+  return value;
+}
+
+// 배열은 유효한 인덱스, 객체는 자기 속성만 경로로 인정
+const hasSegment = (node: unknown, segment: string): node is Record<string, any> =>
+  node !== null &&
+  typeof node === 'object' &&
+  (Array.isArray(node) ? /^(0|[1-9]\d*)$/.test(segment) && Number(segment) < node.length : hasOwn(node, segment));
+
+function getAt(document: unknown, segments: string[]): unknown {
+  return segments.reduce<any>((node, segment) => {
+    if (!hasSegment(node, segment)) {
+      throw new Error(`Path not found: ${toPointer(segments)}`);
+    }
+    return node[segment];
+  }, document);
+}
+
+// 경로를 따라 컨테이너를 복사하면서 마지막 부모에 변경 적용 (원본은 그대로 유지)
+function updateAt(document: unknown, segments: string[], update: (parent: any, key: string) => void): unknown {
+  const root = cloneContainer(document);
+  let node = root;
+
+  segments.slice(0, -1).forEach((segment) => {
+    if (!hasSegment(node, segment)) {
+      throw new Error(`Path not found: ${toPointer(segments)}`);
+    }
+    node[segment] = cloneContainer(node[segment]);
+    node = node[segment];
+  });
+
+  if (node === null || typeof node !== 'object') {
+    throw new Error(`Path not found: ${toPointer(segments)}`);
+  }
+  update(node, segments[segments.length - 1]);
+  return root;
+}
+
+function arrayIndex(array: unknown[], key: string, allowEnd: boolean): number {
+  if (allowEnd && key === '-') return array.length;
+  const index = /^(0|[1-9]\d*)$/.test(key) ? Number(key) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Invalid array index: ${key}`);
+  }
+  return index;
+}
+
+function addValue(document: unknown, segments: string[], value: unknown): unknown {
+  if (segments.length === 0) return value;
+  return updateAt(document, segments, (parent, key) => {
+    if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, true), 0, value);
+    else parent[key] = value;
+  });
+}
+
+function removeValue(document: unknown, segments: string[]): unknown {
+  if (segments.length === 0) throw new Error('Cannot remove the document root');
+  getAt(document, segments);
+  return updateAt(document, segments, (parent, key) => {
+    if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, false), 1);
+    else delete parent[key];
+  });
+}
+
+/**
+ * JSON Patch 연산 적용 (원본은 변경하지 않음)
+ * 연산 하나라도 실패하면(경로 없음, test 불일치) 에러를 던집니다.
+ *
+ * @example
+ * applyPatch({ name: 'Kim', tags: ['a'] }, [
+ *   { op: 'replace', path: '/name', value: 'Lee' },
+ *   { op: 'add', path: '/tags/-', value: 'b' },
+ * ])
+ * // { name: 'Lee', tags: ['a', 'b'] }
+ */
+export function applyPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let result: unknown = document;
+
+  operations.forEach((operation) => {
+    const segments = parsePointer(operation.path);
+
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, segments, operation.value);
+        break;
+      case 'remove':
+        result = removeValue(result, segments);
+        break;
+      case 'replace':
+        result = segments.length === 0 ? operation.value : addValue(removeValue(result, segments), segments, operation.value);
+        break;
+      case 'move': {
+        const value = getAt(result, parsePointer(operation.from));
+        result = addValue(removeValue(result, parsePointer(operation.from)), segments, value);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, segments, getAt(result, parsePointer(operation.from)));
+        break;
+      case 'test':
+        if (!deepEqual(getAt(result, segments), operation.value)) {
+          throw new Error(`Test failed: ${operation.path}`);
+        }
+        break;
+    }
+  });
+
+  return result as T;
+}
@@ -2,6 +2,8 @@
  * Form Formatter Utilities
  */
 
+import { detectCardBrand, getCardBrandInfo } from './card';
+
 /**
  * 전화번호 포맷팅 (010-1234-5678)
  */
@@ -38,9 +40,21 @@ export function formatBusinessNumber(value: string): string {
 
 /**
  * 신용카드 번호 포맷팅 (1234-5678-9012-3456)
+ * 브랜드별 그룹을 따릅니다. (Amex 3782-822463-10005)
  */
 export function formatCreditCard(value: string): string {
   const cleaned = value.replace(/[^0-9]/g, '');
+  const brand = detectCardBrand(cleaned);
+
+  if (brand) {
+    const gaps = getCardBrandInfo(brand).gaps.filter((gap) => gap < cleaned.length);
+    const bounds = [0, ...gaps, cleaned.length];
+    return bounds
+      .slice(0, -1)
+      .map((start, i) => cleaned.slice(start, bounds[i + 1]))
+      .join('-');
+  }
+
   const groups = cleaned.match(/.{1,4}/g);
   return groups ? groups.join('-') : cleaned;
 }
@@ -2,6 +2,20 @@
  * Form State Helpers
  */
 
+import { isPlainObject } from '../object/transform';
+import { diffValues } from './diff';
+
+/**
+ * 모든 하위 속성을 선택적으로 만든 타입 (Date, File 등은 값 그대로)
+ */
+export type DeepPartial<T> = T extends Date | Blob | ((...args: any[]) => any)
+  ? T
+  : T extends (infer U)[]
+    ? DeepPartial<U>[]
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
 /**
  * 폼 에러가 있는지 확인
  */
@@ -10,35 +24,116 @@ export function hasFormErrors(errors: Record<string, any>): boolean {
 }
 
 /**
- * 변경된 필드만 추출
+ * 변경된 필드만 추출 (PATCH 요청 본문용)
+ * 중첩 객체는 변경된 하위 필드만 포함하고, 배열과 Date는 내용이 바뀌었으면 값 전체를 포함합니다.
+ *
+ * @example
+ * getChangedFields(
+ *   { name: 'Kim', address: { city: '서울', zip: '06236' }, tags: ['a'] },
+ *   { name: 'Kim', address: { city: '부산', zip: '06236' }, tags: ['a'] }
+ * )
+ * // { address: { city: '부산' } }
  */
 export function getChangedFields<T extends Record<string, any>>(
   original: T,
   current: T
-): Partial<T> {
-  const changed: Partial<T> = {};
+): DeepPartial<T> {
+  const changed: Record<string, any> = {};
 
   for (const key in current) {
-    if (current[key] !== original[key]) {
-      changed[key] = current[key];
+    const from = original?.[key];
+    const to = current[key];
+
+    if (isPlainObject(from) && isPlainObject(to)) {
+      const nested = getChangedFields(from, to);
+      if (Object.keys(nested).length > 0) {
+        changed[key] = nested;
+      }
+    } else if (diffValues(from, to).length > 0) {
+      changed[key] = to;
     }
   }
 
-  return changed;
+  return changed as DeepPartial<T>;
 }
 
 /**
- * 빈 값 제거 (null, undefined, 빈 문자열)
+ * removeEmptyValues 옵션
  */
-export function removeEmptyValues<T extends Record<string, any>>(obj: T): Partial<T> {
-  const result: Partial<T> = {};
+export interface RemoveEmptyValuesOptions {
+  /** 중첩 객체와 배열까지 정리 (배열 항목이 제거되면 인덱스가 당겨짐, 기본값: false) */
+  deep?: boolean;
+  /** 빈 배열도 제거 (기본값: false) */
+  emptyArrays?: boolean;
+  /** 빈 객체도 제거, 정리 후 비게 된 객체 포함 (기본값: false) */
+  emptyObjects?: boolean;
+  /** 공백만 있는 문자열도 제거 (기본값: false) */
+  whitespace?: boolean;
+  /** NaN도 제거 (기본값: false) */
+  nan?: boolean;
+  /** 남는 문자열의 앞뒤 공백 제거 (기본값: false) */
+  trim?: boolean;
+}
+
+const EMPTY = Symbol('empty');
+
+function cleanValue(value: unknown, options: RemoveEmptyValuesOptions): unknown {
+  const { deep = false, emptyArrays = false, emptyObjects = false, whitespace = false, nan = false, trim = false } = options;
+
+  if (value === null || value === undefined) return EMPTY;
+
+  if (typeof value === 'string') {
+    const text = trim ? value.trim() : value;
+    return text === '' || (whitespace && text.trim() === '') ? EMPTY : text;
+  }
+
+  if (typeof value === 'number') {
+    return nan && Number.isNaN(value) ? EMPTY : value;
+  }
+
+  if (Array.isArray(value)) {
+    const items = deep ? value.map((item) => cleanValue(item, options)).filter((item) => item !== EMPTY) : value;
+    return emptyArrays && items.length === 0 ? EMPTY : items;
+  }
+
+  if (isPlainObject(value)) {
+    const cleaned = deep ? cleanObject(value, options) : value;
+    return emptyObjects && Object.keys(cleaned).length === 0 ? EMPTY : cleaned;
+  }
+
+  return value;
+}
+
+function cleanObject(obj: Record<string, any>, options: RemoveEmptyValuesOptions): Record<string, any> {
+  const result: Record<string, any> = {};
 
   for (const key in obj) {
-    const value = obj[key];
-    if (value !== null && value !== undefined && value !== '') {
+    const value = cleanValue(obj[key], options);
+    if (value !== EMPTY) {
       result[key] = value;
     }
   }
 
   return result;
 }
+
+/**
+ * 빈 값 제거 (null, undefined, 빈 문자열)
+ * 기본적으로 최상위 값만 정리하며 deep 옵션으로 중첩 객체와 배열까지 정리합니다. 0과 false, Date, File 등은 유지합니다.
+ * @param obj - 정리할 객체
+ * @param options - 중첩 정리 여부, 빈 값으로 볼 기준 (빈 배열, 빈 객체, 공백 문자열, NaN)과 문자열 trim 여부
+ *
+ * @example
+ * removeEmptyValues({ name: ' Kim ', memo: '', address: { detail: null }, tags: ['a', ''] })
+ * // { name: ' Kim ', address: { detail: null }, tags: ['a', ''] }
+ *
+ * @example
+ * removeEmptyValues(values, { deep: true, emptyObjects: true, emptyArrays: true, trim: true })
+ * // { name: 'Kim', tags: ['a'] }
+ */
+export function removeEmptyValues<T extends Record<string, any>>(
+  obj: T,
+  options: RemoveEmptyValuesOptions = {}
+): DeepPartial<T> {
+  return cleanObject(obj, options) as DeepPartial<T>;
+}
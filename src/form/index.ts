@@ -7,8 +7,29 @@
 // Validation utilities
 export * from './validation';
 
+// Credit card utilities
+export * from './card';
+
+// Resident registration number utilities
+export * from './resident';
+
+// Schema-based validator
+export * from './validator';
+
 // Formatter utilities
 export * from './formatter';
 
+// Input mask utilities
+export * from './mask';
+
+// Diff & JSON Patch utilities
+export * from './diff';
+
+// Nested path utilities
+export * from './path';
+
+// FormData & query string serialization
+export * from './serialize';
+
 // Helper utilities
 export * from './helpers';
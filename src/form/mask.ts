@@ -0,0 +1,200 @@
+/**
+ * Input Mask Utilities
+ *
+ * 입력 중인 값을 패턴에 맞춰 포맷팅하고 커서 위치를 보정하는 마스크 엔진
+ */
+
+import { detectCardBrand, getCardBrandInfo } from './card';
+
+/**
+ * 마스크 패턴
+ * - '0': 숫자
+ * - 'A': 영문자
+ * - '*': 영문자 또는 숫자
+ * - 그 외 문자: 자동으로 삽입되는 구분자
+ *
+ * 입력값(영문자, 숫자만)에 따라 패턴을 바꿔야 하면 함수를 사용합니다.
+ */
+export type MaskPattern = string | ((raw: string) => string);
+
+/**
+ * 마스크 적용 결과
+ */
+export interface MaskResult {
+  /** 포맷팅된 값 */
+  value: string;
+  /** 구분자를 제외한 입력값 */
+  rawValue: string;
+  /** 보정된 커서 위치 */
+  caret: number;
+}
+
+/**
+ * maskInput 입력
+ */
+export interface MaskInputState {
+  /** 변경 전 값 (구분자만 지운 경우를 감지하는 데 사용) */
+  previousValue?: string;
+  /** 변경 후 값 (input.value) */
+  value: string;
+  /** 변경 후 커서 위치 (input.selectionStart, 기본값: 값의 끝) */
+  selectionStart?: number;
+  /** 입력 종류 (InputEvent.inputType, 'deleteContentForward'면 Delete 키로 보고 커서 뒤 문자를 지움) */
+  inputType?: string;
+}
+
+const maskTokens: Record<string, RegExp> = {
+  '0': /[0-9]/,
+  A: /[a-zA-Z]/,
+  '*': /[a-zA-Z0-9]/,
+};
+
+/**
+ * 자주 쓰는 마스크 패턴
+ */
+export const maskPatterns = {
+  /** 전화번호 (02-123-4567, 010-1234-5678) */
+  phoneNumber: (raw: string) => {
+    if (raw.startsWith('02')) return raw.length > 9 ? '00-0000-0000' : '00-000-0000';
+    return raw.length > 10 ? '000-0000-0000' : '000-000-0000';
+  },
+  /** 사업자등록번호 (123-45-67890) */
+  businessNumber: '000-00-00000',
+  /** 주민등록번호 (900101-1234568) */
+  residentNumber: '000000-0000000',
+  /** 카드번호 (브랜드별 그룹, 최대 자릿수) */
+  creditCard: (raw: string) => {
+    const brand = detectCardBrand(raw);
+    const { gaps, lengths } = brand ? getCardBrandInfo(brand) : { gaps: [4, 8, 12], lengths: [16] };
+    const length = Math.max(...lengths);
+
+    let pattern = '';
+    for (let i = 0; i < length; i++) {
+      if (gaps.includes(i)) pattern += '-';
+      pattern += '0';
+    }
+    return pattern;
+  },
+  /** 카드 유효기간 (MM/YY) */
+  cardExpiry: '00/00',
+} satisfies Record<string, MaskPattern>;
+
+function resolvePattern(pattern: MaskPattern, value: string): string {
+  return typeof pattern === 'function' ? pattern(value.replace(/[^a-zA-Z0-9]/g, '')) : pattern;
+}
+
+/**
+ * 패턴에 맞는 입력 문자만 추출
+ * 패턴의 구분자와 같은 문자는 건너뛰고, 토큰에 맞지 않는 문자는 버립니다.
+ */
+function extractRaw(value: string, pattern: string): string {
+  let raw = '';
+  let p = 0;
+
+  for (const char of value) {
+    while (p < pattern.length && !maskTokens[pattern[p]]) {
+      if (char === pattern[p]) break;
+      p++;
+    }
+    if (p >= pattern.length) break;
+
+    const token = maskTokens[pattern[p]];
+    if (!token) {
+      // 입력된 구분자
+      p++;
+    } else if (token.test(char)) {
+      raw += char;
+      p++;
+    }
+  }
+
+  return raw;
+}
+
+/**
+ * 입력 문자를 패턴에 채워 넣기
+ */
+function fillPattern(raw: string, pattern: string): string {
+  let result = '';
+  let r = 0;
+
+  for (let p = 0; p < pattern.length && r < raw.length; p++) {
+    result += maskTokens[pattern[p]] ? raw[r++] : pattern[p];
+  }
+
+  return result;
+}
+
+/**
+ * 포맷팅된 값에서 n번째 입력 문자 바로 뒤의 위치 (뒤따르는 구분자는 건너뜀)
+ */
+function caretAfterRaw(formatted: string, pattern: string, count: number): number {
+  let caret = 0;
+
+  for (let seen = 0; caret < formatted.length && seen < count; caret++) {
+    if (maskTokens[pattern[caret]]) seen++;
+  }
+  while (caret < formatted.length && !maskTokens[pattern[caret]]) {
+    caret++;
+  }
+
+  return caret;
+}
+
+/**
+ * 값 전체에 마스크 적용
+ * @example applyMask('01012345678', '000-0000-0000') // '010-1234-5678'
+ * @example applyMask('1234567890', maskPatterns.businessNumber) // '123-45-67890'
+ */
+export function applyMask(value: string, pattern: MaskPattern): string {
+  const resolved = resolvePattern(pattern, value);
+  return fillPattern(extractRaw(value, resolved), resolved);
+}
+
+/**
+ * 입력 중인 값에 마스크를 적용하고 커서 위치 보정
+ * 커서 앞에 있던 입력 문자 수를 유지하므로 중간 입력/삭제 시에도 커서가 끝으로 튀지 않습니다.
+ * 구분자만 지운 경우 Backspace면 그 앞의, Delete(inputType 'deleteContentForward')면 그 뒤의 입력 문자를 함께 지웁니다.
+ *
+ * @example
+ * // '010-1234' 중간에 '9' 입력: '010-91234', 커서 5
+ * maskInput({ previousValue: '010-1234', value: '010-91234', selectionStart: 5 }, '000-0000-0000')
+ * // { value: '010-9123-4', rawValue: '01091234', caret: 5 }
+ *
+ * @example
+ * // '010-|1234'에서 Backspace로 '-' 삭제
+ * maskInput({ previousValue: '010-1234', value: '0101234', selectionStart: 3 }, '000-0000-0000')
+ * // { value: '011-234', rawValue: '011234', caret: 2 }
+ *
+ * @example
+ * // '010|-1234'에서 Delete로 '-' 삭제
+ * maskInput({ previousValue: '010-1234', value: '0101234', selectionStart: 3, inputType: 'deleteContentForward' }, '000-0000-0000')
+ * // { value: '010-234', rawValue: '010234', caret: 4 }
+ */
+export function maskInput(state: MaskInputState, pattern: MaskPattern): MaskResult {
+  const { previousValue, value, selectionStart = value.length, inputType } = state;
+
+  let pat = resolvePattern(pattern, value);
+  let raw = extractRaw(value, pat);
+  let rawBeforeCaret = extractRaw(value.slice(0, selectionStart), pat).length;
+
+  if (previousValue !== undefined && value.length < previousValue.length) {
+    const previousRaw = extractRaw(previousValue, resolvePattern(pattern, previousValue));
+    const forward = inputType === 'deleteContentForward';
+
+    if (previousRaw === raw && (forward ? rawBeforeCaret < raw.length : rawBeforeCaret > 0)) {
+      if (!forward) rawBeforeCaret--;
+      raw = raw.slice(0, rawBeforeCaret) + raw.slice(rawBeforeCaret + 1);
+      pat = resolvePattern(pattern, raw);
+    }
+  }
+
+  const formatted = fillPattern(raw, pat);
+  const rawValue = extractRaw(formatted, pat);
+
+  return {
+    value: formatted,
+    rawValue,
+    caret: caretAfterRaw(formatted, pat, Math.min(rawBeforeCaret, rawValue.length)),
+  };
+}
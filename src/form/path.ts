@@ -0,0 +1,57 @@
+/**
+ * Nested Path Utilities
+ *
+ * 'address.city', 'items[2].qty' 형식의 경로로 중첩된 폼 값 읽기/쓰기
+ */
+
+type PathSegment = string | number;
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * 경로를 키 목록으로 변환 ('items[2].qty', 'items.2.qty' → ['items', 2, 'qty'])
+ */
+function parsePath(path: string): PathSegment[] {
+  return (path.match(/[^.[\]]+/g) ?? []).map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * 경로로 값 읽기
+ * @param obj - 대상 객체
+ * @param path - 경로 (예: 'address.city', 'items[0].qty')
+ * @param defaultValue - 값이 없을 때 반환할 값
+ *
+ * @example
+ * getByPath({ items: [{ qty: 2 }] }, 'items[0].qty') // 2
+ * getByPath({ address: null }, 'address.city', '-') // '-'
+ */
+export function getByPath<T = any>(obj: unknown, path: string, defaultValue?: T): T {
+  const value = parsePath(path).reduce<any>((acc, key) => (acc === null || acc === undefined ? undefined : acc[key]), obj);
+  return value === undefined ? (defaultValue as T) : value;
+}
+
+/**
+ * 경로에 값 쓰기 (원본은 변경하지 않고 경로상의 객체만 복사)
+ * 중간 경로가 없으면 다음 키가 숫자일 때는 배열, 아니면 객체를 만듭니다.
+ *
+ * @example
+ * setByPath({ name: 'Kim' }, 'address.city', '서울') // { name: 'Kim', address: { city: '서울' } }
+ * setByPath({}, 'items[1].qty', 3) // { items: [undefined, { qty: 3 }] }
+ */
+export function setByPath<T extends Record<string, any>>(obj: T, path: string, value: unknown): T {
+  const segments = parsePath(path);
+  if (segments.length === 0 || segments.some((segment) => UNSAFE_KEYS.includes(String(segment)))) {
+    return obj;
+  }
+
+  const assign = (node: any, index: number): any => {
+    const key = segments[index];
+    const copy = Array.isArray(node) ? [...node] : node !== null && typeof node === 'object' ? { ...node } : null;
+    const container = copy ?? (typeof key === 'number' ? [] : {});
+
+    container[key] = index === segments.length - 1 ? value : assign(container[key], index + 1);
+    return container;
+  };
+
+  return assign(obj, 0);
+}
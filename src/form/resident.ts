@@ -0,0 +1,168 @@
+/**
+ * Resident Registration Number Utilities
+ *
+ * 주민등록번호 / 외국인등록번호 검증 및 해석
+ */
+
+import { diffDate } from '../date';
+
+/**
+ * 주민등록번호 해석 결과
+ */
+export interface ResidentNumberResult {
+  /** 유효 여부 */
+  valid: boolean;
+  /** 실패 사유 (유효하면 undefined) */
+  reason?: 'length' | 'genderDigit' | 'birthDate' | 'checksum';
+  /** 생년월일 (로컬 시간 자정) */
+  birthDate?: Date;
+  /** 출생 세기 (1800, 1900, 2000) */
+  century?: 1800 | 1900 | 2000;
+  /** 성별 */
+  gender?: 'male' | 'female';
+  /** 외국인등록번호 여부 */
+  foreigner?: boolean;
+  /** 검증번호를 확인했는지 여부 (2020년 10월 이후 부여된 번호는 검증번호가 없음) */
+  checksumVerified?: boolean;
+}
+
+export interface ParseResidentNumberOptions {
+  /**
+   * 검증번호 확인 여부 (기본값: true)
+   * 2020-10-01 이후 출생자는 검증번호 없이 부여되므로 항상 확인을 건너뜁니다.
+   */
+  checksum?: boolean;
+}
+
+const RESIDENT_NUMBER_WEIGHTS = [2, 3, 4, 5, 6, 7, 8, 9, 2, 3, 4, 5];
+
+/** 검증번호 제도가 폐지된 날짜 (2020-10-01 이후 부여 번호) */
+const CHECKSUM_ABOLISHED_AT = new Date(2020, 9, 1);
+
+/**
+ * 성별 자리(7번째) → 세기, 성별, 외국인 여부
+ */
+const genderDigitMap: Record<string, { century: 1800 | 1900 | 2000; gender: 'male' | 'female'; foreigner: boolean }> = {
+  '9': { century: 1800, gender: 'male', foreigner: false },
+  '0': { century: 1800, gender: 'female', foreigner: false },
+  '1': { century: 1900, gender: 'male', foreigner: false },
+  '2': { century: 1900, gender: 'female', foreigner: false },
+  '3': { century: 2000, gender: 'male', foreigner: false },
+  '4': { century: 2000, gender: 'female', foreigner: false },
+  '5': { century: 1900, gender: 'male', foreigner: true },
+  '6': { century: 1900, gender: 'female', foreigner: true },
+  '7': { century: 2000, gender: 'male', foreigner: true },
+  '8': { century: 2000, gender: 'female', foreigner: true },
+};
+
+/**
+ * 성별, 세기, 외국인 여부로 성별 자리(7번째) 계산
+ * @example getResidentGenderDigit('female', 2000) // '4'
+ */
+export function getResidentGenderDigit(
+  gender: 'male' | 'female',
+  century: 1800 | 1900 | 2000,
+  foreigner: boolean = false
+): string {
+  const digit = Object.keys(genderDigitMap).find((key) => {
+    const info = genderDigitMap[key];
+    return info.gender === gender && info.century === century && info.foreigner === foreigner;
+  });
+
+  if (digit === undefined) {
+    throw new Error(`Unsupported resident number combination: ${gender}, ${century}, foreigner=${foreigner}`);
+  }
+  return digit;
+}
+
+/**
+ * 주민등록번호 검증번호(13번째 자리) 계산
+ * 외국인등록번호는 (13 - 합 % 11) % 10 규칙을 사용합니다.
+ * @param value - 앞 12자리 (하이픈 허용)
+ * @returns 검증번호 (0~9)
+ *
+ * @example
+ * calculateResidentNumberCheckDigit('900101-123456') // 8
+ */
+export function calculateResidentNumberCheckDigit(value: string): number {
+  const digits = value.replace(/[^0-9]/g, '').slice(0, 12).split('').map(Number);
+  const sum = digits.reduce((acc, digit, i) => acc + digit * RESIDENT_NUMBER_WEIGHTS[i], 0);
+  const foreigner = genderDigitMap[String(digits[6])]?.foreigner ?? false;
+
+  return ((foreigner ? 13 : 11) - (sum % 11)) % 10;
+}
+
+/**
+ * 주민등록번호 / 외국인등록번호 해석 및 검증
+ * @param value - 주민등록번호 (하이픈 허용)
+ * @param options - 검증 옵션
+ *
+ * @example
+ * parseResidentNumber('900101-1234568')
+ * // { valid: true, birthDate: Date(1990-01-01), century: 1900, gender: 'male', foreigner: false, checksumVerified: true }
+ *
+ * @example
+ * parseResidentNumber('900101-1234567') // { valid: false, reason: 'checksum', ... }
+ */
+export function parseResidentNumber(
+  value: string,
+  options: ParseResidentNumberOptions = {}
+): ResidentNumberResult {
+  const { checksum = true } = options;
+  const cleaned = value.replace(/[^0-9]/g, '');
+
+  if (cleaned.length !== 13) {
+    return { valid: false, reason: 'length' };
+  }
+
+  const info = genderDigitMap[cleaned[6]];
+  if (!info) {
+    return { valid: false, reason: 'genderDigit' };
+  }
+
+  const year = info.century + Number(cleaned.slice(0, 2));
+  const month = Number(cleaned.slice(2, 4));
+  const day = Number(cleaned.slice(4, 6));
+  const birthDate = new Date(year, month - 1, day);
+
+  if (birthDate.getFullYear() !== year || birthDate.getMonth() !== month - 1 || birthDate.getDate() !== day) {
+    return { valid: false, reason: 'birthDate', ...info };
+  }
+
+  const result = { birthDate, ...info };
+  const checksumVerified = checksum && birthDate < CHECKSUM_ABOLISHED_AT;
+
+  if (checksumVerified && calculateResidentNumberCheckDigit(cleaned) !== Number(cleaned[12])) {
+    return { valid: false, reason: 'checksum', ...result };
+  }
+
+  return { valid: true, ...result, checksumVerified };
+}
+
+/**
+ * 주민등록번호 / 외국인등록번호 검증
+ * @example isResidentNumber('900101-1234568') // true
+ */
+export function isResidentNumber(value: string, options?: ParseResidentNumberOptions): boolean {
+  return parseResidentNumber(value, options).valid;
+}
+
+/**
+ * 주민등록번호로 만 나이 계산
+ * @param value - 주민등록번호
+ * @param baseDate - 기준일 (기본값: 오늘)
+ * @returns 만 나이 (유효하지 않은 번호는 null)
+ *
+ * @example
+ * getResidentAge('900101-1234568', '2024-06-01') // 34
+ */
+export function getResidentAge(
+  value: string,
+  baseDate: Date | string | number = new Date(),
+  options?: ParseResidentNumberOptions
+): number | null {
+  const { valid, birthDate } = parseResidentNumber(value, options);
+  if (!valid || !birthDate) return null;
+
+  return diffDate(baseDate, birthDate, 'year');
+}
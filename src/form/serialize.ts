@@ -0,0 +1,208 @@
+/**
+ * Form Value Serialization Utilities
+ *
+ * 중첩된 폼 값을 FormData, URL 쿼리 문자열로 변환하고 다시 중첩 객체로 복원
+ */
+
+import { isPlainObject } from '../object/transform';
+
+/**
+ * 배열 표기 방식
+ * - brackets: tags[]=a&tags[]=b
+ * - indices: tags[0]=a&tags[1]=b
+ * - repeat: tags=a&tags=b
+ * - comma: tags=a,b
+ *
+ * 객체나 배열이 든 배열은 항목 경계를 구분할 수 없으므로 형식과 관계없이 indices로 변환합니다.
+ * comma 형식은 쉼표가 든 일반 값과 구분할 수 없으므로 복원할 때 commaKeys로 배열 키를 지정합니다.
+ */
+export type ArrayFormat = 'brackets' | 'indices' | 'repeat' | 'comma';
+
+/**
+ * 직렬화 옵션
+ */
+export interface SerializeOptions {
+  /** 배열 표기 방식 (기본값: 'brackets') */
+  arrayFormat?: ArrayFormat;
+  /** 중첩 객체 표기 방식 ('brackets': address[city], 'dots': address.city, 기본값: 'brackets') */
+  objectFormat?: 'brackets' | 'dots';
+  /** comma 형식에서 쉼표로 나눠 배열로 복원할 키 (복원할 때만 사용, 그 외 키는 쉼표가 있어도 문자열 유지) */
+  commaKeys?: string[];
+}
+
+type Entry = [string, string | Blob];
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+const isBlob = (value: unknown): value is Blob => typeof Blob !== 'undefined' && value instanceof Blob;
+
+const toText = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value));
+
+// 값 하나를 key/value 목록으로 펼침 (undefined는 생략, null은 빈 문자열)
+function appendEntries(
+  entries: Entry[],
+  key: string,
+  value: unknown,
+  options: Required<Omit<SerializeOptions, 'commaKeys'>>
+) {
+  const { arrayFormat, objectFormat } = options;
+
+  if (value === undefined) return;
+
+  if (value === null) {
+    entries.push([key, '']);
+  } else if (isBlob(value)) {
+    entries.push([key, value]);
+  } else if (Array.isArray(value)) {
+    const nested = value.some((item) => isPlainObject(item) || Array.isArray(item));
+    const format = nested ? 'indices' : arrayFormat;
+
+    if (format === 'comma' && !value.some(isBlob)) {
+      const items = value.filter((item) => item !== undefined);
+      if (items.length > 0) entries.push([key, items.map((item) => (item === null ? '' : toText(item))).join(',')]);
+      return;
+    }
+
+    value.forEach((item, index) => {
+      const itemKey = format === 'indices' ? `${key}[${index}]` : format === 'brackets' ? `${key}[]` : key;
+      appendEntries(entries, itemKey, item, options);
+    });
+  } else if (isPlainObject(value)) {
+    Object.keys(value).forEach((childKey) => {
+      const path = objectFormat === 'dots' ? `${key}.${childKey}` : `${key}[${childKey}]`;
+      appendEntries(entries, path, value[childKey], options);
+    });
+  } else {
+    entries.push([key, toText(value)]);
+  }
+}
+
+function toEntries(values: Record<string, unknown>, options: SerializeOptions): Entry[] {
+  const resolved = { arrayFormat: options.arrayFormat ?? 'brackets', objectFormat: options.objectFormat ?? 'brackets' };
+  const entries: Entry[] = [];
+
+  Object.keys(values).forEach((key) => appendEntries(entries, key, values[key], resolved));
+  return entries;
+}
+
+// 'items[0][name]', 'tags[]', 'address.city' → 키 목록 ('' 는 배열 끝에 추가)
+function parseKey(key: string, dots: boolean): string[] {
+  const head = key.match(dots ? /^[^[.]+/ : /^[^[]+/);
+  if (!head) return [key];
+
+  const segments = [head[0]];
+  const rest = key.slice(head[0].length);
+  const pattern = dots ? /\[([^\]]*)\]|\.([^[.]+)/g : /\[([^\]]*)\]/g;
+
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(rest)) && match.index === consumed) {
+    segments.push(match[1] ?? match[2]);
+    consumed += match[0].length;
+  }
+
+  // 형식에 맞지 않는 키는 그대로 사용
+  return consumed === rest.length ? segments : [key];
+}
+
+function assignEntry(root: Record<string, any>, segments: string[], value: unknown) {
+  if (segments.some((segment) => UNSAFE_KEYS.includes(segment))) return;
+
+  let node: any = root;
+  segments.forEach((segment, i) => {
+    const isLast = i === segments.length - 1;
+    const key = segment === '' && Array.isArray(node) ? node.length : segment;
+
+    if (isLast) {
+      if (Array.isArray(node) && segment === '') {
+        node.push(value);
+      } else if (!Array.isArray(node) && Object.prototype.hasOwnProperty.call(node, key)) {
+        // 같은 키가 반복되면 배열로 (repeat 형식)
+        node[key] = Array.isArray(node[key]) ? [...node[key], value] : [node[key], value];
+      } else {
+        node[key] = value;
+      }
+      return;
+    }
+
+    if (node[key] === undefined || node[key] === null || typeof node[key] !== 'object') {
+      node[key] = /^\d*$/.test(segments[i + 1]) ? [] : {};
+    }
+    node = node[key];
+  });
+}
+
+function fromEntries(entries: [string, unknown][], options: SerializeOptions): Record<string, any> {
+  const { arrayFormat = 'brackets', objectFormat = 'brackets', commaKeys = [] } = options;
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of entries) {
+    const isCommaArray = arrayFormat === 'comma' && typeof value === 'string' && commaKeys.includes(key);
+    const parsed = isCommaArray ? value.split(',') : value;
+    assignEntry(result, parseKey(key, objectFormat === 'dots'), parsed);
+  }
+
+  return result;
+}
+
+/**
+ * 중첩된 값을 FormData로 변환 (파일 업로드용)
+ * File/Blob은 그대로 추가하고, Date는 ISO 문자열, 그 외 값은 문자열로 변환합니다.
+ * undefined는 생략하고 null은 빈 문자열로 보냅니다.
+ *
+ * @example
+ * toFormData({ title: '공지', files: [file1, file2], author: { name: 'Kim' } })
+ * // title=공지, files[]=file1, files[]=file2, author[name]=Kim
+ *
+ * @example
+ * toFormData(values, { arrayFormat: 'indices', objectFormat: 'dots' })
+ * // files[0]=file1, files[1]=file2, author.name=Kim
+ */
+export function toFormData(values: Record<string, unknown>, options: SerializeOptions = {}): FormData {
+  const formData = new FormData();
+  toEntries(values, options).forEach(([key, value]) => formData.append(key, value));
+  return formData;
+}
+
+/**
+ * FormData를 중첩 객체로 변환 (값은 문자열 또는 File)
+ * @example
+ * fromFormData(formData) // { title: '공지', files: [File, File], author: { name: 'Kim' } }
+ */
+export function fromFormData(formData: FormData, options: SerializeOptions = {}): Record<string, any> {
+  const entries: [string, unknown][] = [];
+  formData.forEach((value, key) => entries.push([key, value]));
+  return fromEntries(entries, options);
+}
+
+/**
+ * 중첩된 값을 URL 쿼리 문자열로 변환 ('?' 제외)
+ * @example
+ * toQueryString({ q: '검색', page: 2, tags: ['a', 'b'] }) // 'q=%EA%B2%80%EC%83%89&page=2&tags%5B%5D=a&tags%5B%5D=b'
+ * toQueryString({ tags: ['a', 'b'] }, { arrayFormat: 'repeat' }) // 'tags=a&tags=b'
+ * toQueryString({ tags: ['a', 'b'] }, { arrayFormat: 'comma' }) // 'tags=a%2Cb'
+ */
+export function toQueryString(values: Record<string, unknown>, options: SerializeOptions = {}): string {
+  const params = new URLSearchParams();
+  toEntries(values, options).forEach(([key, value]) => params.append(key, isBlob(value) ? '' : value));
+  return params.toString();
+}
+
+/**
+ * URL 쿼리 문자열을 중첩 객체로 변환 (값은 문자열)
+ * repeat 형식에서 값이 하나뿐인 키는 배열이 아닌 문자열이 됩니다.
+ * comma 형식은 commaKeys로 지정한 키만 배열로 복원합니다.
+ *
+ * @example
+ * parseQueryString('?page=2&tags[]=a&tags[]=b&filter[status]=open')
+ * // { page: '2', tags: ['a', 'b'], filter: { status: 'open' } }
+ *
+ * @example
+ * parseQueryString('q=a,b&tags=a,b', { arrayFormat: 'comma', commaKeys: ['tags'] })
+ * // { q: 'a,b', tags: ['a', 'b'] }
+ */
+export function parseQueryString(query: string, options: SerializeOptions = {}): Record<string, any> {
+  const entries: [string, unknown][] = [];
+  new URLSearchParams(query.replace(/^\?/, '')).forEach((value, key) => entries.push([key, value]));
+  return fromEntries(entries, options);
+}
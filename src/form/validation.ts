@@ -64,9 +64,99 @@ export function isStrongPassword(
 }
 
 /**
- * 한국 사업자등록번호 형식 검증 (10자리)
+ * 사업자 유형 (사업자등록번호 4~5번째 자리 구분코드 기준)
  */
-export function isBusinessNumber(value: string): boolean {
+export type BusinessType =
+  | 'individual' // 01~79: 개인 과세사업자
+  | 'individualTaxFree' // 80, 90~99: 개인 면세사업자 (80은 아파트관리사무소, 다단계판매원)
+  | 'corporation' // 81, 86, 87, 88: 영리법인 본점
+  | 'nonProfit' // 82: 비영리법인 본점 및 지점
+  | 'government' // 83: 국가, 지방자치단체
+  | 'foreignCorporation' // 84: 외국법인
+  | 'corporationBranch' // 85: 영리법인 지점
+  | 'religious'; // 89: 법인이 아닌 종교단체
+
+/**
+ * 사업자등록번호 검증 결과
+ */
+export interface BusinessNumberResult {
+  /** 유효 여부 */
+  valid: boolean;
+  /** 실패 사유 (유효하면 undefined) */
+  reason?: 'length' | 'typeCode' | 'checksum';
+  /** 구분코드 (4~5번째 자리) */
+  typeCode?: string;
+  /** 구분코드로 판별한 사업자 유형 */
+  businessType?: BusinessType;
+}
+
+const BUSINESS_NUMBER_WEIGHTS = [1, 3, 7, 1, 3, 7, 1, 3, 5];
+
+/**
+ * 사업자등록번호 구분코드로 사업자 유형 판별
+ * @param typeCode - 4~5번째 자리 (예: '81')
+ * @returns 사업자 유형 (00 등 유효하지 않은 코드는 null)
+ */
+export function getBusinessType(typeCode: string): BusinessType | null {
+  const code = Number(typeCode);
+  if (!/^[0-9]{2}$/.test(typeCode) || code === 0) return null;
+  if (code <= 79) return 'individual';
+  if (code === 80 || code >= 90) return 'individualTaxFree';
+  if (code === 82) return 'nonProfit';
+  if (code === 83) return 'government';
+  if (code === 84) return 'foreignCorporation';
+  if (code === 85) return 'corporationBranch';
+  if (code === 89) return 'religious';
+  return 'corporation';
+}
+
+/**
+ * 사업자등록번호 검증번호(10번째 자리) 계산 (국세청 알고리즘)
+ * @param value - 앞 9자리 (하이픈 허용)
+ * @returns 검증번호 (0~9)
+ *
+ * @example
+ * calculateBusinessNumberCheckDigit('220-81-6251') // 7
+ */
+export function calculateBusinessNumberCheckDigit(value: string): number {
+  const digits = value.replace(/[^0-9]/g, '').slice(0, 9).split('').map(Number);
+
+  let sum = digits.reduce((acc, digit, i) => acc + digit * BUSINESS_NUMBER_WEIGHTS[i], 0);
+  sum += Math.floor((digits[8] * 5) / 10);
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * 사업자등록번호 상세 검증 (자릿수, 구분코드, 검증번호)
+ * @param value - 사업자등록번호 (하이픈 허용)
+ *
+ * @example
+ * validateBusinessNumber('220-81-62517') // { valid: true, typeCode: '81', businessType: 'corporation' }
+ * validateBusinessNumber('123-45-67890') // { valid: false, reason: 'checksum', typeCode: '45', businessType: 'individual' }
+ */
+export function validateBusinessNumber(value: string): BusinessNumberResult {
   const cleaned = value.replace(/[^0-9]/g, '');
-  return cleaned.length === 10;
+  if (cleaned.length !== 10) {
+    return { valid: false, reason: 'length' };
+  }
+
+  const typeCode = cleaned.slice(3, 5);
+  const businessType = getBusinessType(typeCode);
+  if (!businessType) {
+    return { valid: false, reason: 'typeCode', typeCode };
+  }
+
+  if (calculateBusinessNumberCheckDigit(cleaned) !== Number(cleaned[9])) {
+    return { valid: false, reason: 'checksum', typeCode, businessType };
+  }
+
+  return { valid: true, typeCode, businessType };
+}
+
+/**
+ * 한국 사업자등록번호 검증 (10자리 + 국세청 검증번호)
+ */
+export function isBusinessNumber(value: string): boolean {
+  return validateBusinessNumber(value).valid;
 }
@@ -0,0 +1,264 @@
+/**
+ * Form Validator
+ *
+ * 필드별 규칙 목록으로 폼 전체를 검증하는 스키마 기반 validator
+ */
+
+import { template } from '../string/template';
+import { isEmail, isPhoneNumber, isUrl, isStrongPassword, isBusinessNumber } from './validation';
+import { isResidentNumber } from './resident';
+import { isCreditCard } from './card';
+import { getByPath, setByPath } from './path';
+
+/**
+ * 기본 메시지 로케일
+ */
+export type ValidationLocale = 'ko' | 'en';
+
+/**
+ * 에러 메시지 (문자열 템플릿 또는 params를 받는 함수)
+ * 문자열은 {min}, {max} 같은 params 치환을 지원합니다.
+ */
+export type ValidationMessage = string | ((params: Record<string, any>) => string);
+
+/**
+ * 검증 규칙
+ */
+export interface ValidationRule {
+  /** 규칙 타입 (에러의 type, 기본 메시지 키로 사용) */
+  type: string;
+  /** 검증 함수 (비동기 가능) */
+  validate: (value: any, values: Record<string, any>) => boolean | Promise<boolean>;
+  /** 메시지 치환에 사용할 값 */
+  params?: Record<string, any>;
+  /** 규칙별 메시지 (기본 메시지보다 우선) */
+  message?: ValidationMessage;
+}
+
+/**
+ * 필드명 → 규칙 목록
+ * 필드명은 'address.city' 같은 점 경로를 사용할 수 있습니다.
+ */
+export type ValidationSchema = Record<string, ValidationRule[]>;
+
+/**
+ * 필드 에러 (react-hook-form의 FieldError와 호환)
+ */
+export interface FieldError {
+  type: string;
+  message: string;
+}
+
+/**
+ * 필드명 → 에러 (에러가 없으면 빈 객체)
+ * 'address.city', 'items[0].qty' 같은 경로의 에러는 값과 같은 모양으로 중첩됩니다 (react-hook-form의 FieldErrors와 같은 형태).
+ */
+export interface ValidationErrors {
+  [field: string]: FieldError | ValidationErrors | (FieldError | ValidationErrors | undefined)[] | undefined;
+}
+
+export interface ValidatorOptions {
+  /** 기본 메시지 로케일 (기본값: 'ko') */
+  locale?: ValidationLocale;
+  /** 규칙 타입별 메시지 재정의 */
+  messages?: Record<string, ValidationMessage>;
+}
+
+export interface Validator {
+  /** 전체 필드 검증 */
+  validate: (values: Record<string, any>) => Promise<ValidationErrors>;
+  /** 단일 필드 검증 (에러가 없으면 null) */
+  validateField: (field: string, values: Record<string, any>) => Promise<FieldError | null>;
+}
+
+const defaultMessages: Record<ValidationLocale, Record<string, string>> = {
+  ko: {
+    required: '필수 입력 항목입니다',
+    minLength: '{min}자 이상 입력해주세요',
+    maxLength: '{max}자 이하로 입력해주세요',
+    min: '{min} 이상이어야 합니다',
+    max: '{max} 이하여야 합니다',
+    pattern: '형식이 올바르지 않습니다',
+    email: '올바른 이메일 형식이 아닙니다',
+    phoneNumber: '올바른 전화번호 형식이 아닙니다',
+    url: '올바른 URL 형식이 아닙니다',
+    strongPassword: '비밀번호가 보안 요구사항을 충족하지 않습니다',
+    businessNumber: '올바른 사업자등록번호가 아닙니다',
+    residentNumber: '올바른 주민등록번호가 아닙니다',
+    creditCard: '올바른 카드번호가 아닙니다',
+    custom: '올바르지 않은 값입니다',
+  },
+  en: {
+    required: 'This field is required',
+    minLength: 'Must be at least {min} characters',
+    maxLength: 'Must be at most {max} characters',
+    min: 'Must be greater than or equal to {min}',
+    max: 'Must be less than or equal to {max}',
+    pattern: 'Invalid format',
+    email: 'Invalid email address',
+    phoneNumber: 'Invalid phone number',
+    url: 'Invalid URL',
+    strongPassword: 'Password does not meet the security requirements',
+    businessNumber: 'Invalid business registration number',
+    residentNumber: 'Invalid resident registration number',
+    creditCard: 'Invalid card number',
+    custom: 'Invalid value',
+  },
+};
+
+/**
+ * 빈 값인지 확인 (null, undefined, 빈 문자열, 빈 배열)
+ */
+function isEmptyValue(value: any): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * 빈 값은 통과시키는 규칙 생성 (required와 함께 조합하는 용도)
+ */
+function optionalRule(
+  type: string,
+  test: (value: any) => boolean,
+  message?: ValidationMessage,
+  params?: Record<string, any>
+): ValidationRule {
+  return {
+    type,
+    validate: (value) => isEmptyValue(value) || test(value),
+    params,
+    message,
+  };
+}
+
+/**
+ * 기본 제공 규칙
+ *
+ * @example
+ * const validator = createValidator({
+ *   email: [rules.required(), rules.email()],
+ *   password: [rules.required(), rules.minLength(8), rules.strongPassword()],
+ *   nickname: [rules.custom(async (value) => !(await isTaken(value)), '이미 사용 중인 닉네임입니다')],
+ * });
+ */
+export const rules = {
+  /** 필수 입력 */
+  required: (message?: ValidationMessage): ValidationRule => ({
+    type: 'required',
+    validate: (value) => !isEmptyValue(value) && value !== false,
+    message,
+  }),
+
+  /** 최소 길이 (문자열, 배열) */
+  minLength: (min: number, message?: ValidationMessage): ValidationRule =>
+    optionalRule('minLength', (value) => value.length >= min, message, { min }),
+
+  /** 최대 길이 (문자열, 배열) */
+  maxLength: (max: number, message?: ValidationMessage): ValidationRule =>
+    optionalRule('maxLength', (value) => value.length <= max, message, { max }),
+
+  /** 최소값 */
+  min: (min: number, message?: ValidationMessage): ValidationRule =>
+    optionalRule('min', (value) => Number(value) >= min, message, { min }),
+
+  /** 최대값 */
+  max: (max: number, message?: ValidationMessage): ValidationRule =>
+    optionalRule('max', (value) => Number(value) <= max, message, { max }),
+
+  /** 정규식 */
+  pattern: (regex: RegExp, message?: ValidationMessage): ValidationRule =>
+    optionalRule('pattern', (value) => regex.test(String(value)), message, { pattern: regex.source }),
+
+  /** 이메일 (isEmail) */
+  email: (message?: ValidationMessage): ValidationRule => optionalRule('email', isEmail, message),
+
+  /** 한국 전화번호 (isPhoneNumber) */
+  phoneNumber: (message?: ValidationMessage): ValidationRule => optionalRule('phoneNumber', isPhoneNumber, message),
+
+  /** URL (isUrl) */
+  url: (message?: ValidationMessage): ValidationRule => optionalRule('url', isUrl, message),
+
+  /** 비밀번호 강도 (isStrongPassword) */
+  strongPassword: (
+    options?: Parameters<typeof isStrongPassword>[1],
+    message?: ValidationMessage
+  ): ValidationRule => optionalRule('strongPassword', (value) => isStrongPassword(value, options), message),
+
+  /** 사업자등록번호 (isBusinessNumber) */
+  businessNumber: (message?: ValidationMessage): ValidationRule =>
+    optionalRule('businessNumber', isBusinessNumber, message),
+
+  /** 주민등록번호 / 외국인등록번호 (isResidentNumber) */
+  residentNumber: (message?: ValidationMessage): ValidationRule =>
+    optionalRule('residentNumber', (value) => isResidentNumber(value), message),
+
+  /** 카드번호 (isCreditCard) */
+  creditCard: (message?: ValidationMessage): ValidationRule => optionalRule('creditCard', isCreditCard, message),
+
+  /** 사용자 정의 규칙 (비동기 가능, 빈 값도 검사) */
+  custom: (
+    validate: (value: any, values: Record<string, any>) => boolean | Promise<boolean>,
+    message?: ValidationMessage,
+    type: string = 'custom'
+  ): ValidationRule => ({ type, validate, message }),
+};
+
+/**
+ * 스키마 기반 validator 생성
+ * 필드마다 규칙을 순서대로 검사하여 처음 실패한 규칙의 에러를 반환합니다.
+ * 결과는 hasFormErrors, FormDevTools의 errors와 같은 { [field]: { type, message } } 형태이며, 경로 필드는 중첩됩니다.
+ * @param schema - 필드별 규칙 목록
+ * @param options - 로케일, 메시지 재정의
+ *
+ * @example
+ * const validator = createValidator(
+ *   { email: [rules.required(), rules.email()] },
+ *   { locale: 'en' }
+ * );
+ * const errors = await validator.validate({ email: 'invalid' });
+ * // { email: { type: 'email', message: 'Invalid email address' } }
+ * hasFormErrors(errors) // true
+ *
+ * @example
+ * await createValidator({ 'address.city': [rules.required()] }).validate({ address: {} })
+ * // { address: { city: { type: 'required', message: '필수 입력 항목입니다' } } }
+ */
+export function createValidator(schema: ValidationSchema, options: ValidatorOptions = {}): Validator {
+  const { locale = 'ko', messages = {} } = options;
+
+  const resolveMessage = (rule: ValidationRule): string => {
+    const message = rule.message ?? messages[rule.type] ?? defaultMessages[locale][rule.type] ?? defaultMessages[locale].custom;
+    const params = rule.params ?? {};
+    return typeof message === 'function' ? message(params) : template(message, params);
+  };
+
+  const validateField = async (field: string, values: Record<string, any>): Promise<FieldError | null> => {
+    const fieldRules = schema[field] ?? [];
+    const value = getByPath(values, field);
+
+    for (const rule of fieldRules) {
+      const valid = await rule.validate(value, values);
+      if (!valid) {
+        return { type: rule.type, message: resolveMessage(rule) };
+      }
+    }
+
+    return null;
+  };
+
+  const validate = async (values: Record<string, any>): Promise<ValidationErrors> => {
+    const fields = Object.keys(schema);
+    const results = await Promise.all(fields.map((field) => validateField(field, values)));
+
+    return results.reduce<ValidationErrors>(
+      (errors, error, index) => (error ? setByPath(errors, fields[index], error) : errors),
+      {}
+    );
+  };
+
+  return { validate, validateField };
+}
@@ -26,3 +26,6 @@ export * from './useIntersectionObserver';
 
 // Event hooks
 export * from './useEventListener';
+
+// Form hooks
+export * from './useMaskedInput';
@@ -0,0 +1,90 @@
+import { useState, useCallback, useRef, useLayoutEffect, ChangeEvent, RefObject } from 'react';
+import { MaskPattern, applyMask, maskInput } from '../form/mask';
+
+/**
+ * useMaskedInput의 반환 타입
+ */
+export interface MaskedInputResult {
+  /** 포맷팅된 값 (input의 value) */
+  value: string;
+  /** 구분자를 제외한 값 */
+  rawValue: string;
+  /** input의 onChange 핸들러 */
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  /** 값을 직접 설정 (마스크 적용) */
+  setValue: (value: string) => void;
+  /** 커서 위치를 보정할 input ref */
+  inputRef: RefObject<HTMLInputElement | null>;
+}
+
+/**
+ * 마스크 패턴으로 입력값을 포맷팅하면서 커서 위치를 유지하는 hook
+ * 중간에 문자를 입력하거나 지워도 커서가 끝으로 이동하지 않습니다.
+ *
+ * @param pattern - 마스크 패턴 ('000-0000-0000' 또는 maskPatterns의 값)
+ * @param initialValue - 초기값 (기본값: '')
+ * @returns {MaskedInputResult} 포맷팅된 값, 원본 값, onChange, setValue, inputRef
+ *
+ * @example
+ * // 전화번호 입력
+ * function PhoneInput() {
+ *   const { value, rawValue, onChange, inputRef } = useMaskedInput(maskPatterns.phoneNumber);
+ *
+ *   return (
+ *     <>
+ *       <input ref={inputRef} value={value} onChange={onChange} inputMode="numeric" />
+ *       <p>저장될 값: {rawValue}</p>
+ *     </>
+ *   );
+ * }
+ *
+ * @example
+ * // 카드번호 입력 (브랜드별 그룹)
+ * function CardInput() {
+ *   const { value, onChange, inputRef } = useMaskedInput(maskPatterns.creditCard);
+ *
+ *   return <input ref={inputRef} value={value} onChange={onChange} placeholder="0000-0000-0000-0000" />;
+ * }
+ */
+export function useMaskedInput(pattern: MaskPattern, initialValue: string = ''): MaskedInputResult {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // 같은 값이어도 커서를 다시 맞출 수 있도록 매번 새 객체로 저장
+  const [state, setState] = useState<{ value: string; caret: number | null }>(() => ({
+    value: applyMask(initialValue, pattern),
+    caret: null,
+  }));
+
+  const onChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const { value, selectionStart } = event.target;
+      const { inputType } = event.nativeEvent as InputEvent;
+      const result = maskInput(
+        { previousValue: state.value, value, selectionStart: selectionStart ?? value.length, inputType },
+        pattern
+      );
+      setState({ value: result.value, caret: result.caret });
+    },
+    [state.value, pattern]
+  );
+
+  const setValue = useCallback(
+    (value: string) => {
+      setState({ value: applyMask(value, pattern), caret: null });
+    },
+    [pattern]
+  );
+
+  // 렌더링 직후 커서 위치 보정 (포커스된 경우에만)
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (state.caret === null || !input || document.activeElement !== input) {
+      return;
+    }
+    input.setSelectionRange(state.caret, state.caret);
+  }, [state]);
+
+  const rawValue = maskInput({ value: state.value }, pattern).rawValue;
+
+  return { value: state.value, rawValue, onChange, setValue, inputRef };
+}
@@ -10,6 +10,9 @@ export * from './string';
 // Number utilities
 export * from './number';
 
+// Address utilities
+export * from './address';
+
 // Mock data utilities
 export * from './mock';
 
@@ -17,8 +20,8 @@ export * from './mock';
 // Note: Hooks are not exported from main entry to avoid React dependency for non-React users
 // export * from './hooks';
 
-// Array utilities (placeholder for future)
-// export * from './array';
+// Array utilities
+export * from './array';
 
-// Object utilities (placeholder for future)
-// export * from './object';
+// Object utilities
+export * from './object';
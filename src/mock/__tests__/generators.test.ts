@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { createMockRandom } from '../random';
+import {
+  generateBusinessNumber,
+  generateResidentNumber,
+  generateCreditCardNumber,
+  generateKoreanAddress,
+  generateAddress,
+} from '../generators';
+import { generateFormMockData } from '../form';
+import { validateBusinessNumber } from '../../form/validation';
+import { parseResidentNumber } from '../../form/resident';
+import { CardBrand, validateCreditCard } from '../../form/card';
+import { parseAddress, getSidoByPostalCode } from '../../address/parse';
+import { sidoRegions } from '../../address/regions';
+
+describe('Mock Generators', () => {
+  describe('generateBusinessNumber', () => {
+    it('should generate checksum-valid business numbers', () => {
+      const random = createMockRandom(1);
+      for (let i = 0; i < 50; i++) {
+        const value = generateBusinessNumber(undefined, random);
+        expect(value).toMatch(/^\d{3}-\d{2}-\d{5}$/);
+        expect(validateBusinessNumber(value).valid).toBe(true);
+      }
+    });
+
+    it('should respect the requested business type', () => {
+      const random = createMockRandom(2);
+      expect(validateBusinessNumber(generateBusinessNumber('nonProfit', random)).businessType).toBe('nonProfit');
+      expect(validateBusinessNumber(generateBusinessNumber('individualTaxFree', random)).businessType).toBe(
+        'individualTaxFree'
+      );
+    });
+
+    it('should be used by generateFormMockData for business number fields', () => {
+      const [data] = generateFormMockData({ businessNumber: {} }, 1, 3);
+      expect(validateBusinessNumber(data.businessNumber).valid).toBe(true);
+    });
+
+    it('should match whole business number field names only', () => {
+      const [data] = generateFormMockData({ bizNo: {}, businessRegistrationNumber: {}, businessName: {}, bizName: {} }, 1, 3);
+
+      expect(validateBusinessNumber(data.bizNo).valid).toBe(true);
+      expect(validateBusinessNumber(data.businessRegistrationNumber).valid).toBe(true);
+      expect(data.businessName).not.toMatch(/\d/);
+      expect(data.bizName).not.toMatch(/\d/);
+    });
+  });
+
+  describe('generateResidentNumber', () => {
+    it('should generate checksum-valid resident numbers', () => {
+      const random = createMockRandom(4);
+      for (let i = 0; i < 50; i++) {
+        const value = generateResidentNumber(undefined, random);
+        expect(value).toMatch(/^\d{6}-\d{7}$/);
+        expect(parseResidentNumber(value).valid).toBe(true);
+      }
+    });
+
+    it('should respect gender, foreigner and birth date range', () => {
+      const value = generateResidentNumber(
+        { gender: 'female', foreigner: true, startDate: '2001-01-01', endDate: '2001-12-31' },
+        createMockRandom(5)
+      );
+      const result = parseResidentNumber(value);
+
+      expect(result).toMatchObject({ valid: true, gender: 'female', foreigner: true, century: 2000 });
+      expect(result.birthDate!.getFullYear()).toBe(2001);
+    });
+
+    it('should match whole resident number field names only', () => {
+      const [data] = generateFormMockData({ residentNo: {}, residentRegistrationNumber: {}, residentName: {} }, 1, 3);
+
+      expect(parseResidentNumber(data.residentNo).valid).toBe(true);
+      expect(parseResidentNumber(data.residentRegistrationNumber).valid).toBe(true);
+      expect(data.residentName).not.toMatch(/\d/);
+    });
+  });
+
+  describe('generateCreditCardNumber', () => {
+    it('should generate Luhn-valid numbers for each brand', () => {
+      const brands: CardBrand[] = ['visa', 'mastercard', 'amex', 'jcb', 'diners', 'discover', 'unionpay', 'bc', 'domestic'];
+      const random = createMockRandom(6);
+
+      brands.forEach((brand) => {
+        const result = validateCreditCard(generateCreditCardNumber(brand, random));
+        expect(result).toMatchObject({ valid: true, brand });
+      });
+    });
+
+    it('should format with brand-aware grouping', () => {
+      expect(generateCreditCardNumber('amex', createMockRandom(7))).toMatch(/^\d{4}-\d{6}-\d{5}$/);
+      expect(generateCreditCardNumber('visa', createMockRandom(7))).toMatch(/^\d{4}-\d{4}-\d{4}-\d{4}$/);
+    });
+
+    it('should match whole card number field names only', () => {
+      const [data] = generateFormMockData({ cardNo: {}, card: {}, cardHolderName: {} }, 1, 3);
+
+      expect(validateCreditCard(data.cardNo).valid).toBe(true);
+      expect(validateCreditCard(data.card).valid).toBe(true);
+      expect(data.cardHolderName).not.toMatch(/\d/);
+    });
+
+    it('should infer camelCase identifier field names', () => {
+      const [data] = generateFormMockData({ residentNumber: {}, creditCard: {}, bizNumber: {} }, 1, 4);
+
+      expect(parseResidentNumber(data.residentNumber).valid).toBe(true);
+      expect(validateCreditCard(data.creditCard).valid).toBe(true);
+      expect(validateBusinessNumber(data.bizNumber).valid).toBe(true);
+    });
+  });
+
+  describe('generateKoreanAddress', () => {
+    it('should generate a postal code consistent with the region', () => {
+      const random = createMockRandom(8);
+      for (let i = 0; i < 50; i++) {
+        const address = generateKoreanAddress({ withDetail: true }, random);
+        expect(getSidoByPostalCode(address.postalCode)).toBe(address.sido);
+      }
+    });
+
+    it('should generate parseable addresses', () => {
+      const random = createMockRandom(9);
+      for (let i = 0; i < 20; i++) {
+        const { address, postalCode, ...parts } = generateKoreanAddress({ withDetail: true }, random);
+        expect(parseAddress(address)).toEqual(parts);
+      }
+      expect(parseAddress(generateAddress(random))).not.toBeNull();
+    });
+
+    it('should respect the requested sido', () => {
+      const address = generateKoreanAddress({ sido: '제주특별자치도' }, createMockRandom(10));
+      expect(address.sido).toBe('제주특별자치도');
+      expect(address.postalCode.startsWith('63')).toBe(true);
+    });
+
+    it('should accept sido aliases and reject unknown names', () => {
+      expect(generateKoreanAddress({ sido: '서울' }, createMockRandom(11)).sido).toBe('서울특별시');
+      expect(generateKoreanAddress({ sido: '부산' }, createMockRandom(11)).sido).toBe('부산광역시');
+      expect(() => generateKoreanAddress({ sido: '서울랜드' })).toThrow('Unknown sido');
+    });
+
+    it('should generate a postal code consistent with the sigungu', () => {
+      const random = createMockRandom(12);
+      for (let i = 0; i < 50; i++) {
+        const { sido, sigungu, postalCode } = generateKoreanAddress({ sido: '서울' }, random);
+        const region = sidoRegions.find(({ name }) => name === sido)!;
+        const prefix = region.sigungu.find(({ name }) => name === sigungu)!.postalPrefix;
+        expect(postalCode.startsWith(prefix)).toBe(true);
+      }
+    });
+  });
+});
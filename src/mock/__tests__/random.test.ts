@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createMockRandom, getMockRandom, setMockRandom } from '../random';
+import { generateKoreanName, generateNumber, generateKoreanText, generateDate } from '../generators';
+import { generateFormMockData } from '../form';
+
+describe('Mock Random', () => {
+  afterEach(() => {
+    setMockRandom(null);
+    vi.useRealTimers();
+  });
+
+  describe('createMockRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createMockRandom(42);
+      const b = createMockRandom(42);
+      const seqA = Array.from({ length: 5 }, () => a.next());
+      const seqB = Array.from({ length: 5 }, () => b.next());
+
+      expect(seqA).toEqual(seqB);
+      seqA.forEach((n) => {
+        expect(n).toBeGreaterThanOrEqual(0);
+        expect(n).toBeLessThan(1);
+      });
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      expect(createMockRandom(1).next()).not.toBe(createMockRandom(2).next());
+    });
+
+    it('should accept string seeds', () => {
+      expect(createMockRandom('storybook').next()).toBe(createMockRandom('storybook').next());
+    });
+
+    it('should keep int within range', () => {
+      const random = createMockRandom(7);
+      for (let i = 0; i < 100; i++) {
+        const n = random.int(3, 5);
+        expect(n).toBeGreaterThanOrEqual(3);
+        expect(n).toBeLessThanOrEqual(5);
+      }
+    });
+  });
+
+  describe('generators', () => {
+    it('should reproduce values with a seeded source', () => {
+      expect(generateKoreanName('random', createMockRandom(1))).toBe(
+        generateKoreanName('random', createMockRandom(1))
+      );
+      expect(generateNumber(0, 1000, createMockRandom(1))).toBe(generateNumber(0, 1000, createMockRandom(1)));
+      expect(generateKoreanText(10, createMockRandom(1))).toBe(generateKoreanText(10, createMockRandom(1)));
+    });
+  });
+
+  describe('setMockRandom', () => {
+    it('should share a seeded source across generators', () => {
+      setMockRandom(99);
+      const first = [generateKoreanName(), generateNumber()];
+      setMockRandom(99);
+      const second = [generateKoreanName(), generateNumber()];
+
+      expect(first).toEqual(second);
+    });
+
+    it('should restore the default source with null', () => {
+      const seeded = createMockRandom(1);
+      setMockRandom(seeded);
+      expect(getMockRandom()).toBe(seeded);
+
+      setMockRandom(null);
+      expect(getMockRandom()).not.toBe(seeded);
+    });
+  });
+
+  describe('generateFormMockData', () => {
+    it('should reproduce the same dataset for the same seed', () => {
+      const schema = {
+        name: 'text',
+        email: 'email',
+        phone: 'tel',
+        age: { type: 'number', min: 18, max: 80 },
+        role: { enum: ['admin', 'user'] },
+      };
+
+      expect(generateFormMockData(schema, 3, 'seed')).toEqual(generateFormMockData(schema, 3, 'seed'));
+    });
+
+    it('should not depend on the current date', () => {
+      const schema = { createdAt: 'date', birthDate: 'date' };
+
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+      const before = [generateFormMockData(schema, 3, 'seed'), generateDate(undefined, undefined, createMockRandom(1))];
+      vi.setSystemTime(new Date('2030-06-15T00:00:00Z'));
+      const after = [generateFormMockData(schema, 3, 'seed'), generateDate(undefined, undefined, createMockRandom(1))];
+
+      expect(after).toEqual(before);
+      expect(generateDate('2024-03-01', '2024-03-01', createMockRandom(1))).toBe('2024-03-01');
+    });
+
+    it('should default to the past year of the source base date', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2030-06-15T00:00:00Z'));
+
+      expect(generateDate() >= '2029-06-15' && generateDate() <= '2030-06-15').toBe(true);
+      expect(generateDate(undefined, undefined, createMockRandom(1, { baseDate: '2020-01-01' }))).toMatch(/^2019-/);
+    });
+  });
+});
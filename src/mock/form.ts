@@ -10,6 +10,10 @@ import {
   generateEmail,
   generatePhoneNumber,
   generateAddress,
+  generatePostalCode,
+  generateBusinessNumber,
+  generateResidentNumber,
+  generateCreditCardNumber,
   generateDate,
   generateNumber,
   generateKoreanText,
@@ -17,70 +21,74 @@ import {
   generateBoolean,
   generateFromArray,
 } from './generators';
+import { MockRandom, createMockRandom, getMockRandom } from './random';
 
 /**
  * 필드 타입별 mock 데이터 생성 맵핑
  */
-const fieldTypeMap: Record<string, (fieldName: string, options?: any) => any> = {
+const fieldTypeMap: Record<string, (random: MockRandom, fieldName: string, options?: any) => any> = {
   // 이름 관련
-  name: () => generateKoreanName(),
-  username: () => generateEnglishName().toLowerCase().replace(/\s/g, ''),
-  fullName: () => generateKoreanName(),
-  firstName: () => generateKoreanName().substring(1),
-  lastName: () => generateKoreanName().substring(0, 1),
+  name: (random) => generateKoreanName('random', random),
+  username: (random) => generateEnglishName('random', random).toLowerCase().replace(/\s/g, ''),
+  fullName: (random) => generateKoreanName('random', random),
+  firstName: (random) => generateKoreanName('random', random).substring(1),
+  lastName: (random) => generateKoreanName('random', random).substring(0, 1),
   
   // 연락처 관련
-  email: (fieldName: string) => generateEmail(),
-  phone: () => generatePhoneNumber(),
-  phoneNumber: () => generatePhoneNumber(),
-  mobile: () => generatePhoneNumber(),
-  tel: () => generatePhoneNumber(),
+  email: (random) => generateEmail(undefined, undefined, random),
+  phone: (random) => generatePhoneNumber(random),
+  phoneNumber: (random) => generatePhoneNumber(random),
+  mobile: (random) => generatePhoneNumber(random),
+  tel: (random) => generatePhoneNumber(random),
   
   // 주소 관련
-  address: () => generateAddress(),
-  zipCode: () => String(generateNumber(10000, 99999)),
-  postalCode: () => String(generateNumber(10000, 99999)),
+  address: (random) => generateAddress(random),
+  zipCode: (random) => generatePostalCode(random),
+  postalCode: (random) => generatePostalCode(random),
   
   // 날짜 관련
-  date: () => generateDate(),
-  birthDate: () => generateDate('1950-01-01', '2010-12-31'),
-  birthday: () => generateDate('1950-01-01', '2010-12-31'),
+  date: (random) => generateDate(undefined, undefined, random),
+  birthDate: (random) => generateDate('1950-01-01', '2010-12-31', random),
+  birthday: (random) => generateDate('1950-01-01', '2010-12-31', random),
   
   // 숫자 관련
-  age: () => generateNumber(18, 80),
-  price: () => generateNumber(1000, 1000000),
-  amount: () => generateNumber(1, 1000),
-  quantity: () => generateNumber(1, 100),
-  count: () => generateNumber(0, 100),
+  age: (random) => generateNumber(18, 80, random),
+  price: (random) => generateNumber(1000, 1000000, random),
+  amount: (random) => generateNumber(1, 1000, random),
+  quantity: (random) => generateNumber(1, 100, random),
+  count: (random) => generateNumber(0, 100, random),
   
   // 텍스트 관련
-  title: () => generateKoreanText(10),
-  content: () => generateKoreanText(50),
-  description: () => generateKoreanText(30),
-  message: () => generateKoreanText(20),
-  comment: () => generateKoreanText(15),
-  note: () => generateKoreanText(20),
+  title: (random) => generateKoreanText(10, random),
+  content: (random) => generateKoreanText(50, random),
+  description: (random) => generateKoreanText(30, random),
+  message: (random) => generateKoreanText(20, random),
+  comment: (random) => generateKoreanText(15, random),
+  note: (random) => generateKoreanText(20, random),
   
   // 불린 관련
-  isActive: () => generateBoolean(),
-  enabled: () => generateBoolean(),
-  checked: () => generateBoolean(),
-  agree: () => generateBoolean(),
-  accept: () => generateBoolean(),
+  isActive: (random) => generateBoolean(random),
+  enabled: (random) => generateBoolean(random),
+  checked: (random) => generateBoolean(random),
+  agree: (random) => generateBoolean(random),
+  accept: (random) => generateBoolean(random),
   
   // 기본값
-  default: (fieldName: string) => {
+  default: (random, fieldName) => {
     // 필드명에 따라 추론
     const lowerName = fieldName.toLowerCase();
-    if (lowerName.includes('email')) return generateEmail();
-    if (lowerName.includes('phone') || lowerName.includes('tel') || lowerName.includes('mobile')) return generatePhoneNumber();
-    if (lowerName.includes('name')) return generateKoreanName();
-    if (lowerName.includes('address')) return generateAddress();
-    if (lowerName.includes('date') || lowerName.includes('birth')) return generateDate();
-    if (lowerName.includes('age') || lowerName.includes('count') || lowerName.includes('quantity')) return generateNumber(1, 100);
-    if (lowerName.includes('price') || lowerName.includes('amount') || lowerName.includes('cost')) return generateNumber(1000, 100000);
-    if (lowerName.includes('is') || lowerName.includes('has') || lowerName.includes('can')) return generateBoolean();
-    return generateKoreanText(10);
+    if (lowerName.includes('email')) return generateEmail(undefined, undefined, random);
+    if (lowerName.includes('phone') || lowerName.includes('tel') || lowerName.includes('mobile')) return generatePhoneNumber(random);
+    if (/^resident(reg(istration)?)?(number|num|no|id)$|^rrn$/.test(lowerName)) return generateResidentNumber(undefined, random);
+    if (/^(credit)?card(number|num|no)?$/.test(lowerName)) return generateCreditCardNumber(undefined, random);
+    if (/^(business|biz)(reg(istration)?)?(number|num|no|id)$|^brn$/.test(lowerName)) return generateBusinessNumber(undefined, random);
+    if (lowerName.includes('name')) return generateKoreanName('random', random);
+    if (lowerName.includes('address')) return generateAddress(random);
+    if (lowerName.includes('date') || lowerName.includes('birth')) return generateDate(undefined, undefined, random);
+    if (lowerName.includes('age') || lowerName.includes('count') || lowerName.includes('quantity')) return generateNumber(1, 100, random);
+    if (lowerName.includes('price') || lowerName.includes('amount') || lowerName.includes('cost')) return generateNumber(1000, 100000, random);
+    if (lowerName.includes('is') || lowerName.includes('has') || lowerName.includes('can')) return generateBoolean(random);
+    return generateKoreanText(10, random);
   },
 };
 
@@ -89,31 +97,33 @@ const fieldTypeMap: Record<string, (fieldName: string, options?: any) => any> =
  * @param fieldName - 필드 이름
  * @param fieldType - 필드 타입 (선택)
  * @param options - 추가 옵션
+ * @param random - 난수 소스
  * @returns 생성된 mock 데이터
  */
-function inferAndGenerate(fieldName: string, fieldType?: string, options?: any): any {
+function inferAndGenerate(fieldName: string, random: MockRandom, fieldType?: string, options?: any): any {
   const lowerName = fieldName.toLowerCase();
   const lowerType = fieldType?.toLowerCase() || '';
 
   // 타입 기반 생성
-  if (lowerType.includes('email')) return generateEmail();
-  if (lowerType.includes('tel') || lowerType.includes('phone')) return generatePhoneNumber();
-  if (lowerType.includes('date')) return generateDate();
-  if (lowerType.includes('number') || lowerType.includes('int')) return generateNumber(options?.min, options?.max);
-  if (lowerType.includes('boolean') || lowerType.includes('bool')) return generateBoolean();
+  if (lowerType.includes('email')) return generateEmail(undefined, undefined, random);
+  if (lowerType.includes('tel') || lowerType.includes('phone')) return generatePhoneNumber(random);
+  if (lowerType.includes('date')) return generateDate(undefined, undefined, random);
+  if (lowerType.includes('number') || lowerType.includes('int')) return generateNumber(options?.min, options?.max, random);
+  if (lowerType.includes('boolean') || lowerType.includes('bool')) return generateBoolean(random);
   if (lowerType.includes('text') || lowerType.includes('string')) {
-    return options?.maxLength ? generateKoreanText(Math.min(options.maxLength, 50)) : generateKoreanText(10);
+    return options?.maxLength ? generateKoreanText(Math.min(options.maxLength, 50), random) : generateKoreanText(10, random);
   }
 
   // 필드명 기반 생성
   const generator = fieldTypeMap[lowerName] || fieldTypeMap.default;
-  return generator(fieldName, options);
+  return generator(random, fieldName, options);
 }
 
 /**
  * 폼 스키마로부터 mock 데이터 생성
  * @param schema - 폼 스키마 (필드명과 타입 정보)
  * @param count - 생성할 데이터 개수 (기본값: 1)
+ * @param random - 난수 소스 또는 seed (기본값: 공유 난수 소스)
  * @returns 생성된 mock 데이터 배열
  *
  * @example
@@ -129,12 +139,18 @@ function inferAndGenerate(fieldName: string, fieldType?: string, options?: any):
  *   email: 'email',
  *   phone: 'tel'
  * }, 5) // 5개의 mock 데이터 배열
+ *
+ * @example
+ * // 같은 seed는 항상 같은 데이터 생성
+ * generateFormMockData({ name: 'text', email: 'email' }, 3, 42)
  */
 export function generateFormMockData(
   schema: Record<string, any>,
-  count: number = 1
+  count: number = 1,
+  random: MockRandom | number | string = getMockRandom()
 ): Record<string, any>[] {
   const results: Record<string, any>[] = [];
+  const source = typeof random === 'object' ? random : createMockRandom(random);
 
   for (let i = 0; i < count; i++) {
     const data: Record<string, any> = {};
@@ -142,23 +158,23 @@ export function generateFormMockData(
     for (const [fieldName, fieldConfig] of Object.entries(schema)) {
       if (typeof fieldConfig === 'string') {
         // 간단한 타입 문자열인 경우
-        data[fieldName] = inferAndGenerate(fieldName, fieldConfig);
+        data[fieldName] = inferAndGenerate(fieldName, source, fieldConfig);
       } else if (typeof fieldConfig === 'object' && fieldConfig !== null) {
         // 객체 형태인 경우
         if (fieldConfig.type) {
-          data[fieldName] = inferAndGenerate(fieldName, fieldConfig.type, fieldConfig);
+          data[fieldName] = inferAndGenerate(fieldName, source, fieldConfig.type, fieldConfig);
         } else if (fieldConfig.enum) {
           // enum 값이 있는 경우
-          data[fieldName] = generateFromArray(fieldConfig.enum);
+          data[fieldName] = generateFromArray(fieldConfig.enum, source);
         } else if (fieldConfig.default !== undefined) {
           // default 값이 있는 경우
           data[fieldName] = fieldConfig.default;
         } else {
-          data[fieldName] = inferAndGenerate(fieldName, undefined, fieldConfig);
+          data[fieldName] = inferAndGenerate(fieldName, source, undefined, fieldConfig);
         }
       } else {
         // 그 외의 경우 필드명으로 추론
-        data[fieldName] = inferAndGenerate(fieldName);
+        data[fieldName] = inferAndGenerate(fieldName, source);
       }
     }
 
@@ -172,6 +188,7 @@ export function generateFormMockData(
  * react-hook-form의 defaultValues로부터 mock 데이터 생성
  * @param defaultValues - react-hook-form의 defaultValues
  * @param count - 생성할 데이터 개수 (기본값: 1)
+ * @param random - 난수 소스 또는 seed (기본값: 공유 난수 소스)
  * @returns 생성된 mock 데이터 배열
  *
  * @example
@@ -183,7 +200,8 @@ export function generateFormMockData(
  */
 export function generateFromDefaultValues(
   defaultValues: Record<string, any>,
-  count: number = 1
+  count: number = 1,
+  random: MockRandom | number | string = getMockRandom()
 ): Record<string, any>[] {
   const schema: Record<string, any> = {};
 
@@ -206,5 +224,5 @@ export function generateFromDefaultValues(
     }
   }
 
-  return generateFormMockData(schema, count);
+  return generateFormMockData(schema, count, random);
 }
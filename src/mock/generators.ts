@@ -2,27 +2,38 @@
  * Mock Data Generators
  *
  * 폼 필드 타입에 맞는 mock 데이터 생성 유틸리티
+ * 모든 생성기는 마지막 인자로 MockRandom을 받으며, 생략하면 공유 난수 소스를 사용합니다.
  */
 
+import { MockRandom, getMockRandom } from './random';
+import { BusinessType, calculateBusinessNumberCheckDigit } from '../form/validation';
+import { formatBusinessNumber, formatCreditCard } from '../form/formatter';
+import { CardBrand, getCardBrandInfo, calculateLuhnCheckDigit, detectCardBrand } from '../form/card';
+import { calculateResidentNumberCheckDigit, getResidentGenderDigit } from '../form/resident';
+import { ParsedAddress, formatAddress, normalizeSido } from '../address/parse';
+import { sidoRegions } from '../address/regions';
+
 /**
  * 한국어 이름 생성
  * @param gender - 성별 ('male' | 'female' | 'random', 기본값: 'random')
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 한국어 이름
  *
  * @example
  * generateKoreanName() // "김민수"
  * generateKoreanName('female') // "이지은"
  */
-export function generateKoreanName(gender: 'male' | 'female' | 'random' = 'random'): string {
+export function generateKoreanName(
+  gender: 'male' | 'female' | 'random' = 'random',
+  random: MockRandom = getMockRandom()
+): string {
   const surnames = ['김', '이', '박', '최', '정', '강', '조', '윤', '장', '임', '한', '오', '서', '신', '권', '황', '안', '송', '전', '홍'];
   const maleNames = ['민수', '준호', '성호', '지훈', '현우', '동현', '민준', '건우', '준영', '상우', '영수', '성민', '준혁', '태현', '승현'];
   const femaleNames = ['지은', '수진', '미영', '혜진', '은지', '서연', '민지', '예은', '지원', '유진', '소영', '지현', '수빈', '하은', '서윤'];
 
-  const surname = surnames[Math.floor(Math.random() * surnames.length)];
-  const selectedGender = gender === 'random' ? (Math.random() > 0.5 ? 'male' : 'female') : gender;
-  const name = selectedGender === 'male'
-    ? maleNames[Math.floor(Math.random() * maleNames.length)]
-    : femaleNames[Math.floor(Math.random() * femaleNames.length)];
+  const surname = random.pick(surnames);
+  const selectedGender = gender === 'random' ? (random.bool() ? 'male' : 'female') : gender;
+  const name = selectedGender === 'male' ? random.pick(maleNames) : random.pick(femaleNames);
 
   return `${surname}${name}`;
 }
@@ -30,22 +41,24 @@ export function generateKoreanName(gender: 'male' | 'female' | 'random' = 'rando
 /**
  * 영어 이름 생성
  * @param gender - 성별 ('male' | 'female' | 'random', 기본값: 'random')
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 영어 이름
  *
  * @example
  * generateEnglishName() // "John Smith"
  * generateEnglishName('female') // "Emily Johnson"
  */
-export function generateEnglishName(gender: 'male' | 'female' | 'random' = 'random'): string {
+export function generateEnglishName(
+  gender: 'male' | 'female' | 'random' = 'random',
+  random: MockRandom = getMockRandom()
+): string {
   const maleFirstNames = ['James', 'John', 'Robert', 'Michael', 'William', 'David', 'Richard', 'Joseph', 'Thomas', 'Christopher'];
   const femaleFirstNames = ['Mary', 'Patricia', 'Jennifer', 'Linda', 'Elizabeth', 'Barbara', 'Susan', 'Jessica', 'Sarah', 'Karen'];
   const lastNames = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez'];
 
-  const selectedGender = gender === 'random' ? (Math.random() > 0.5 ? 'male' : 'female') : gender;
-  const firstName = selectedGender === 'male'
-    ? maleFirstNames[Math.floor(Math.random() * maleFirstNames.length)]
-    : femaleFirstNames[Math.floor(Math.random() * femaleFirstNames.length)];
-  const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
+  const selectedGender = gender === 'random' ? (random.bool() ? 'male' : 'female') : gender;
+  const firstName = selectedGender === 'male' ? random.pick(maleFirstNames) : random.pick(femaleFirstNames);
+  const lastName = random.pick(lastNames);
 
   return `${firstName} ${lastName}`;
 }
@@ -54,13 +67,18 @@ export function generateEnglishName(gender: 'male' | 'female' | 'random' = 'rand
  * 이메일 생성
  * @param name - 이름 (선택, 없으면 랜덤 생성)
  * @param domain - 도메인 (기본값: 'example.com')
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 이메일 주소
  *
  * @example
  * generateEmail() // "user123@example.com"
  * generateEmail('홍길동') // "honggildong@example.com"
  */
-export function generateEmail(name?: string, domain: string = 'example.com'): string {
+export function generateEmail(
+  name?: string,
+  domain: string = 'example.com',
+  random: MockRandom = getMockRandom()
+): string {
   if (name) {
     // 한글 이름을 영문으로 변환 (간단한 변환)
     const nameMap: Record<string, string> = {
@@ -76,67 +94,238 @@ export function generateEmail(name?: string, domain: string = 'example.com'): st
       .substring(0, 20) || 'user';
     
     if (emailName.length < 3) emailName = 'user';
-    return `${emailName}${Math.floor(Math.random() * 1000)}@${domain}`;
+    return `${emailName}${random.int(0, 999)}@${domain}`;
   }
 
-  const randomString = Math.random().toString(36).substring(2, 10);
+  const randomString = random.next().toString(36).substring(2, 10);
   return `${randomString}@${domain}`;
 }
 
 /**
  * 전화번호 생성 (한국 형식)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 전화번호 (010-1234-5678 형식)
  *
  * @example
  * generatePhoneNumber() // "010-1234-5678"
  */
-export function generatePhoneNumber(): string {
+export function generatePhoneNumber(random: MockRandom = getMockRandom()): string {
   const prefixes = ['010', '011', '016', '017', '018', '019'];
-  const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-  const middle = Math.floor(Math.random() * 9000) + 1000;
-  const last = Math.floor(Math.random() * 9000) + 1000;
+  const prefix = random.pick(prefixes);
+  const middle = random.int(1000, 9999);
+  const last = random.int(1000, 9999);
   return `${prefix}-${middle}-${last}`;
 }
 
+/**
+ * 사업자 유형별 구분코드 후보
+ */
+const businessTypeCodes: Record<BusinessType, number[]> = {
+  individual: Array.from({ length: 79 }, (_, i) => i + 1),
+  individualTaxFree: [90, 91, 92, 93, 94, 95, 96, 97, 98, 99],
+  corporation: [81, 86, 87, 88],
+  nonProfit: [82],
+  government: [83],
+  foreignCorporation: [84],
+  corporationBranch: [85],
+  religious: [89],
+};
+
+/**
+ * 사업자등록번호 생성 (국세청 검증번호가 맞는 번호)
+ * @param businessType - 사업자 유형 (기본값: 개인 과세사업자 또는 영리법인 중 랜덤)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
+ * @returns 사업자등록번호 (123-45-67890 형식)
+ *
+ * @example
+ * generateBusinessNumber() // "214-86-13572"
+ * generateBusinessNumber('individual') // "105-23-40018"
+ */
+export function generateBusinessNumber(
+  businessType?: BusinessType,
+  random: MockRandom = getMockRandom()
+): string {
+  const type = businessType ?? (random.bool() ? 'individual' : 'corporation');
+  const office = random.int(101, 899);
+  const typeCode = String(random.pick(businessTypeCodes[type])).padStart(2, '0');
+  const serial = String(random.int(0, 9999)).padStart(4, '0');
+  const body = `${office}${typeCode}${serial}`;
+
+  return formatBusinessNumber(`${body}${calculateBusinessNumberCheckDigit(body)}`);
+}
+
+/**
+ * 주민등록번호 생성 (검증번호가 맞는 번호)
+ * @param options - 성별, 외국인 여부, 생년월일 범위 (YYYY-MM-DD)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
+ * @returns 주민등록번호 (900101-1234568 형식)
+ *
+ * @example
+ * generateResidentNumber() // "870312-2048173"
+ * generateResidentNumber({ gender: 'male', foreigner: true }) // "930725-5123459"
+ */
+export function generateResidentNumber(
+  options: {
+    gender?: 'male' | 'female' | 'random';
+    foreigner?: boolean;
+    startDate?: string;
+    endDate?: string;
+  } = {},
+  random: MockRandom = getMockRandom()
+): string {
+  const { gender = 'random', foreigner = false, startDate = '1950-01-01', endDate = '2010-12-31' } = options;
+
+  const birthDate = generateDate(startDate, endDate, random);
+  const year = Number(birthDate.slice(0, 4));
+  const century = (Math.floor(year / 100) * 100) as 1800 | 1900 | 2000;
+  const selectedGender = gender === 'random' ? (random.bool() ? 'male' : 'female') : gender;
+
+  const front = birthDate.slice(2).replace(/-/g, '');
+  const back = `${getResidentGenderDigit(selectedGender, century, foreigner)}${String(random.int(0, 99999)).padStart(5, '0')}`;
+
+  return `${front}-${back}${calculateResidentNumberCheckDigit(front + back)}`;
+}
+
+/**
+ * 카드번호 생성 (Luhn 검증을 통과하는 테스트용 번호)
+ * @param brand - 카드 브랜드 (기본값: 'visa')
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
+ * @returns 브랜드별 그룹으로 포맷팅된 카드번호
+ *
+ * @example
+ * generateCreditCardNumber() // "4539-1488-0343-6467"
+ * generateCreditCardNumber('amex') // "3714-496353-98431"
+ */
+export function generateCreditCardNumber(
+  brand: CardBrand = 'visa',
+  random: MockRandom = getMockRandom()
+): string {
+  const { patterns, lengths } = getCardBrandInfo(brand);
+  const length = lengths.includes(16) ? 16 : lengths[0];
+  let body = '';
+
+  // 다른 브랜드의 BIN과 겹치면 다시 생성 (예: 'domestic'의 9 중 BC카드 943)
+  do {
+    const pattern = random.pick(patterns);
+    body = typeof pattern === 'number' ? String(pattern) : String(random.int(pattern[0], pattern[1]));
+    while (body.length < length - 1) {
+      body += random.int(0, 9);
+    }
+  } while (detectCardBrand(body) !== brand);
+
+  return formatCreditCard(`${body}${calculateLuhnCheckDigit(body)}`);
+}
+
+/**
+ * 구조화된 mock 주소
+ */
+export interface MockAddress extends ParsedAddress {
+  /** 시/군/구와 일치하는 5자리 우편번호 */
+  postalCode: string;
+  /** 전체 주소 문자열 */
+  address: string;
+}
+
+/**
+ * 구조화된 도로명 주소 생성 (우편번호가 시/군/구와 일치)
+ * @param options - 시/도 (정식 명칭 또는 '서울', '경기' 같은 약칭, 알 수 없는 명칭이면 에러), 상세주소 포함 여부
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
+ * @returns 구조화된 주소
+ *
+ * @example
+ * generateKoreanAddress()
+ * // { type: 'road', postalCode: '06236', sido: '서울특별시', sigungu: '강남구', road: '테헤란로',
+ * //   buildingNumber: '123', detail: '', address: '서울특별시 강남구 테헤란로 123', ... }
+ *
+ * @example
+ * generateKoreanAddress({ sido: '부산', withDetail: true }).address
+ * // "부산광역시 해운대구 중앙로 45, 302호"
+ */
+export function generateKoreanAddress(
+  options: { sido?: string; withDetail?: boolean } = {},
+  random: MockRandom = getMockRandom()
+): MockAddress {
+  const seoulRoads = ['테헤란로', '강남대로', '서초대로', '반포대로', '한강대로', '을지로', '종로', '명동길', '이태원로'];
+  const roads = ['중앙로', '시청로', '번영로', '문화로', '평화로', '공원로', '역전로', '대학로'];
+
+  const sido = options.sido ? normalizeSido(options.sido) : null;
+  if (options.sido && !sido) throw new Error(`Unknown sido: ${options.sido}`);
+
+  const region = sido ? sidoRegions.find(({ name }) => name === sido)! : random.pick(sidoRegions);
+
+  // 시/군/구가 없는 지역(세종)은 시/도 범위에서 앞 세 자리를 고름
+  const [start, end] = region.postalRange;
+  const sigungu = region.sigungu.length ? random.pick(region.sigungu) : null;
+  const postalPrefix = sigungu?.postalPrefix ?? String(random.int(start * 10, end * 10 + 9)).padStart(3, '0');
+
+  const parsed: ParsedAddress = {
+    type: 'road',
+    sido: region.name,
+    sigungu: sigungu?.name ?? '',
+    road: random.pick(region.name === '서울특별시' ? seoulRoads : roads),
+    buildingNumber: String(random.int(1, 999)),
+    underground: false,
+    detail: options.withDetail ? `${random.int(1, 20)}${String(random.int(1, 4)).padStart(2, '0')}호` : '',
+  };
+
+  return {
+    ...parsed,
+    postalCode: `${postalPrefix}${String(random.int(0, 99)).padStart(2, '0')}`,
+    address: formatAddress(parsed),
+  };
+}
+
 /**
  * 주소 생성 (한국 형식)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 한국 주소
  *
  * @example
  * generateAddress() // "서울특별시 강남구 테헤란로 123"
  */
-export function generateAddress(): string {
-  const cities = ['서울특별시', '부산광역시', '대구광역시', '인천광역시', '광주광역시', '대전광역시', '울산광역시'];
-  const districts = ['강남구', '강동구', '강북구', '강서구', '관악구', '광진구', '구로구', '금천구', '노원구', '도봉구'];
-  const streets = ['테헤란로', '강남대로', '서초대로', '올림픽대로', '반포대로', '한강대로', '을지로', '종로', '명동길', '이태원로'];
-  
-  const city = cities[Math.floor(Math.random() * cities.length)];
-  const district = districts[Math.floor(Math.random() * districts.length)];
-  const street = streets[Math.floor(Math.random() * streets.length)];
-  const number = Math.floor(Math.random() * 999) + 1;
+export function generateAddress(random: MockRandom = getMockRandom()): string {
+  return generateKoreanAddress(undefined, random).address;
+}
 
-  return `${city} ${district} ${street} ${number}`;
+/**
+ * 우편번호 생성 (5자리, 실제 시/도 범위 내)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
+ * @returns 우편번호
+ *
+ * @example
+ * generatePostalCode() // "06236"
+ */
+export function generatePostalCode(random: MockRandom = getMockRandom()): string {
+  return generateKoreanAddress(undefined, random).postalCode;
 }
 
 /**
  * 날짜 생성 (범위 내)
- * @param startDate - 시작 날짜 (기본값: 1년 전)
+ * 기본 범위는 난수 소스의 '오늘'(random.now) 기준 최근 1년입니다.
+ * seed 난수 소스는 '오늘'이 고정되어 있어 언제 실행해도 같은 날짜를 만듭니다.
+ * 날짜는 UTC 기준으로 계산하므로 실행 환경의 시간대와도 관계없습니다.
+ * @param startDate - 시작 날짜 (기본값: 종료 날짜의 1년 전)
  * @param endDate - 종료 날짜 (기본값: 오늘)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 날짜 문자열 (YYYY-MM-DD)
  *
  * @example
- * generateDate() // "2023-06-15"
- * generateDate('2024-01-01', '2024-12-31') // "2024-08-20"
+ * generateDate() // "2025-06-15" (최근 1년)
+ * generateDate('2020-01-01', '2020-12-31') // "2020-08-20"
  */
-export function generateDate(startDate?: string, endDate?: string): string {
-  const start = startDate ? new Date(startDate).getTime() : Date.now() - 365 * 24 * 60 * 60 * 1000;
-  const end = endDate ? new Date(endDate).getTime() : Date.now();
-  const randomTime = start + Math.random() * (end - start);
+export function generateDate(
+  startDate?: string,
+  endDate?: string,
+  random: MockRandom = getMockRandom()
+): string {
+  const end = endDate ? new Date(endDate).getTime() : (random.now?.() ?? Date.now());
+  const start = startDate ? new Date(startDate).getTime() : end - 365 * 24 * 60 * 60 * 1000;
+  const randomTime = start + random.next() * (end - start);
   const date = new Date(randomTime);
   
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
   
   return `${year}-${month}-${day}`;
 }
@@ -145,30 +334,36 @@ export function generateDate(startDate?: string, endDate?: string): string {
  * 숫자 생성 (범위 내)
  * @param min - 최소값 (기본값: 0)
  * @param max - 최대값 (기본값: 100)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 랜덤 숫자
  *
  * @example
  * generateNumber() // 42
  * generateNumber(1, 10) // 7
  */
-export function generateNumber(min: number = 0, max: number = 100): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function generateNumber(
+  min: number = 0,
+  max: number = 100,
+  random: MockRandom = getMockRandom()
+): number {
+  return random.int(min, max);
 }
 
 /**
  * 텍스트 생성 (한글)
  * @param length - 길이 (기본값: 10)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 랜덤 한글 텍스트
  *
  * @example
  * generateKoreanText() // "안녕하세요반갑습니다"
  * generateKoreanText(5) // "테스트데이터"
  */
-export function generateKoreanText(length: number = 10): string {
+export function generateKoreanText(length: number = 10, random: MockRandom = getMockRandom()): string {
   const chars = '가나다라마바사아자차카타파하거너더러머버서어저처커터퍼허고노도로모보소오조초코토포호구누두루무부수우주추쿠투푸후그느드르므브스으즈츠크트프흐기니디리미비시이지치키티피히';
   let result = '';
   for (let i = 0; i < length; i++) {
-    result += chars[Math.floor(Math.random() * chars.length)];
+    result += chars[random.int(0, chars.length - 1)];
   }
   return result;
 }
@@ -176,40 +371,43 @@ export function generateKoreanText(length: number = 10): string {
 /**
  * 텍스트 생성 (영문)
  * @param length - 길이 (기본값: 10)
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 랜덤 영문 텍스트
  *
  * @example
  * generateEnglishText() // "loremipsum"
  * generateEnglishText(5) // "testd"
  */
-export function generateEnglishText(length: number = 10): string {
+export function generateEnglishText(length: number = 10, random: MockRandom = getMockRandom()): string {
   const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
   let result = '';
   for (let i = 0; i < length; i++) {
-    result += chars[Math.floor(Math.random() * chars.length)];
+    result += chars[random.int(0, chars.length - 1)];
   }
   return result;
 }
 
 /**
  * 불린 값 생성
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 랜덤 boolean
  *
  * @example
  * generateBoolean() // true
  */
-export function generateBoolean(): boolean {
-  return Math.random() > 0.5;
+export function generateBoolean(random: MockRandom = getMockRandom()): boolean {
+  return random.bool();
 }
 
 /**
  * 배열에서 랜덤 선택
  * @param array - 선택할 배열
+ * @param random - 난수 소스 (기본값: 공유 난수 소스)
  * @returns 랜덤으로 선택된 요소
  *
  * @example
  * generateFromArray(['red', 'blue', 'green']) // "blue"
  */
-export function generateFromArray<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)];
+export function generateFromArray<T>(array: T[], random: MockRandom = getMockRandom()): T {
+  return random.pick(array);
 }
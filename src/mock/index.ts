@@ -4,6 +4,9 @@
  * 폼 필드 타입에 맞는 mock 데이터 생성 유틸리티
  */
 
+// Random source
+export * from './random';
+
 // Generators
 export * from './generators';
 
@@ -0,0 +1,121 @@
+/**
+ * Mock Random Source
+ *
+ * mock 데이터 생성기가 공유하는 난수 소스 (seed 지정 시 항상 같은 데이터 생성)
+ */
+
+/**
+ * mock 생성기에서 사용하는 난수 소스
+ */
+export interface MockRandom {
+  /** 0 이상 1 미만의 난수 */
+  next: () => number;
+  /** min 이상 max 이하의 정수 */
+  int: (min: number, max: number) => number;
+  /** 배열에서 임의의 요소 선택 */
+  pick: <T>(array: readonly T[]) => T;
+  /** 임의의 boolean */
+  bool: () => boolean;
+  /** '오늘' 기준 시각 (ms, 기본 날짜 범위 계산에 사용, 없으면 Date.now()) */
+  now?: () => number;
+}
+
+/**
+ * seed 난수 소스 옵션
+ */
+export interface MockRandomOptions {
+  /** '오늘'로 사용할 고정 시각 (기본값: 2025-01-01T00:00:00Z) */
+  baseDate?: Date | string | number;
+}
+
+const DEFAULT_BASE_DATE = Date.UTC(2025, 0, 1);
+
+/**
+ * 문자열 seed를 32비트 정수로 변환 (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 0~1 난수 함수로부터 MockRandom 생성
+ */
+function fromGenerator(next: () => number, now: () => number): MockRandom {
+  const int = (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min;
+
+  return {
+    next,
+    int,
+    pick: <T>(array: readonly T[]) => array[Math.floor(next() * array.length)],
+    bool: () => next() > 0.5,
+    now,
+  };
+}
+
+/**
+ * seed 기반 난수 소스 생성 (mulberry32)
+ * 같은 seed는 항상 같은 난수열을 만들고, '오늘'도 baseDate로 고정되어 실행 시점과 관계없이 같은 데이터를 만듭니다.
+ * @param seed - 숫자 또는 문자열 seed
+ * @param options - 기준 시각
+ * @returns MockRandom
+ *
+ * @example
+ * const random = createMockRandom(42);
+ * generateKoreanName('random', random) // 항상 같은 이름
+ *
+ * @example
+ * generateFormMockData({ name: 'text', email: 'email' }, 3, createMockRandom('storybook'))
+ *
+ * @example
+ * generateDate(undefined, undefined, createMockRandom(1, { baseDate: '2020-01-01' })) // 2019년 날짜
+ */
+export function createMockRandom(seed: number | string, options: MockRandomOptions = {}): MockRandom {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  const baseTime = options.baseDate === undefined ? DEFAULT_BASE_DATE : new Date(options.baseDate).getTime();
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return fromGenerator(next, () => baseTime);
+}
+
+const defaultRandom: MockRandom = fromGenerator(() => Math.random(), () => Date.now());
+
+let sharedRandom: MockRandom = defaultRandom;
+
+/**
+ * 생성기에 random을 넘기지 않았을 때 사용되는 공유 난수 소스 반환
+ */
+export function getMockRandom(): MockRandom {
+  return sharedRandom;
+}
+
+/**
+ * 모든 생성기가 공유하는 난수 소스 설정
+ * @param random - MockRandom 또는 seed (null이면 Math.random으로 복원)
+ *
+ * @example
+ * // 테스트 시작 시 seed 고정
+ * setMockRandom(1234);
+ * generateFormMockData({ name: 'text' }) // 매번 같은 결과
+ * setMockRandom(null);
+ */
+export function setMockRandom(random: MockRandom | number | string | null): void {
+  if (random === null) {
+    sharedRandom = defaultRandom;
+  } else if (typeof random === 'number' || typeof random === 'string') {
+    sharedRandom = createMockRandom(random);
+  } else {
+    sharedRandom = random;
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { deepEqual } from '../equal';
+
+describe('deepEqual', () => {
+  it('should compare primitives', () => {
+    expect(deepEqual(1, 1)).toBe(true);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual('a', 'b')).toBe(false);
+    expect(deepEqual(null, undefined)).toBe(false);
+  });
+
+  it('should compare nested objects and arrays', () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual([1, 2], { 0: 1, 1: 2 })).toBe(false);
+  });
+
+  it('should compare Dates, RegExps, Maps and Sets by content', () => {
+    expect(deepEqual(new Date('2024-01-01'), new Date('2024-01-01'))).toBe(true);
+    expect(deepEqual(new Date('2024-01-01'), new Date('2024-01-02'))).toBe(false);
+    expect(deepEqual(/a/g, /a/g)).toBe(true);
+    expect(deepEqual(/a/g, /a/i)).toBe(false);
+    expect(deepEqual(new Map([['a', { x: 1 }]]), new Map([['a', { x: 1 }]]))).toBe(true);
+    expect(deepEqual(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false);
+    expect(deepEqual(new Set([{ x: 1 }, 2]), new Set([2, { x: 1 }]))).toBe(true);
+    expect(deepEqual(new Set([1]), new Set([2]))).toBe(false);
+  });
+
+  it('should handle circular references', () => {
+    const a: Record<string, any> = { name: 'node' };
+    a.self = a;
+    const b: Record<string, any> = { name: 'node' };
+    b.self = b;
+
+    expect(deepEqual(a, b)).toBe(true);
+  });
+});
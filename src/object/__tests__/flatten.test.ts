@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { flattenObject, unflattenObject } from '../flatten';
+
+describe('Flatten & Unflatten Utilities', () => {
+  const nested = { user: { name: 'Kim', tags: ['a', 'b'], address: { city: '서울' } }, active: true };
+
+  describe('flattenObject', () => {
+    it('should flatten nested objects and arrays with dot paths', () => {
+      expect(flattenObject(nested)).toEqual({
+        'user.name': 'Kim',
+        'user.tags.0': 'a',
+        'user.tags.1': 'b',
+        'user.address.city': '서울',
+        active: true,
+      });
+    });
+
+    it('should keep arrays as values when arrays option is false', () => {
+      expect(flattenObject({ user: { tags: ['a'] } }, { arrays: false })).toEqual({ 'user.tags': ['a'] });
+    });
+
+    it('should support custom separators and keep empty containers and Dates', () => {
+      const date = new Date();
+      expect(flattenObject({ a: { b: {}, c: [], d: date } }, { separator: '/' })).toEqual({
+        'a/b': {},
+        'a/c': [],
+        'a/d': date,
+      });
+    });
+  });
+
+  describe('unflattenObject', () => {
+    it('should restore nested objects and arrays', () => {
+      expect(unflattenObject(flattenObject(nested))).toEqual(nested);
+    });
+
+    it('should support custom separators', () => {
+      expect(unflattenObject({ 'a/b': 1 }, { separator: '/' })).toEqual({ a: { b: 1 } });
+    });
+
+    it('should ignore prototype pollution keys', () => {
+      expect(unflattenObject({ '__proto__.polluted': true, a: 1 })).toEqual({ a: 1 });
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { deepClone, deepMerge } from '../merge';
+
+describe('Deep Clone & Merge Utilities', () => {
+  describe('deepClone', () => {
+    it('should copy nested objects and arrays', () => {
+      const original = { user: { name: 'Kim' }, tags: ['a', { b: 1 }] };
+      const copy = deepClone(original);
+
+      expect(copy).toEqual(original);
+      expect(copy.user).not.toBe(original.user);
+      expect(copy.tags[1]).not.toBe(original.tags[1]);
+    });
+
+    it('should copy Dates, RegExps, Maps and Sets', () => {
+      const original = {
+        date: new Date('2024-01-01'),
+        pattern: /a+/gi,
+        map: new Map([['key', { value: 1 }]]),
+        set: new Set([1, 2]),
+      };
+      const copy = deepClone(original);
+
+      expect(copy.date).not.toBe(original.date);
+      expect(copy.date.getTime()).toBe(original.date.getTime());
+      expect(copy.pattern).not.toBe(original.pattern);
+      expect(copy.pattern.flags).toBe('gi');
+      expect(copy.map.get('key')).toEqual({ value: 1 });
+      expect(copy.map.get('key')).not.toBe(original.map.get('key'));
+      expect(Array.from(copy.set)).toEqual([1, 2]);
+    });
+
+    it('should preserve circular references', () => {
+      const original: Record<string, any> = { name: 'root', children: [] };
+      original.self = original;
+      original.children.push({ parent: original });
+
+      const copy = deepClone(original);
+      expect(copy).not.toBe(original);
+      expect(copy.self).toBe(copy);
+      expect(copy.children[0].parent).toBe(copy);
+    });
+
+    it('should keep class instances by reference', () => {
+      class Point {
+        constructor(public x: number) {}
+      }
+      const point = new Point(1);
+      expect(deepClone({ point }).point).toBe(point);
+    });
+  });
+
+  describe('deepMerge', () => {
+    it('should merge nested objects without mutating', () => {
+      const target = { theme: { color: 'red', size: 1 }, name: 'A' };
+      const result = deepMerge(target, { theme: { size: 2 } });
+
+      expect(result).toEqual({ theme: { color: 'red', size: 2 }, name: 'A' });
+      expect(target.theme.size).toBe(1);
+      expect(result.theme).not.toBe(target.theme);
+    });
+
+    it('should ignore undefined source values', () => {
+      expect(deepMerge({ a: 1, b: 2 }, { a: undefined, b: null })).toEqual({ a: 1, b: null });
+
+      const result = deepMerge({ a: 1 }, { b: undefined, c: { d: undefined, e: 1 } });
+      expect(result).toEqual({ a: 1, c: { e: 1 } });
+      expect('b' in result).toBe(false);
+      expect('d' in result.c).toBe(false);
+      expect(deepMerge({ list: [1, 2] }, { list: [undefined, 3] }, { arrays: 'merge' })).toEqual({ list: [1, 3] });
+    });
+
+    it('should apply array strategies', () => {
+      const target = { tags: ['a', 'b'], items: [{ id: 1, qty: 1 }] };
+      const source = { tags: ['b', 'c'], items: [{ qty: 2 }] };
+
+      expect(deepMerge(target, source).tags).toEqual(['b', 'c']);
+      expect(deepMerge(target, source, { arrays: 'concat' }).tags).toEqual(['a', 'b', 'b', 'c']);
+      expect(deepMerge(target, source, { arrays: 'union' }).tags).toEqual(['a', 'b', 'c']);
+      expect(deepMerge(target, source, { arrays: 'merge' }).items).toEqual([{ id: 1, qty: 2 }]);
+    });
+
+    it('should ignore prototype pollution keys', () => {
+      const result = deepMerge({}, JSON.parse('{"__proto__": {"polluted": true}, "a": 1}'));
+      expect(result).toEqual({ a: 1 });
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { isPlainObject, pick, omit, mapKeys, mapValues } from '../transform';
+import { camelCase, snakeCase } from '../../string/case';
+
+describe('Object Transform Utilities', () => {
+  describe('isPlainObject', () => {
+    it('should detect plain objects only', () => {
+      expect(isPlainObject({ a: 1 })).toBe(true);
+      expect(isPlainObject(Object.create(null))).toBe(true);
+      expect(isPlainObject([])).toBe(false);
+      expect(isPlainObject(new Date())).toBe(false);
+      expect(isPlainObject(new Map())).toBe(false);
+      expect(isPlainObject(null)).toBe(false);
+    });
+  });
+
+  describe('pick / omit', () => {
+    const user = { id: 1, name: 'Kim', password: 'secret' };
+
+    it('should pick the given keys', () => {
+      expect(pick(user, ['id', 'name'])).toEqual({ id: 1, name: 'Kim' });
+    });
+
+    it('should omit the given keys without mutating', () => {
+      expect(omit(user, ['password'])).toEqual({ id: 1, name: 'Kim' });
+      expect(user.password).toBe('secret');
+    });
+  });
+
+  describe('mapKeys', () => {
+    const payload = { user_name: 'Kim', user_info: { created_at: '2024-01-01' }, order_items: [{ item_id: 1 }] };
+
+    it('should transform top-level keys only by default', () => {
+      expect(mapKeys(payload, (key) => camelCase(key))).toEqual({
+        userName: 'Kim',
+        userInfo: { created_at: '2024-01-01' },
+        orderItems: [{ item_id: 1 }],
+      });
+    });
+
+    it('should transform nested keys with deep option', () => {
+      const camelized = mapKeys(payload, (key) => camelCase(key), { deep: true });
+      expect(camelized).toEqual({
+        userName: 'Kim',
+        userInfo: { createdAt: '2024-01-01' },
+        orderItems: [{ itemId: 1 }],
+      });
+      expect(mapKeys(camelized, (key) => snakeCase(key), { deep: true })).toEqual(payload);
+    });
+
+    it('should keep Dates as values', () => {
+      const date = new Date();
+      expect(mapKeys({ created_at: date }, (key) => camelCase(key), { deep: true }).createdAt).toBe(date);
+    });
+  });
+
+  describe('mapValues', () => {
+    it('should transform values with keys', () => {
+      expect(mapValues({ a: 1, b: 2 }, (value) => value * 10)).toEqual({ a: 10, b: 20 });
+      expect(mapValues({ a: 1 }, (value, key) => `${key}=${value}`)).toEqual({ a: 'a=1' });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Deep Equality Utilities
+ */
+
+import { isPlainObject } from './transform';
+
+function isEqualValue(a: unknown, b: unknown, seen: WeakMap<object, object>): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  // 순환 참조: 이미 비교 중인 쌍이면 같은 것으로 간주
+  if (seen.get(a) === b) return true;
+  seen.set(a, b);
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+  if (a instanceof RegExp) return String(a) === String(b);
+
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => isEqualValue(item, other[i], seen));
+  }
+
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) return false;
+    return Array.from(a.keys()).every((key) => other.has(key) && isEqualValue(a.get(key), other.get(key), seen));
+  }
+
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    if (a.size !== other.size) return false;
+    const rest = Array.from(other);
+    return Array.from(a).every((item) => {
+      const index = rest.findIndex((candidate) => isEqualValue(item, candidate, seen));
+      if (index === -1) return false;
+      rest.splice(index, 1);
+      return true;
+    });
+  }
+
+  if (isPlainObject(a)) {
+    const other = b as Record<string, unknown>;
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(other).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(other, key) && isEqualValue(a[key], other[key], seen))
+    );
+  }
+
+  return false;
+}
+
+/**
+ * 깊은 비교
+ * 배열, 일반 객체, Date, RegExp, Map, Set을 내용으로 비교하며 NaN끼리는 같은 값으로 봅니다.
+ * 그 외 클래스 인스턴스는 참조가 같을 때만 같습니다.
+ *
+ * @example
+ * deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }) // true
+ * deepEqual(new Date('2024-01-01'), new Date('2024-01-01')) // true
+ * deepEqual({ a: 1 }, { a: 1, b: undefined }) // false
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return isEqualValue(a, b, new WeakMap());
+}
@@ -0,0 +1,80 @@
+/**
+ * Flatten & Unflatten Utilities
+ */
+
+import { isPlainObject } from './transform';
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * flattenObject / unflattenObject 옵션
+ */
+export interface FlattenOptions {
+  /** 경로 구분자 (기본값: '.') */
+  separator?: string;
+  /** 배열도 인덱스 경로로 펼침, false면 배열은 값 그대로 유지 (기본값: true) */
+  arrays?: boolean;
+}
+
+/**
+ * 중첩 객체를 경로 키의 단일 객체로 평탄화
+ * 빈 객체와 빈 배열은 값 그대로 유지해 unflattenObject로 되돌릴 수 있습니다.
+ *
+ * @example
+ * flattenObject({ user: { name: 'Kim', tags: ['a', 'b'] } })
+ * // { 'user.name': 'Kim', 'user.tags.0': 'a', 'user.tags.1': 'b' }
+ *
+ * @example
+ * flattenObject({ user: { tags: ['a'] } }, { arrays: false }) // { 'user.tags': ['a'] }
+ */
+export function flattenObject(obj: Record<string, any>, options: FlattenOptions = {}): Record<string, any> {
+  const { separator = '.', arrays = true } = options;
+  const result: Record<string, any> = {};
+
+  const walk = (value: unknown, path: string) => {
+    const isBranch = isPlainObject(value) || (arrays && Array.isArray(value));
+    const keys = isBranch ? Object.keys(value as object) : [];
+
+    if (!isBranch || (keys.length === 0 && path)) {
+      result[path] = value;
+      return;
+    }
+
+    keys.forEach((key) => walk((value as Record<string, unknown>)[key], path ? `${path}${separator}${key}` : key));
+  };
+
+  walk(obj, '');
+  return result;
+}
+
+/**
+ * 경로 키의 단일 객체를 중첩 객체로 복원
+ * 다음 경로가 숫자인 중간 값은 배열로 만듭니다.
+ *
+ * @example
+ * unflattenObject({ 'user.name': 'Kim', 'user.tags.0': 'a' })
+ * // { user: { name: 'Kim', tags: ['a'] } }
+ */
+export function unflattenObject(flat: Record<string, any>, options: FlattenOptions = {}): Record<string, any> {
+  const { separator = '.', arrays = true } = options;
+  const result: Record<string, any> = {};
+
+  Object.keys(flat).forEach((path) => {
+    const segments = path.split(separator);
+    if (segments.some((segment) => UNSAFE_KEYS.includes(segment))) return;
+
+    let node: any = result;
+    segments.forEach((segment, i) => {
+      if (i === segments.length - 1) {
+        node[segment] = flat[path];
+        return;
+      }
+      if (node[segment] === null || typeof node[segment] !== 'object') {
+        node[segment] = arrays && /^\d+$/.test(segments[i + 1]) ? [] : {};
+      }
+      node = node[segment];
+    });
+  });
+
+  return result;
+}
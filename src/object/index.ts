@@ -0,0 +1,17 @@
+/**
+ * Object Utilities
+ *
+ * 객체 선택/변환, 깊은 병합/복사/비교, 중첩 객체 평탄화 유틸리티 함수들
+ */
+
+// Pick, omit & key/value transforms
+export * from './transform';
+
+// Deep clone & merge utilities
+export * from './merge';
+
+// Deep equality
+export * from './equal';
+
+// Flatten & unflatten utilities
+export * from './flatten';
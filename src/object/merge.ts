@@ -0,0 +1,137 @@
+/**
+ * Deep Clone & Merge Utilities
+ */
+
+import { isPlainObject } from './transform';
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+function cloneValue(value: unknown, seen: WeakMap<object, unknown>): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.has(value)) return seen.get(value);
+
+  if (value instanceof Date) return new Date(value.getTime());
+  if (value instanceof RegExp) return new RegExp(value.source, value.flags);
+
+  if (value instanceof Map) {
+    const map = new Map();
+    seen.set(value, map);
+    value.forEach((item, key) => map.set(cloneValue(key, seen), cloneValue(item, seen)));
+    return map;
+  }
+
+  if (value instanceof Set) {
+    const set = new Set();
+    seen.set(value, set);
+    value.forEach((item) => set.add(cloneValue(item, seen)));
+    return set;
+  }
+
+  if (Array.isArray(value)) {
+    const array: unknown[] = [];
+    seen.set(value, array);
+    value.forEach((item, i) => {
+      array[i] = cloneValue(item, seen);
+    });
+    return array;
+  }
+
+  if (isPlainObject(value)) {
+    const object: Record<string, unknown> = Object.create(Object.getPrototypeOf(value));
+    seen.set(value, object);
+    Object.keys(value).forEach((key) => {
+      object[key] = cloneValue(value[key], seen);
+    });
+    return object;
+  }
+
+  // File, Blob, 클래스 인스턴스 등은 참조 그대로
+  return value;
+}
+
+/**
+ * 깊은 복사
+ * 배열, 일반 객체, Date, RegExp, Map, Set을 복사하며 순환 참조도 그대로 재현합니다.
+ * File, 클래스 인스턴스 등은 참조를 그대로 유지합니다.
+ *
+ * @example
+ * const copy = deepClone({ date: new Date(), tags: new Set(['a']) })
+ * copy.date !== original.date // true
+ */
+export function deepClone<T>(value: T): T {
+  return cloneValue(value, new WeakMap()) as T;
+}
+
+/**
+ * 배열 병합 방식
+ * - replace: source 배열로 교체
+ * - concat: 이어붙이기
+ * - union: 이어붙이되 중복 제거
+ * - merge: 같은 인덱스끼리 깊은 병합
+ */
+export type ArrayMergeStrategy = 'replace' | 'concat' | 'union' | 'merge';
+
+/**
+ * deepMerge 옵션
+ */
+export interface DeepMergeOptions {
+  /** 배열 병합 방식 (기본값: 'replace') */
+  arrays?: ArrayMergeStrategy;
+}
+
+function mergeValues(target: unknown, source: unknown, options: DeepMergeOptions): unknown {
+  if (source === undefined) return deepClone(target);
+
+  if (Array.isArray(target) && Array.isArray(source)) {
+    switch (options.arrays ?? 'replace') {
+      case 'concat':
+        return deepClone([...target, ...source]);
+      case 'union':
+        return deepClone(Array.from(new Set([...target, ...source])));
+      case 'merge': {
+        const length = Math.max(target.length, source.length);
+        return Array.from({ length }, (_, i) => mergeValues(target[i], source[i], options));
+      }
+      default:
+        return deepClone(source);
+    }
+  }
+
+  if (isPlainObject(source)) {
+    // target이 일반 객체가 아니면 빈 객체에 병합 (중첩된 undefined 값도 제외)
+    const base: Record<string, unknown> = isPlainObject(target) ? target : {};
+    const result: Record<string, unknown> = deepClone(base);
+    Object.keys(source).forEach((key) => {
+      if (UNSAFE_KEYS.includes(key) || source[key] === undefined) return;
+      const current = Object.prototype.hasOwnProperty.call(base, key) ? base[key] : undefined;
+      result[key] = mergeValues(current, source[key], options);
+    });
+    return result;
+  }
+
+  return deepClone(source);
+}
+
+/**
+ * 깊은 병합 (원본은 변경하지 않음)
+ * 일반 객체는 키별로 재귀 병합하고, 그 외 값은 source 값으로 교체합니다.
+ * source의 undefined 값은 무시합니다.
+ *
+ * @param target - 기본 객체
+ * @param source - 덮어쓸 객체
+ * @param options - 배열 병합 방식
+ *
+ * @example
+ * deepMerge({ theme: { color: 'red', size: 1 } }, { theme: { size: 2 } })
+ * // { theme: { color: 'red', size: 2 } }
+ *
+ * @example
+ * deepMerge({ tags: ['a'] }, { tags: ['a', 'b'] }, { arrays: 'union' }) // { tags: ['a', 'b'] }
+ */
+export function deepMerge<T extends Record<string, any>, S extends Record<string, any>>(
+  target: T,
+  source: S,
+  options: DeepMergeOptions = {}
+): T & S {
+  return mergeValues(target, source, options) as T & S;
+}
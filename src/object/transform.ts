@@ -0,0 +1,100 @@
+/**
+ * Object Transform Utilities
+ */
+
+/**
+ * 일반 객체인지 확인 (배열, Date, Map, 클래스 인스턴스 등은 false)
+ * @example isPlainObject({ a: 1 }) // true
+ * @example isPlainObject(new Date()) // false
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * 지정한 키만 선택
+ * @example pick({ id: 1, name: 'Kim', password: 'x' }, ['id', 'name']) // { id: 1, name: 'Kim' }
+ */
+export function pick<T extends Record<string, any>, K extends keyof T>(obj: T, keys: readonly K[]): Pick<T, K> {
+  const result = {} as Pick<T, K>;
+  keys.forEach((key) => {
+    if (key in obj) result[key] = obj[key];
+  });
+  return result;
+}
+
+/**
+ * 지정한 키를 제외
+ * @example omit({ id: 1, name: 'Kim', password: 'x' }, ['password']) // { id: 1, name: 'Kim' }
+ */
+export function omit<T extends Record<string, any>, K extends keyof T>(obj: T, keys: readonly K[]): Omit<T, K> {
+  const result = { ...obj };
+  keys.forEach((key) => {
+    delete result[key];
+  });
+  return result;
+}
+
+/**
+ * mapKeys 옵션
+ */
+export interface MapKeysOptions {
+  /** 중첩 객체와 배열 안의 객체 키까지 변환 (기본값: false) */
+  deep?: boolean;
+}
+
+function mapKeysDeep(value: unknown, fn: (key: string, value: any) => string): unknown {
+  if (Array.isArray(value)) return value.map((item) => mapKeysDeep(item, fn));
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, any> = {};
+  Object.keys(value).forEach((key) => {
+    result[fn(key, value[key])] = mapKeysDeep(value[key], fn);
+  });
+  return result;
+}
+
+/**
+ * 키 변환
+ * @param obj - 대상 객체
+ * @param fn - 새 키를 반환하는 함수 (key, value)
+ * @param options - deep: true면 중첩 객체와 배열 안의 객체까지 변환 (API 응답 키 변환용)
+ *
+ * @example
+ * mapKeys({ user_name: 'Kim' }, (key) => camelCase(key)) // { userName: 'Kim' }
+ *
+ * @example
+ * mapKeys({ user_info: { created_at: '2024-01-01' } }, (key) => camelCase(key), { deep: true })
+ * // { userInfo: { createdAt: '2024-01-01' } }
+ */
+export function mapKeys<T extends Record<string, any>>(
+  obj: T,
+  fn: (key: string, value: any) => string,
+  options: MapKeysOptions = {}
+): Record<string, any> {
+  if (options.deep) return mapKeysDeep(obj, fn) as Record<string, any>;
+
+  const result: Record<string, any> = {};
+  Object.keys(obj).forEach((key) => {
+    result[fn(key, obj[key])] = obj[key];
+  });
+  return result;
+}
+
+/**
+ * 값 변환 (키는 유지)
+ * @example mapValues({ a: 1, b: 2 }, (value) => value * 10) // { a: 10, b: 20 }
+ * @example mapValues({ name: ' Kim ' }, (value, key) => (typeof value === 'string' ? value.trim() : value))
+ */
+export function mapValues<T extends Record<string, any>, R>(
+  obj: T,
+  fn: (value: T[keyof T], key: keyof T & string) => R
+): { [K in keyof T]: R } {
+  const result = {} as { [K in keyof T]: R };
+  (Object.keys(obj) as (keyof T & string)[]).forEach((key) => {
+    result[key] = fn(obj[key], key);
+  });
+  return result;
+}
@@ -7,6 +7,7 @@ import {
   snakeCase,
   kebabCase,
   constantCase,
+  splitWords,
 } from '../case';
 
 describe('String Case Conversion', () => {
@@ -38,7 +39,14 @@ describe('String Case Conversion', () => {
     });
 
     it('should handle already camelCase strings', () => {
-      expect(camelCase('helloWorld')).toBe('helloworld');
+      expect(camelCase('helloWorld')).toBe('helloWorld');
+      expect(camelCase('HelloWorld')).toBe('helloWorld');
+    });
+
+    it('should normalize acronyms unless preserved', () => {
+      expect(camelCase('XMLHttpRequest')).toBe('xmlHttpRequest');
+      expect(camelCase('USER_ID')).toBe('userId');
+      expect(camelCase('get HTTP response', { preserveAcronyms: true })).toBe('getHTTPResponse');
     });
   });
 
@@ -48,6 +56,11 @@ describe('String Case Conversion', () => {
       expect(pascalCase('hello-world')).toBe('HelloWorld');
       expect(pascalCase('hello_world')).toBe('HelloWorld');
     });
+
+    it('should handle acronyms', () => {
+      expect(pascalCase('XMLHttpRequest')).toBe('XmlHttpRequest');
+      expect(pascalCase('XMLHttpRequest', { preserveAcronyms: true })).toBe('XMLHttpRequest');
+    });
   });
 
   describe('snakeCase', () => {
@@ -57,6 +70,14 @@ describe('String Case Conversion', () => {
       expect(snakeCase('hello-world')).toBe('hello_world');
       expect(snakeCase('HelloWorld')).toBe('hello_world');
     });
+
+    it('should keep acronyms and numbers as words', () => {
+      expect(snakeCase('XMLHttpRequest')).toBe('xml_http_request');
+      expect(snakeCase('userID')).toBe('user_id');
+      expect(snakeCase('addressLine1')).toBe('address_line1');
+      expect(snakeCase('addressLine1', { separateNumbers: true })).toBe('address_line_1');
+      expect(snakeCase('사용자ID')).toBe('사용자_id');
+    });
   });
 
   describe('kebabCase', () => {
@@ -75,4 +96,35 @@ describe('String Case Conversion', () => {
       expect(constantCase('hello-world')).toBe('HELLO_WORLD');
     });
   });
+
+  describe('splitWords', () => {
+    it('should split on separators and case boundaries', () => {
+      expect(splitWords('hello_world-foo bar.baz')).toEqual(['hello', 'world', 'foo', 'bar', 'baz']);
+      expect(splitWords('helloWorld')).toEqual(['hello', 'World']);
+      expect(splitWords('__private__')).toEqual(['private']);
+      expect(splitWords('')).toEqual([]);
+    });
+
+    it('should split acronyms', () => {
+      expect(splitWords('XMLHttpRequest')).toEqual(['XML', 'Http', 'Request']);
+      expect(splitWords('getHTTPResponse')).toEqual(['get', 'HTTP', 'Response']);
+    });
+
+    it('should attach numbers to the preceding word', () => {
+      expect(splitWords('HTML5Parser')).toEqual(['HTML5', 'Parser']);
+      expect(splitWords('user_id2FA')).toEqual(['user', 'id2', 'FA']);
+      expect(splitWords('addressLine1', { separateNumbers: true })).toEqual(['address', 'Line', '1']);
+    });
+
+    it('should split mixed scripts', () => {
+      expect(splitWords('사용자ID 목록')).toEqual(['사용자', 'ID', '목록']);
+      expect(splitWords('café au lait')).toEqual(['café', 'au', 'lait']);
+    });
+
+    it('should keep emoji sequences as separate words', () => {
+      expect(splitWords('hello 👋 world')).toEqual(['hello', '👋', 'world']);
+      expect(splitWords('👨‍👩‍👧family')).toEqual(['👨‍👩‍👧', 'family']);
+      expect(splitWords('🇰🇷korea')).toEqual(['🇰🇷', 'korea']);
+    });
+  });
 });
@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { splitGraphemes, getDisplayWidth } from '../grapheme';
+
+const samples = ['👍🏽ok', '🇰🇷👨\u200D👩\u200D👧', 'e\u0301cole', '한글', '\u1112\u1161\u11AB\u1100\u1173\u11AF', 'a\r\nb', '❤\uFE0F!'];
+
+describe('Grapheme Utilities', () => {
+  describe('splitGraphemes', () => {
+    it('should keep emoji sequences and combining marks together', () => {
+      expect(splitGraphemes('👍🏽ok')).toEqual(['👍🏽', 'o', 'k']);
+      expect(splitGraphemes('🇰🇷👨\u200D👩\u200D👧')).toEqual(['🇰🇷', '👨\u200D👩\u200D👧']);
+      expect(splitGraphemes('e\u0301cole')).toHaveLength(5);
+      expect(splitGraphemes('\u1112\u1161\u11AB\u1100\u1173\u11AF')).toHaveLength(2);
+      expect(splitGraphemes('')).toEqual([]);
+    });
+
+    describe('without Intl.Segmenter', () => {
+      const intl = Intl as unknown as { Segmenter?: unknown };
+      const Segmenter = intl.Segmenter;
+
+      afterEach(() => {
+        intl.Segmenter = Segmenter;
+      });
+
+      it('should give the same result with the fallback', () => {
+        const expected = samples.map(splitGraphemes);
+        intl.Segmenter = undefined;
+
+        expect(samples.map(splitGraphemes)).toEqual(expected);
+      });
+    });
+  });
+
+  describe('getDisplayWidth', () => {
+    it('should count full-width characters and emoji as 2', () => {
+      expect(getDisplayWidth('abc')).toBe(3);
+      expect(getDisplayWidth('한글')).toBe(4);
+      expect(getDisplayWidth('日本語')).toBe(6);
+      expect(getDisplayWidth('ＡＢ')).toBe(4);
+      expect(getDisplayWidth('👍🏽')).toBe(2);
+      expect(getDisplayWidth('🇰🇷')).toBe(2);
+    });
+
+    it('should count combining marks and control characters as 0', () => {
+      expect(getDisplayWidth('e\u0301')).toBe(1);
+      expect(getDisplayWidth('a\u200Bb')).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isHangulSyllable,
+  decomposeHangul,
+  composeHangul,
+  disassembleHangul,
+  assembleHangul,
+  getChoseong,
+  choseongIncludes,
+  hasBatchim,
+  pickJosa,
+  josa,
+  romanize,
+} from '../hangul';
+
+describe('Hangul Utilities', () => {
+  describe('decomposeHangul / composeHangul', () => {
+    it('should split syllables into jamo', () => {
+      expect(isHangulSyllable('가')).toBe(true);
+      expect(isHangulSyllable('ㄱ')).toBe(false);
+      expect(decomposeHangul('값')).toEqual({ choseong: 'ㄱ', jungseong: 'ㅏ', jongseong: 'ㅄ' });
+      expect(decomposeHangul('가')).toEqual({ choseong: 'ㄱ', jungseong: 'ㅏ', jongseong: '' });
+      expect(decomposeHangul('A')).toBeNull();
+    });
+
+    it('should compose syllables', () => {
+      expect(composeHangul('ㄱ', 'ㅏ', 'ㅄ')).toBe('값');
+      expect(composeHangul('ㄱ', 'ㅗㅏ')).toBe('과');
+      expect(composeHangul('ㄱ', 'ㄱ')).toBeNull();
+    });
+  });
+
+  describe('disassembleHangul / assembleHangul', () => {
+    it('should disassemble into keyboard jamo', () => {
+      expect(disassembleHangul('값어치')).toBe('ㄱㅏㅂㅅㅇㅓㅊㅣ');
+      expect(disassembleHangul('과자 A')).toBe('ㄱㅗㅏㅈㅏ A');
+    });
+
+    it('should assemble jamo like a keyboard input', () => {
+      expect(assembleHangul('ㄱㅏㅂㅅㅇㅓㅊㅣ')).toBe('값어치');
+      expect(assembleHangul('ㅇㅏㄴㄴㅕㅇ')).toBe('안녕');
+      expect(assembleHangul('ㄷㅏㄹㄱㅇㅣ')).toBe('닭이');
+      expect(assembleHangul('ㄱㅗㅏㅈㅏ')).toBe('과자');
+      expect(assembleHangul('ㄸㅏㄸㅏ')).toBe('따따');
+      expect(assembleHangul('ㅋㅋㅋ ok')).toBe('ㅋㅋㅋ ok');
+    });
+
+    it('should round-trip', () => {
+      const text = '다람쥐 헌 쳇바퀴에 타고파, 읽었다!';
+      expect(assembleHangul(disassembleHangul(text))).toBe(text);
+    });
+  });
+
+  describe('getChoseong / choseongIncludes', () => {
+    it('should extract initial consonants', () => {
+      expect(getChoseong('김민수')).toBe('ㄱㅁㅅ');
+      expect(getChoseong('React 입문')).toBe('React ㅇㅁ');
+    });
+
+    it('should match initial consonant queries', () => {
+      expect(choseongIncludes('김민수', 'ㄱㅁㅅ')).toBe(true);
+      expect(choseongIncludes('김민수', 'ㅁㅅ')).toBe(true);
+      expect(choseongIncludes('김민수', 'ㄱ민')).toBe(true);
+      expect(choseongIncludes('김민수', 'ㄱㅅ')).toBe(false);
+      expect(choseongIncludes('김민수', '')).toBe(true);
+    });
+  });
+
+  describe('hasBatchim', () => {
+    it('should check the last syllable', () => {
+      expect(hasBatchim('사과')).toBe(false);
+      expect(hasBatchim('수박')).toBe(true);
+      expect(hasBatchim('수박!')).toBe(true);
+      expect(hasBatchim('사과(apple)')).toBe(false);
+    });
+
+    it('should read numbers', () => {
+      expect(hasBatchim('1')).toBe(true);
+      expect(hasBatchim('2')).toBe(false);
+      expect(hasBatchim('10')).toBe(true);
+      expect(hasBatchim('3.5')).toBe(false);
+      expect(hasBatchim('1000000000000')).toBe(false);
+    });
+
+    it('should return null when unknown', () => {
+      expect(hasBatchim('React')).toBeNull();
+      expect(hasBatchim('')).toBeNull();
+    });
+  });
+
+  describe('josa', () => {
+    it('should pick particles by final consonant', () => {
+      expect(josa('사과', '을/를')).toBe('사과를');
+      expect(josa('수박', '을/를')).toBe('수박을');
+      expect(josa('수박', '이/가')).toBe('수박이');
+      expect(josa('사과', '은(는)')).toBe('사과는');
+      expect(josa('친구', '과/와')).toBe('친구와');
+    });
+
+    it('should use 로 after ㄹ final', () => {
+      expect(pickJosa('서울', '으로/로')).toBe('로');
+      expect(pickJosa('부산', '으로')).toBe('으로');
+      expect(pickJosa('학교', '로')).toBe('로');
+    });
+
+    it('should fall back to both forms when unknown', () => {
+      expect(pickJosa('React', '을/를')).toBe('을(를)');
+      expect(pickJosa('사과', '까지')).toBe('까지');
+    });
+  });
+
+  describe('romanize', () => {
+    it('should romanize basic syllables', () => {
+      expect(romanize('서울')).toBe('seoul');
+      expect(romanize('부산')).toBe('busan');
+      expect(romanize('낙동강')).toBe('nakdonggang');
+      expect(romanize('의정부')).toBe('uijeongbu');
+    });
+
+    it('should apply liaison and palatalization', () => {
+      expect(romanize('한국어')).toBe('hangugeo');
+      expect(romanize('읽어')).toBe('ilgeo');
+      expect(romanize('좋아')).toBe('joa');
+      expect(romanize('같이')).toBe('gachi');
+      expect(romanize('해돋이')).toBe('haedoji');
+    });
+
+    it('should apply nasalization and liquidization', () => {
+      expect(romanize('백마')).toBe('baengma');
+      expect(romanize('종로')).toBe('jongno');
+      expect(romanize('왕십리')).toBe('wangsimni');
+      expect(romanize('신라')).toBe('silla');
+      expect(romanize('설날')).toBe('seollal');
+      expect(romanize('대관령')).toBe('daegwallyeong');
+    });
+
+    it('should apply aspiration but not tensification', () => {
+      expect(romanize('좋고')).toBe('joko');
+      expect(romanize('놓다')).toBe('nota');
+      expect(romanize('잡혀', { aspirate: true })).toBe('japyeo');
+      expect(romanize('굳히다', { aspirate: true })).toBe('guchida');
+      expect(romanize('샛별')).toBe('saetbyeol');
+      expect(romanize('울산')).toBe('ulsan');
+    });
+
+    it('should apply double-final stem exceptions for predicates', () => {
+      expect(romanize('밟다', { aspirate: true })).toBe('bapda');
+      expect(romanize('밟는', { aspirate: true })).toBe('bamneun');
+      expect(romanize('밟아', { aspirate: true })).toBe('balba');
+      expect(romanize('밟히다', { aspirate: true })).toBe('balpida');
+      expect(romanize('맑게', { aspirate: true })).toBe('malge');
+      expect(romanize('맑다', { aspirate: true })).toBe('makda');
+      expect(romanize('넓다', { aspirate: true })).toBe('neolda');
+    });
+
+    it('should keep ㅎ after ㄱ/ㄷ/ㅂ in nouns by default', () => {
+      expect(romanize('묵호')).toBe('mukho');
+      expect(romanize('집현전')).toBe('jiphyeonjeon');
+      expect(romanize('낙하')).toBe('nakha');
+      expect(romanize('잡혀')).toBe('japhyeo');
+    });
+
+    it('should keep non-Hangul text and word boundaries', () => {
+      expect(romanize('서울 특별시')).toBe('seoul teukbyeolsi');
+      expect(romanize('K팝')).toBe('Kpap');
+    });
+  });
+});
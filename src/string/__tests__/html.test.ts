@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { escapeHtml, decodeHtmlEntities, sanitizeHtml, htmlToText } from '../html';
+
+describe('HTML Utilities', () => {
+  describe('escapeHtml', () => {
+    it('should encode special characters', () => {
+      expect(escapeHtml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;Tom &amp; &#39;Jerry&#39;&lt;/a&gt;'
+      );
+      expect(escapeHtml('plain text')).toBe('plain text');
+    });
+  });
+
+  describe('decodeHtmlEntities', () => {
+    it('should decode named entities', () => {
+      expect(decodeHtmlEntities('a &lt; b &amp;&amp; c &gt; d')).toBe('a < b && c > d');
+      expect(decodeHtmlEntities('&quot;hi&quot; &hellip; &copy;')).toBe('"hi" … ©');
+    });
+
+    it('should decode numeric entities', () => {
+      expect(decodeHtmlEntities('&#54620;&#xAE00;')).toBe('한글');
+      expect(decodeHtmlEntities('&#x1F600;')).toBe('😀');
+      expect(decodeHtmlEntities('&#106avascript')).toBe('javascript');
+    });
+
+    it('should keep unknown entities and replace invalid code points', () => {
+      expect(decodeHtmlEntities('&unknown; &amp')).toBe('&unknown; &amp');
+      expect(decodeHtmlEntities('&#0;&#xD800;&#x110000;')).toBe('���');
+    });
+
+    it('should round-trip with escapeHtml', () => {
+      const text = `<b>"a" & 'b'</b>`;
+      expect(decodeHtmlEntities(escapeHtml(text))).toBe(text);
+    });
+  });
+
+  describe('sanitizeHtml', () => {
+    it('should keep allowed tags and attributes', () => {
+      expect(sanitizeHtml('<p>Hello <strong>World</strong></p>')).toBe('<p>Hello <strong>World</strong></p>');
+      expect(sanitizeHtml('<a href="https://example.com" title="ex">link</a>')).toBe(
+        '<a href="https://example.com" title="ex">link</a>'
+      );
+      expect(sanitizeHtml('<img src="/a.png" alt="a">')).toBe('<img src="/a.png" alt="a">');
+    });
+
+    it('should drop disallowed tags but keep their text', () => {
+      expect(sanitizeHtml('<custom>text</custom> <font color="red">red</font>')).toBe('text red');
+      expect(sanitizeHtml('<b>bold</b> <i>italic</i>', { allowedTags: ['b'] })).toBe('<b>bold</b> italic');
+    });
+
+    it('should drop disallowed attributes', () => {
+      expect(sanitizeHtml('<p class="x" style="color:red" id="y">hi</p>')).toBe('<p>hi</p>');
+      expect(sanitizeHtml('<p class="x" id="y">hi</p>', { allowedAttributes: { '*': ['class'] } })).toBe(
+        '<p class="x">hi</p>'
+      );
+    });
+
+    it('should encode text and normalize entities', () => {
+      expect(sanitizeHtml('a < b && c > d')).toBe('a &lt; b &amp;&amp; c &gt; d');
+      expect(sanitizeHtml('a &lt; b &amp; &#54620;')).toBe('a &lt; b &amp; 한');
+      expect(sanitizeHtml('<a title=\'say "hi"\'>x</a>')).toBe('<a title="say &quot;hi&quot;">x</a>');
+    });
+
+    it('should balance unclosed and stray tags', () => {
+      expect(sanitizeHtml('<p><b>bold')).toBe('<p><b>bold</b></p>');
+      expect(sanitizeHtml('<p><b>bold</p> after')).toBe('<p><b>bold</b></p> after');
+      expect(sanitizeHtml('text</p></div>')).toBe('text');
+      expect(sanitizeHtml('line<br/>next<hr>')).toBe('line<br>next<hr>');
+    });
+
+    it('should add rel to target="_blank" links', () => {
+      expect(sanitizeHtml('<a href="https://a.com" target="_blank">a</a>')).toBe(
+        '<a href="https://a.com" target="_blank" rel="noopener noreferrer">a</a>'
+      );
+      expect(sanitizeHtml('<a href="x" target="_blank">a</a>', { allowedAttributes: { a: ['href', 'target'] } })).toBe(
+        '<a href="x" target="_blank" rel="noopener noreferrer">a</a>'
+      );
+      expect(sanitizeHtml('<a href="x" rel="nofollow" target="_blank">a</a>')).toBe(
+        '<a href="x" rel="nofollow noopener noreferrer" target="_blank">a</a>'
+      );
+    });
+
+    it('should decode RCDATA contents before encoding', () => {
+      expect(sanitizeHtml('<textarea>a &amp; b <b></textarea>', { allowedTags: ['textarea'] })).toBe(
+        '<textarea>a &amp; b &lt;b&gt;</textarea>'
+      );
+    });
+
+    it('should filter URL protocols', () => {
+      expect(sanitizeHtml('<a href="mailto:a@b.com">mail</a>')).toBe('<a href="mailto:a@b.com">mail</a>');
+      expect(sanitizeHtml('<a href="ftp://a.com">ftp</a>')).toBe('<a>ftp</a>');
+      expect(sanitizeHtml('<a href="ftp://a.com">ftp</a>', { allowedProtocols: ['ftp'] })).toBe(
+        '<a href="ftp://a.com">ftp</a>'
+      );
+      expect(sanitizeHtml('<a href="/path?a=1&amp;b=2">rel</a>')).toBe('<a href="/path?a=1&amp;b=2">rel</a>');
+      expect(sanitizeHtml('<a href="/path">rel</a>', { allowRelativeUrls: false })).toBe('<a>rel</a>');
+    });
+
+    describe('XSS vectors', () => {
+      const vectors: [string, string][] = [
+        ['<script>alert(1)</script>', ''],
+        ['<SCRIPT SRC=//evil.com/x.js></SCRIPT>', ''],
+        ['<script>document.write("</p>")</script>ok', 'ok'],
+        ['<img src=x onerror=alert(1)>', '<img src="x">'],
+        ['<img src=x onerror="alert(1)"/>', '<img src="x">'],
+        ['<a href="javascript:alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="JaVaScRiPt:alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="  javascript:alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="java\tscript:alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="jav&#x09;ascript:alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="&#106;avascript:alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="&#0000106&#0000097vascript:alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="javascript&colon;alert(1)">x</a>', '<a>x</a>'],
+        ['<a href="vbscript:msgbox(1)">x</a>', '<a>x</a>'],
+        ['<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>', '<a>x</a>'],
+        ['<svg onload=alert(1)>', ''],
+        ['<svg><script>alert(1)</script></svg>', ''],
+        ['<math><mi xlink:href="javascript:alert(1)">x</mi></math>', 'x'],
+        ['<iframe src="javascript:alert(1)"></iframe>', ''],
+        ['<object data="x.swf"></object><embed src="x.swf">', ''],
+        ['<style>body{background:url("javascript:alert(1)")}</style>', ''],
+        ['<div style="background:url(javascript:alert(1))">x</div>', '<div>x</div>'],
+        ['<body onload=alert(1)>x', 'x'],
+        ['<p onmouseover="alert(1)">x</p>', '<p>x</p>'],
+        ['<!--<script>alert(1)</script>-->', ''],
+        ['<![CDATA[<script>alert(1)</script>]]>', 'alert(1)]]&gt;'],
+        ['<<script>script>alert(1)<</script>/script>', '&lt;/script&gt;'],
+        ['<scr<script>ipt>alert(1)</script>', 'ipt&gt;alert(1)'],
+        ['<img src=x onerror=alert(1)//', '&lt;img src=x onerror=alert(1)//'],
+        ['<a href="https://a.com" onclick="alert(1)">x</a>', '<a href="https://a.com">x</a>'],
+        ['<textarea></textarea><script>alert(1)</script>', ''],
+        ['<title></title><img src=x onerror=alert(1)>', '<img src="x">'],
+      ];
+
+      it.each(vectors)('%s', (input, expected) => {
+        expect(sanitizeHtml(input)).toBe(expected);
+      });
+
+      it('should never allow script tags or event handlers even when listed', () => {
+        expect(
+          sanitizeHtml('<script>alert(1)</script><b onclick="x()">b</b>', {
+            allowedTags: ['script', 'b'],
+            allowedAttributes: { b: ['onclick'] },
+          })
+        ).toBe('<b>b</b>');
+      });
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should extract text and decode entities', () => {
+      expect(htmlToText('<p>Hello <b>World</b></p>')).toBe('Hello World');
+      expect(htmlToText('a &lt; b &amp;&amp; c')).toBe('a < b && c');
+      expect(htmlToText('a < b and c > d')).toBe('a < b and c > d');
+    });
+
+    it('should keep unterminated tags as text', () => {
+      expect(htmlToText('if a<b then c')).toBe('if a<b then c');
+      expect(htmlToText('x <p class="y"')).toBe('x <p class="y"');
+      expect(sanitizeHtml('if a<b then c')).toBe('if a&lt;b then c');
+    });
+
+    it('should keep paragraph and line breaks', () => {
+      expect(htmlToText('<p>First</p><p>Second</p>')).toBe('First\n\nSecond');
+      expect(htmlToText('<h1>Title</h1>\n  <p>Body   text\n here</p>')).toBe('Title\n\nBody text here');
+      expect(htmlToText('line1<br>line2<br/>line3')).toBe('line1\nline2\nline3');
+      expect(htmlToText('<ul><li>a</li><li>b</li></ul><p>end</p>')).toBe('a\nb\n\nend');
+    });
+
+    it('should keep whitespace inside pre', () => {
+      expect(htmlToText('<p>code:</p><pre>  a\n    b</pre>')).toBe('code:\n\n  a\n    b');
+    });
+
+    it('should skip script and style contents', () => {
+      expect(htmlToText('<style>p{color:red}</style><p>Hi</p><script>alert("<p>")</script>')).toBe('Hi');
+      expect(htmlToText('<!-- comment -->text')).toBe('text');
+    });
+  });
+});
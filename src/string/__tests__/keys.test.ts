@@ -0,0 +1,82 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { camelizeKeys, snakifyKeys, type CamelCase, type SnakeCase } from '../keys';
+
+describe('Object Key Case Conversion', () => {
+  describe('camelizeKeys', () => {
+    it('should convert nested keys', () => {
+      expect(camelizeKeys({ user_name: 'Kim', user_info: { created_at: '2024' }, order_items: [{ item_id: 1 }] })).toEqual({
+        userName: 'Kim',
+        userInfo: { createdAt: '2024' },
+        orderItems: [{ itemId: 1 }],
+      });
+    });
+
+    it('should handle arrays at the top level', () => {
+      expect(camelizeKeys([{ user_id: 1 }, { user_id: 2 }])).toEqual([{ userId: 1 }, { userId: 2 }]);
+    });
+
+    it('should preserve Dates and Files', () => {
+      const date = new Date();
+      const file = new File(['a'], 'a.txt');
+      const result = camelizeKeys({ created_at: date, attached_file: file });
+
+      expect(result.createdAt).toBe(date);
+      expect(result.attachedFile).toBe(file);
+    });
+
+    it('should not convert children of skipped paths', () => {
+      const payload = {
+        extra_data: { raw_key: 1 },
+        order_items: [{ item_options: { color_code: 'red' }, item_id: 1 }],
+      };
+
+      expect(camelizeKeys(payload, { skipPaths: ['extra_data', 'order_items.item_options'] })).toEqual({
+        extraData: { raw_key: 1 },
+        orderItems: [{ itemOptions: { color_code: 'red' }, itemId: 1 }],
+      });
+      expect(camelizeKeys({ a_b: { c_d: { e_f: 1 } } }, { skipPaths: ['*.c_d'] })).toEqual({ aB: { cD: { e_f: 1 } } });
+    });
+
+    it('should infer converted types', () => {
+      const result = camelizeKeys({ user_name: 'Kim', user_info: { created_at: new Date() }, tag_list: [{ tag_id: 1 }] });
+
+      expectTypeOf(result).toEqualTypeOf<{
+        userName: string;
+        userInfo: { createdAt: Date };
+        tagList: { tagId: number }[];
+      }>();
+      expectTypeOf<CamelCase<'order-item_id'>>().toEqualTypeOf<'orderItemId'>();
+      expectTypeOf<CamelCase<'USER_ID'>>().toEqualTypeOf<'userId'>();
+      expectTypeOf<CamelCase<'userId'>>().toEqualTypeOf<'userId'>();
+    });
+  });
+
+  describe('snakifyKeys', () => {
+    it('should convert nested keys', () => {
+      expect(snakifyKeys({ userName: 'Kim', userInfo: { createdAt: '2024' }, orderItems: [{ itemId: 1 }] })).toEqual({
+        user_name: 'Kim',
+        user_info: { created_at: '2024' },
+        order_items: [{ item_id: 1 }],
+      });
+    });
+
+    it('should keep already converted keys', () => {
+      expect(camelizeKeys({ userId: 1, user_name: 'Kim' })).toEqual({ userId: 1, userName: 'Kim' });
+      expect(snakifyKeys({ user_id: 1, orderID: 2 })).toEqual({ user_id: 1, order_id: 2 });
+    });
+
+    it('should round-trip with camelizeKeys', () => {
+      const payload = { user_name: 'Kim', order_items: [{ item_id: 1 }] };
+      expect(snakifyKeys(camelizeKeys(payload))).toEqual(payload);
+    });
+
+    it('should infer converted types', () => {
+      const result = snakifyKeys({ userName: 'Kim', orderItems: [{ itemId: 1 }] });
+
+      expectTypeOf(result).toEqualTypeOf<{ user_name: string; order_items: { item_id: number }[] }>();
+      expectTypeOf<SnakeCase<'HelloWorld'>>().toEqualTypeOf<'hello_world'>();
+      expectTypeOf<SnakeCase<'addressLine1'>>().toEqualTypeOf<'address_line1'>();
+      expectTypeOf<SnakeCase<'user_name'>>().toEqualTypeOf<'user_name'>();
+    });
+  });
+});
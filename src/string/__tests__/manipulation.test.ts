@@ -9,7 +9,6 @@ import {
   stripHtml,
   padStart,
   padEnd,
-  template,
   mask,
 } from '../manipulation';
 
@@ -22,6 +21,26 @@ describe('String Manipulation', () => {
 
     it('should use custom suffix', () => {
       expect(truncate('Hello World', 5, '---')).toBe('Hello---');
+      expect(truncate('Hello World', 5, { suffix: '…' })).toBe('Hello…');
+    });
+
+    it('should not split emoji or combining characters', () => {
+      expect(truncate('좋아요👍🏽👍🏽', 4)).toBe('좋아요👍🏽...');
+      expect(truncate('🇰🇷🇯🇵🇺🇸', 1, '')).toBe('🇰🇷');
+      expect(truncate('cafe\u0301s', 4, '')).toBe('cafe\u0301');
+    });
+
+    it('should truncate by display width', () => {
+      expect(truncate('안녕하세요 여러분', 6, { unit: 'width' })).toBe('안녕하...');
+      expect(truncate('ab한글', 3, { unit: 'width' })).toBe('ab...');
+      expect(truncate('한글', 4, { unit: 'width' })).toBe('한글');
+    });
+
+    it('should truncate at word boundaries', () => {
+      expect(truncate('Hello wonderful world', 12, { wordBoundary: true })).toBe('Hello...');
+      expect(truncate('Hello world foo', 11, { wordBoundary: true })).toBe('Hello world...');
+      expect(truncate('Hello world', 6, { wordBoundary: true })).toBe('Hello...');
+      expect(truncate('Supercalifragilistic', 5, { wordBoundary: true })).toBe('Super...');
     });
   });
 
@@ -86,6 +105,11 @@ describe('String Manipulation', () => {
       expect(reverse('hello')).toBe('olleh');
       expect(reverse('12345')).toBe('54321');
     });
+
+    it('should keep graphemes intact', () => {
+      expect(reverse('a👍🏽b')).toBe('b👍🏽a');
+      expect(reverse('🇰🇷🇯🇵')).toBe('🇯🇵🇰🇷');
+    });
   });
 
   describe('stripHtml', () => {
@@ -93,6 +117,7 @@ describe('String Manipulation', () => {
       expect(stripHtml('<p>Hello</p>')).toBe('Hello');
       expect(stripHtml('<p>Hello <strong>World</strong></p>')).toBe('Hello World');
       expect(stripHtml('No tags here')).toBe('No tags here');
+      expect(stripHtml('if a<b then c')).toBe('if a<b then c');
     });
   });
 
@@ -101,6 +126,13 @@ describe('String Manipulation', () => {
       expect(padStart('5', 3, '0')).toBe('005');
       expect(padStart('abc', 5, 'x')).toBe('xxabc');
     });
+
+    it('should count graphemes and display width', () => {
+      expect(padStart('👍🏽', 3, '*')).toBe('**👍🏽');
+      expect(padStart('한글', 6, ' ', { unit: 'width' })).toBe('  한글');
+      expect(padStart('a', 4, '한', { unit: 'width' })).toBe('한a');
+      expect(padStart('abc', 2, '0')).toBe('abc');
+    });
   });
 
   describe('padEnd', () => {
@@ -108,20 +140,9 @@ describe('String Manipulation', () => {
       expect(padEnd('5', 3, '0')).toBe('500');
       expect(padEnd('abc', 5, 'x')).toBe('abcxx');
     });
-  });
-
-  describe('template', () => {
-    it('should replace placeholders', () => {
-      expect(template('Hello {name}!', { name: 'World' })).toBe('Hello World!');
-      expect(template('I am {age} years old', { age: 25 })).toBe('I am 25 years old');
-    });
 
-    it('should keep unreplaced placeholders', () => {
-      expect(template('Hello {name}!', {})).toBe('Hello {name}!');
-    });
-
-    it('should handle multiple placeholders', () => {
-      expect(template('{greeting} {name}!', { greeting: 'Hi', name: 'John' })).toBe('Hi John!');
+    it('should count display width', () => {
+      expect(padEnd('한글', 6, '.', { unit: 'width' })).toBe('한글..');
     });
   });
 
@@ -138,5 +159,10 @@ describe('String Manipulation', () => {
     it('should mask to end if end not specified', () => {
       expect(mask('1234567890', 5)).toBe('12345*****');
     });
+
+    it('should mask graphemes', () => {
+      expect(mask('김👍🏽수', 1, 2)).toBe('김*수');
+      expect(mask('🇰🇷🇯🇵🇺🇸', 1)).toBe('🇰🇷**');
+    });
   });
 });
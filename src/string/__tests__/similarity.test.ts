@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  levenshtein,
+  damerauLevenshtein,
+  jaroWinkler,
+  ngramSimilarity,
+  fuzzyMatch,
+  fuzzySearch,
+} from '../similarity';
+
+describe('Similarity Utilities', () => {
+  describe('levenshtein', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(levenshtein('kitten', 'sitting')).toBe(3);
+      expect(levenshtein('', 'abc')).toBe(3);
+      expect(levenshtein('same', 'same')).toBe(0);
+      expect(levenshtein('ca', 'ac')).toBe(2);
+    });
+
+    it('should compare by grapheme', () => {
+      expect(levenshtein('사과', '사고')).toBe(1);
+      expect(levenshtein('👍🏽a', '👍a')).toBe(1);
+    });
+  });
+
+  describe('damerauLevenshtein', () => {
+    it('should count adjacent transpositions as one edit', () => {
+      expect(damerauLevenshtein('ca', 'ac')).toBe(1);
+      expect(damerauLevenshtein('recieve', 'receive')).toBe(1);
+      expect(damerauLevenshtein('kitten', 'sitting')).toBe(3);
+    });
+  });
+
+  describe('jaroWinkler', () => {
+    it('should score similar strings close to 1', () => {
+      expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+      expect(jaroWinkler('dixon', 'dicksonx')).toBeCloseTo(0.813, 3);
+      expect(jaroWinkler('same', 'same')).toBe(1);
+    });
+
+    it('should handle empty and unrelated strings', () => {
+      expect(jaroWinkler('', '')).toBe(1);
+      expect(jaroWinkler('abc', '')).toBe(0);
+      expect(jaroWinkler('abc', 'xyz')).toBe(0);
+    });
+
+    it('should weight common prefixes', () => {
+      expect(jaroWinkler('martha', 'marhta', { prefixScale: 0 })).toBeCloseTo(0.944, 3);
+    });
+  });
+
+  describe('ngramSimilarity', () => {
+    it('should compute Dice coefficient of n-grams', () => {
+      expect(ngramSimilarity('night', 'nacht')).toBe(0.25);
+      expect(ngramSimilarity('검색어', '검색')).toBeCloseTo(2 / 3);
+      expect(ngramSimilarity('abc', 'abc', 3)).toBe(1);
+    });
+
+    it('should handle short and empty strings', () => {
+      expect(ngramSimilarity('a', 'a')).toBe(1);
+      expect(ngramSimilarity('', '')).toBe(1);
+      expect(ngramSimilarity('ab', '')).toBe(0);
+    });
+  });
+
+  describe('fuzzyMatch', () => {
+    it('should rank exact, prefix, word start and substring matches', () => {
+      expect(fuzzyMatch('apple', 'apple')).toEqual({ score: 1, ranges: [[0, 5]] });
+      expect(fuzzyMatch('Apple Pie', 'app')).toEqual({ score: 0.9, ranges: [[0, 3]] });
+      expect(fuzzyMatch('Hello World', 'wor')).toEqual({ score: 0.85, ranges: [[6, 9]] });
+      expect(fuzzyMatch('pineapple', 'apple')).toEqual({ score: 0.8, ranges: [[4, 9]] });
+    });
+
+    it('should respect case sensitivity', () => {
+      expect(fuzzyMatch('Apple', 'apple', { caseSensitive: true })!.score).toBeLessThan(1);
+    });
+
+    it('should match scattered characters in order', () => {
+      const result = fuzzyMatch('foobar', 'fb')!;
+      expect(result.score).toBeCloseTo(0.45);
+      expect(result.ranges).toEqual([[0, 1], [3, 4]]);
+    });
+
+    it('should tolerate typos', () => {
+      const result = fuzzyMatch('cat', 'cta')!;
+      expect(result.score).toBeCloseTo(0.5);
+      expect(result.ranges).toEqual([[0, 3]]);
+      expect(fuzzyMatch('apple', 'xyz')).toBeNull();
+    });
+
+    it('should match Hangul by jamo', () => {
+      // 입력 중인 글자
+      expect(fuzzyMatch('사과', '삭')).toEqual({ score: 0.9, ranges: [[0, 2]] });
+      // 자모 하나 틀린 오타
+      expect(fuzzyMatch('사과', '사꽈')!.score).toBeCloseTo(0.6);
+      expect(fuzzyMatch('사과', '사꽈', { jamo: false })!.score).toBeCloseTo(0.375);
+    });
+
+    it('should match choseong queries', () => {
+      expect(fuzzyMatch('김민수', 'ㄱㅁ')).toEqual({ score: 0.8, ranges: [[0, 2]] });
+      expect(fuzzyMatch('홍길동 김민수', 'ㅁ수')).toEqual({ score: 0.75, ranges: [[5, 7]] });
+      expect(fuzzyMatch('김민수', 'ㄱㅁ', { jamo: false })).toBeNull();
+    });
+
+    it('should treat an empty query as a match', () => {
+      expect(fuzzyMatch('anything', '  ')).toEqual({ score: 1, ranges: [] });
+    });
+  });
+
+  describe('fuzzySearch', () => {
+    const fruits = ['바나나', '사과주스', '사과', '파인애플'];
+
+    it('should rank results by score', () => {
+      expect(fuzzySearch(fruits, '사과').map((result) => result.item)).toEqual(['사과', '사과주스']);
+      expect(fuzzySearch(fruits, '사꽈').map((result) => result.item)).toEqual(['사과주스', '사과']);
+    });
+
+    it('should return ref indexes and highlight ranges', () => {
+      const [result] = fuzzySearch(fruits, '애플');
+      expect(result).toEqual({
+        item: '파인애플',
+        refIndex: 3,
+        score: 0.8,
+        matches: [{ key: undefined, value: '파인애플', score: 0.8, ranges: [[2, 4]] }],
+      });
+    });
+
+    it('should search by keys', () => {
+      const users = [
+        { name: '김민수', email: 'minsu@example.com' },
+        { name: '이영희', email: 'kim.yh@example.com' },
+        { name: '박철수', email: null },
+      ];
+
+      const results = fuzzySearch(users, 'kim', { keys: ['name', 'email'] });
+      expect(results.map((result) => result.item.name)).toEqual(['이영희']);
+      expect(results[0].matches[0]).toMatchObject({ key: 'email', ranges: [[0, 3]] });
+
+      const byChoseong = fuzzySearch(users, 'ㅊㅅ', { keys: [(user) => user.name] });
+      expect(byChoseong.map((result) => result.item.name)).toEqual(['박철수']);
+    });
+
+    it('should apply threshold and limit', () => {
+      expect(fuzzySearch(['cat', 'dog'], 'cta').map((result) => result.item)).toEqual(['cat']);
+      expect(fuzzySearch(['cat', 'dog'], 'cta', { threshold: 0.6 })).toEqual([]);
+      expect(fuzzySearch(['ab', 'abc', 'abcd'], 'ab', { limit: 2 }).map((result) => result.item)).toEqual(['ab', 'abc']);
+    });
+
+    it('should return all items for an empty query', () => {
+      expect(fuzzySearch(fruits, '').map((result) => result.refIndex)).toEqual([0, 1, 2, 3]);
+      expect(fuzzySearch(fruits, '', { limit: 1 })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { template, compileTemplate, registerTemplatePipe, type TemplateParams } from '../template';
+import { formatNumber, formatPrice } from '../../number/format';
+import { formatDate } from '../../date';
+
+describe('Template Engine', () => {
+  describe('template', () => {
+    it('should replace placeholders', () => {
+      expect(template('Hello {name}!', { name: 'World' })).toBe('Hello World!');
+      expect(template('I am {age} years old', { age: 25 })).toBe('I am 25 years old');
+    });
+
+    it('should keep unreplaced placeholders', () => {
+      expect(template('Hello {name}!', {})).toBe('Hello {name}!');
+      expect(template('{ not a tag } {"a": 1}', {})).toBe('{ not a tag } {"a": 1}');
+    });
+
+    it('should handle multiple placeholders', () => {
+      expect(template('{greeting} {name}!', { greeting: 'Hi', name: 'John' })).toBe('Hi John!');
+    });
+
+    it('should pick Korean particles for replaced values', () => {
+      expect(template('{item}을(를) 담았습니다', { item: '사과' })).toBe('사과를 담았습니다');
+      expect(template('{item}을(를) 담았습니다', { item: '수박' })).toBe('수박을 담았습니다');
+      expect(template('{name}이/가 {place}으로/로 갑니다', { name: '민수', place: '서울' })).toBe('민수가 서울로 갑니다');
+      expect(template('{count}은(는) 정답', { count: 10 })).toBe('10은 정답');
+      expect(template('{a}과자', { a: 'x' })).toBe('x과자');
+      expect(template('{item}을(를) 담았습니다', {})).toBe('{item}을(를) 담았습니다');
+    });
+
+    it('should read nested paths', () => {
+      expect(template('{user.name}님의 {items[1].title}', { user: { name: '김민수' }, items: [{}, { title: '주문' }] })).toBe(
+        '김민수님의 주문'
+      );
+    });
+  });
+
+  describe('pipes', () => {
+    it('should call registered library formatters', () => {
+      registerTemplatePipe('formatPrice', (value, currency = '₩', decimals = '0') =>
+        formatPrice(Number(value), currency, Number(decimals))
+      );
+      registerTemplatePipe('formatNumber', (value) => formatNumber(Number(value)));
+      registerTemplatePipe('formatDate', (value, format) => formatDate(value as Date, format));
+
+      expect(template('{price | formatPrice}', { price: 12000 })).toBe('₩12,000');
+      expect(template('{price | formatPrice:$:2}', { price: 12.5 })).toBe('$12.50');
+      expect(template('{count | formatNumber}', { count: 1234567 })).toBe('1,234,567');
+      expect(template('{date | formatDate:YYYY.MM.DD}', { date: new Date(2024, 0, 5) })).toBe('2024.01.05');
+      expect(template('{date | formatDate:"HH:mm"}', { date: new Date(2024, 0, 5, 9, 30) })).toBe('09:30');
+    });
+
+    it('should chain string pipes', () => {
+      expect(template('{name | trim | upper}', { name: ' kim ' })).toBe('KIM');
+      expect(template('{title | truncate:5}', { title: 'Hello World' })).toBe('Hello...');
+      expect(template('{name | default:손님}님', {})).toBe('손님님');
+      expect(template('{name | josa:을/를}', { name: '사과' })).toBe('사과를');
+    });
+
+    it('should pluralize', () => {
+      expect(template('{count | plural:# item:# items}', { count: 1 })).toBe('1 item');
+      expect(template('{count | plural:# item:# items}', { count: 3 })).toBe('3 items');
+    });
+
+    it('should use custom and registered pipes', () => {
+      expect(template('{n | double}', { n: 2 }, { pipes: { double: (value) => Number(value) * 2 } })).toBe('4');
+
+      registerTemplatePipe('exclaim', (value, count = '1') => `${value}${'!'.repeat(Number(count))}`);
+      expect(template('{word | exclaim:3}', { word: 'hi' })).toBe('hi!!!');
+    });
+
+    it('should throw for unknown pipes when compiling', () => {
+      expect(() => compileTemplate('{name | unknownPipe}')).toThrow('Unknown template pipe');
+    });
+
+    it('should keep tags with unknown pipes as text in template', () => {
+      expect(template('{name | unknownPipe} {name}', { name: 'Kim' })).toBe('{name | unknownPipe} Kim');
+    });
+  });
+
+  describe('conditionals', () => {
+    const render = compileTemplate('{#if user.vip}VIP {/if}{user.name}님{#if !coupons}, 쿠폰 없음{else}, 쿠폰 {coupons.length}장{/if}');
+
+    it('should render branches', () => {
+      expect(render({ user: { vip: true, name: 'Kim' }, coupons: ['a', 'b'] })).toBe('VIP Kim님, 쿠폰 2장');
+      expect(render({ user: { vip: false, name: 'Lee' }, coupons: [] })).toBe('Lee님, 쿠폰 없음');
+    });
+
+    it('should support nested blocks', () => {
+      const nested = compileTemplate('{#if a}A{#if b}B{else}b{/if}{else}-{/if}');
+      expect(nested({ a: true, b: false })).toBe('Ab');
+      expect(nested({ a: false, b: true })).toBe('-');
+    });
+
+    it('should throw for unbalanced blocks', () => {
+      expect(() => compileTemplate('{#if a}A')).toThrow('Unclosed');
+      expect(() => compileTemplate('A{/if}')).toThrow('Unexpected');
+    });
+
+    it('should keep unbalanced block tags as text in template', () => {
+      expect(template('A{/if} {name}', { name: 'Kim' })).toBe('A{/if} Kim');
+      expect(template('{#if a}A {name}', { a: false, name: 'Kim' })).toBe('{#if a}A Kim');
+      expect(template('{#if a}A{else}B{#if b}C{/if}', { b: true })).toBe('{#if a}A{else}BC');
+    });
+  });
+
+  describe('escaping', () => {
+    it('should escape values but not the template', () => {
+      expect(template('<b>{name}</b>', { name: '<script>"x"</script>' }, { escape: true })).toBe(
+        '<b>&lt;script&gt;&quot;x&quot;&lt;/script&gt;</b>'
+      );
+      expect(template('{html | raw}', { html: '<i>ok</i>' }, { escape: true })).toBe('<i>ok</i>');
+    });
+  });
+
+  describe('compileTemplate types', () => {
+    it('should infer params from the template string', () => {
+      const render = compileTemplate('{user.name}님, {count | comma}개 {#if vip}VIP{/if}', {
+        pipes: { comma: (value) => formatNumber(Number(value)) },
+      });
+
+      expectTypeOf<TemplateParams<'{a.b} {c}'>>().toMatchTypeOf<{ a: { b: unknown }; c: unknown }>();
+      expect(render({ user: { name: 'Kim' }, count: 1000, vip: false })).toBe('Kim님, 1,000개 ');
+
+      // @ts-expect-error - count 누락
+      render({ user: { name: 'Kim' }, vip: true });
+    });
+  });
+});
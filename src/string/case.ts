@@ -20,37 +20,139 @@ export function capitalizeWords(str: string): string {
   return str.replace(/\b\w/g, (char) => char.toUpperCase());
 }
 
+/**
+ * 단어 분리 및 케이스 변환 옵션
+ */
+export interface CaseOptions {
+  /** 약어(XML, ID 등)의 대문자를 유지 (camelCase, pascalCase에만 적용, 기본값: false) */
+  preserveAcronyms?: boolean;
+  /** 문자와 숫자 사이도 단어로 분리 (기본값: false, 'line1'은 한 단어) */
+  separateNumbers?: boolean;
+}
+
+type CharType = 'upper' | 'lower' | 'caseless' | 'digit' | 'emoji' | 'joiner' | 'separator';
+
+function getCharType(char: string): CharType {
+  if (/\p{Lu}|\p{Lt}/u.test(char)) return 'upper';
+  if (/\p{Ll}/u.test(char)) return 'lower';
+  if (/\p{L}/u.test(char)) return 'caseless';
+  if (/\p{N}/u.test(char)) return 'digit';
+  if (/\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(char)) return 'emoji';
+  if (/\p{M}|\u200D|\p{Emoji_Modifier}/u.test(char)) return 'joiner';
+  return 'separator';
+}
+
+// 같은 글자 덩어리 안에서 prev와 current 사이가 단어 경계인지
+function isBoundary(prev: CharType, current: CharType, next: CharType | undefined, options: CaseOptions): boolean {
+  if (current === 'joiner') return false;
+  if (prev === 'emoji' || current === 'emoji') return true;
+
+  const isLetter = (type: CharType) => type === 'upper' || type === 'lower' || type === 'caseless';
+
+  if (prev === 'digit' || current === 'digit') {
+    if (options.separateNumbers) return prev !== current;
+    // 숫자는 앞 단어에 붙이고, 숫자 다음의 대문자부터 새 단어 (HTML5Parser → HTML5, Parser)
+    return prev === 'digit' && current === 'upper';
+  }
+
+  // 한글 등 대소문자가 없는 문자와 라틴 문자 사이
+  if ((prev === 'caseless') !== (current === 'caseless')) return isLetter(prev) && isLetter(current);
+
+  if (prev === 'lower' && current === 'upper') return true;
+  // 약어 끝 (XMLHttp → XML, Http)
+  return prev === 'upper' && current === 'upper' && next === 'lower';
+}
+
+/**
+ * 문자열을 단어 목록으로 분리 (모든 케이스 변환 함수가 공유)
+ * 공백, 기호를 구분자로 쓰고 camelCase 경계, 약어, 한글과 영문 사이, 이모지를 단어로 나눕니다.
+ * 숫자는 기본적으로 앞 단어에 붙습니다.
+ *
+ * @example splitWords('XMLHttpRequest') // ['XML', 'Http', 'Request']
+ * @example splitWords('user_id2FA') // ['user', 'id2', 'FA']
+ * @example splitWords('사용자ID 목록') // ['사용자', 'ID', '목록']
+ * @example splitWords('addressLine1', { separateNumbers: true }) // ['address', 'Line', '1']
+ */
+export function splitWords(str: string, options: CaseOptions = {}): string[] {
+  const chars = Array.from(str);
+  const types = chars.map(getCharType);
+  const words: string[] = [];
+  let word = '';
+  let wordType: CharType | undefined;
+
+  chars.forEach((char, i) => {
+    let type = types[i];
+
+    // ZWJ 이모지 시퀀스(👨‍👩‍👧), 변형 선택자는 앞 이모지에 붙임
+    if (type === 'emoji' && types[i - 1] === 'joiner' && chars[i - 1] === '\u200D' && wordType === 'emoji') {
+      type = 'joiner';
+    }
+    if (char === '\uFE0F') type = 'joiner';
+    // 국기(🇰🇷)는 지역 표시 문자 두 개가 한 글자
+    if (/\p{Regional_Indicator}/u.test(char) && Array.from(word).length === 1 && /\p{Regional_Indicator}/u.test(word)) {
+      type = 'joiner';
+    }
+
+    if (type === 'separator' || (type === 'joiner' && !word)) {
+      if (word) words.push(word);
+      word = '';
+      wordType = undefined;
+      return;
+    }
+
+    if (word && wordType && type !== 'joiner' && isBoundary(wordType, type, types[i + 1], options)) {
+      words.push(word);
+      word = '';
+    }
+
+    word += char;
+    if (type !== 'joiner') wordType = type;
+  });
+
+  if (word) words.push(word);
+  return words;
+}
+
+const isAcronym = (word: string) => word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase();
+
+const capitalizeWord = (word: string, options: CaseOptions) =>
+  options.preserveAcronyms && isAcronym(word) ? word : capitalize(word.toLowerCase());
+
 /**
  * camelCase로 변환
  * @example camelCase('hello world') // 'helloWorld'
  * @example camelCase('hello-world') // 'helloWorld'
+ * @example camelCase('XMLHttpRequest') // 'xmlHttpRequest'
+ * @example camelCase('get HTTP response', { preserveAcronyms: true }) // 'getHTTPResponse'
  */
-export function camelCase(str: string): string {
-  return str
-    .toLowerCase()
-    .replace(/[^a-zA-Z0-9]+(.)/g, (_, char) => char.toUpperCase());
+export function camelCase(str: string, options: CaseOptions = {}): string {
+  return splitWords(str, options)
+    .map((word, i) => (i === 0 ? word.toLowerCase() : capitalizeWord(word, options)))
+    .join('');
 }
 
 /**
  * PascalCase로 변환
  * @example pascalCase('hello world') // 'HelloWorld'
+ * @example pascalCase('xml_http_request') // 'XmlHttpRequest'
+ * @example pascalCase('XMLHttpRequest', { preserveAcronyms: true }) // 'XMLHttpRequest'
  */
-export function pascalCase(str: string): string {
-  return capitalize(camelCase(str));
+export function pascalCase(str: string, options: CaseOptions = {}): string {
+  return splitWords(str, options)
+    .map((word) => capitalizeWord(word, options))
+    .join('');
 }
 
 /**
  * snake_case로 변환
  * @example snakeCase('helloWorld') // 'hello_world'
  * @example snakeCase('Hello World') // 'hello_world'
+ * @example snakeCase('XMLHttpRequest') // 'xml_http_request'
  */
-export function snakeCase(str: string): string {
-  return str
-    .replace(/([A-Z])/g, '_$1')
-    .replace(/[\s-]+/g, '_')
-    .replace(/_+/g, '_')
-    .replace(/^_/, '')
-    .toLowerCase();
+export function snakeCase(str: string, options: CaseOptions = {}): string {
+  return splitWords(str, options)
+    .map((word) => word.toLowerCase())
+    .join('_');
 }
 
 /**
@@ -58,19 +160,18 @@ export function snakeCase(str: string): string {
  * @example kebabCase('helloWorld') // 'hello-world'
  * @example kebabCase('Hello World') // 'hello-world'
  */
-export function kebabCase(str: string): string {
-  return str
-    .replace(/([A-Z])/g, '-$1')
-    .replace(/[\s_]+/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/^-/, '')
-    .toLowerCase();
+export function kebabCase(str: string, options: CaseOptions = {}): string {
+  return splitWords(str, options)
+    .map((word) => word.toLowerCase())
+    .join('-');
 }
 
 /**
  * CONSTANT_CASE로 변환
  * @example constantCase('helloWorld') // 'HELLO_WORLD'
  */
-export function constantCase(str: string): string {
-  return snakeCase(str).toUpperCase();
+export function constantCase(str: string, options: CaseOptions = {}): string {
+  return splitWords(str, options)
+    .map((word) => word.toUpperCase())
+    .join('_');
 }
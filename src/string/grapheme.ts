@@ -0,0 +1,66 @@
+/**
+ * Grapheme & Display Width Utilities
+ *
+ * 이모지, 국기, 결합 문자를 한 글자로 다루기 위한 문자소(grapheme) 분리와 화면 표시 폭 계산
+ */
+
+interface GraphemeSegmenter {
+  segment(input: string): Iterable<{ segment: string }>;
+}
+
+type GraphemeSegmenterConstructor = new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+
+let segmenter: GraphemeSegmenter | undefined;
+
+// Intl.Segmenter를 지원하지 않는 환경용 근사 규칙
+// (CRLF, 국기, 옛한글 자모 조합, 결합 문자·변형 선택자·피부색·태그·ZWJ 이모지 시퀀스)
+const FALLBACK_PATTERN =
+  /\r\n|\p{Regional_Indicator}{2}|[\u1100-\u115F]+[\u1160-\u11A7]*[\u11A8-\u11FF]*|\P{M}(?:\p{M}|[\uFE0E\uFE0F]|\p{Emoji_Modifier}|[\u{E0020}-\u{E007F}]|\u200D\p{Extended_Pictographic})*|\p{M}+/gsu;
+
+// 동아시아 전각 문자 (한글 자모·음절, CJK, 가나, 전각 기호 등)
+const WIDE_PATTERN =
+  /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA000-\uA4CF\uA960-\uA97F\uAC00-\uD7A3\uF900-\uFAFF\uFE10-\uFE19\uFE30-\uFE6F\uFF00-\uFF60\uFFE0-\uFFE6\u{20000}-\u{3FFFD}]/u;
+
+/**
+ * 문자열을 문자소(사용자가 보는 한 글자) 단위로 분리
+ * Intl.Segmenter를 사용하며, 지원하지 않는 환경에서는 근사 규칙으로 분리합니다.
+ *
+ * @example splitGraphemes('👍🏽ok') // ['👍🏽', 'o', 'k']
+ * @example splitGraphemes('🇰🇷👨‍👩‍👧') // ['🇰🇷', '👨‍👩‍👧']
+ */
+export function splitGraphemes(str: string): string[] {
+  const Segmenter = (Intl as unknown as { Segmenter?: GraphemeSegmenterConstructor }).Segmenter;
+
+  if (!Segmenter) return str.match(FALLBACK_PATTERN) ?? [];
+
+  segmenter ??= new Segmenter(undefined, { granularity: 'grapheme' });
+  return Array.from(segmenter.segment(str), ({ segment }) => segment);
+}
+
+/**
+ * 문자소 하나의 화면 표시 폭 (전각 문자와 이모지 2, 결합 문자와 제어 문자 0, 그 외 1)
+ */
+function getGraphemeWidth(grapheme: string): number {
+  if (/\p{Emoji_Presentation}|\uFE0F|\p{Regional_Indicator}/u.test(grapheme)) return 2;
+  if (/^(?:\p{M}|\p{Cc}|\p{Cf})+$/u.test(grapheme)) return 0;
+  return WIDE_PATTERN.test(grapheme) ? 2 : 1;
+}
+
+/**
+ * 문자열의 화면 표시 폭 (터미널, 고정폭 글꼴 기준)
+ * 한글, 한자, 가나 등 전각 문자와 이모지는 2칸으로 계산합니다.
+ *
+ * @example getDisplayWidth('abc') // 3
+ * @example getDisplayWidth('한글') // 4
+ * @example getDisplayWidth('👍🏽') // 2
+ */
+export function getDisplayWidth(str: string): number {
+  return splitGraphemes(str).reduce((width, grapheme) => width + getGraphemeWidth(grapheme), 0);
+}
+
+/**
+ * 문자열 길이 측정 단위
+ * - grapheme: 문자소 개수 (이모지, 결합 문자도 한 글자)
+ * - width: 화면 표시 폭 (전각 문자와 이모지는 2칸)
+ */
+export type StringUnit = 'grapheme' | 'width';
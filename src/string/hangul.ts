@@ -0,0 +1,404 @@
+/**
+ * Hangul Text Utilities
+ *
+ * 초성 추출/검색, 조사 자동 선택, 자모 분해/조합, 로마자 표기 (국어의 로마자 표기법)
+ */
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+
+const CHOSEONG = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const JUNGSEONG = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ', 'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ'];
+const JONGSEONG = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
+// 겹모음, 겹받침 ↔ 구성 자모
+const COMPOUND_JAMO: Record<string, string> = {
+  ㅘ: 'ㅗㅏ', ㅙ: 'ㅗㅐ', ㅚ: 'ㅗㅣ', ㅝ: 'ㅜㅓ', ㅞ: 'ㅜㅔ', ㅟ: 'ㅜㅣ', ㅢ: 'ㅡㅣ',
+  ㄳ: 'ㄱㅅ', ㄵ: 'ㄴㅈ', ㄶ: 'ㄴㅎ', ㄺ: 'ㄹㄱ', ㄻ: 'ㄹㅁ', ㄼ: 'ㄹㅂ', ㄽ: 'ㄹㅅ', ㄾ: 'ㄹㅌ', ㄿ: 'ㄹㅍ', ㅀ: 'ㄹㅎ', ㅄ: 'ㅂㅅ',
+};
+const COMBINED_JAMO: Record<string, string> = Object.fromEntries(
+  Object.entries(COMPOUND_JAMO).map(([compound, parts]) => [parts, compound])
+);
+
+/**
+ * 한글 음절 구성
+ */
+export interface HangulSyllable {
+  /** 초성 */
+  choseong: string;
+  /** 중성 */
+  jungseong: string;
+  /** 종성 (받침이 없으면 빈 문자열) */
+  jongseong: string;
+}
+
+/**
+ * 완성형 한글 음절인지 확인
+ * @example isHangulSyllable('가') // true
+ * @example isHangulSyllable('ㄱ') // false
+ */
+export function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return char.length === 1 && code >= HANGUL_BASE && code <= HANGUL_LAST;
+}
+
+/**
+ * 한글 음절을 초성/중성/종성으로 분해 (한글 음절이 아니면 null)
+ * @example decomposeHangul('값') // { choseong: 'ㄱ', jungseong: 'ㅏ', jongseong: 'ㅄ' }
+ */
+export function decomposeHangul(char: string): HangulSyllable | null {
+  if (!isHangulSyllable(char)) return null;
+
+  const offset = char.charCodeAt(0) - HANGUL_BASE;
+  return {
+    choseong: CHOSEONG[Math.floor(offset / 588)],
+    jungseong: JUNGSEONG[Math.floor((offset % 588) / 28)],
+    jongseong: JONGSEONG[offset % 28],
+  };
+}
+
+/**
+ * 초성/중성/종성으로 한글 음절 조합 (조합할 수 없으면 null)
+ * @example composeHangul('ㄱ', 'ㅏ', 'ㅄ') // '값'
+ * @example composeHangul('ㄱ', 'ㅗㅏ') // '과'
+ */
+export function composeHangul(choseong: string, jungseong: string, jongseong: string = ''): string | null {
+  const cho = CHOSEONG.indexOf(choseong);
+  const jung = JUNGSEONG.indexOf(COMBINED_JAMO[jungseong] ?? jungseong);
+  const jong = JONGSEONG.indexOf(COMBINED_JAMO[jongseong] ?? jongseong);
+
+  if (cho === -1 || jung === -1 || jong === -1) return null;
+  return String.fromCharCode(HANGUL_BASE + cho * 588 + jung * 28 + jong);
+}
+
+/**
+ * 한글을 자모 단위로 분해 (겹모음, 겹받침도 나눔, 한글이 아닌 문자는 그대로)
+ * @example disassembleHangul('값어치') // 'ㄱㅏㅂㅅㅇㅓㅊㅣ'
+ * @example disassembleHangul('과자') // 'ㄱㅗㅏㅈㅏ'
+ */
+export function disassembleHangul(str: string): string {
+  return Array.from(str)
+    .map((char) => {
+      const syllable = decomposeHangul(char);
+      const jamo = syllable ? syllable.choseong + syllable.jungseong + syllable.jongseong : char;
+      return Array.from(jamo)
+        .map((part) => COMPOUND_JAMO[part] ?? part)
+        .join('');
+    })
+    .join('');
+}
+
+const isConsonant = (char: string) => char !== '' && (CHOSEONG.includes(char) || JONGSEONG.includes(char));
+const isVowel = (char: string) => JUNGSEONG.includes(char);
+
+/**
+ * 자모를 한글 음절로 조합 (두벌식 입력과 같은 규칙, 조합할 수 없는 자모와 다른 문자는 그대로)
+ * @example assembleHangul('ㄱㅏㅂㅅㅇㅓㅊㅣ') // '값어치'
+ * @example assembleHangul('ㅇㅏㄴㄴㅕㅇ') // '안녕'
+ * @example assembleHangul('ㄷㅏㄹㄱㅇㅣ') // '닭이'
+ */
+export function assembleHangul(jamo: string): string {
+  let result = '';
+  let cho = '';
+  let jung = '';
+  let jong = '';
+
+  const flush = () => {
+    result += (cho && jung && composeHangul(cho, jung, jong)) || cho + jung;
+    cho = jung = jong = '';
+  };
+
+  Array.from(jamo).forEach((char) => {
+    if (isVowel(char)) {
+      if (jong) {
+        // 받침이 다음 음절의 초성으로 넘어감 (겹받침은 뒤 자음만)
+        const parts = COMPOUND_JAMO[jong] ?? jong;
+        const moved = parts.length === 2 ? parts[1] : parts;
+        jong = parts.length === 2 ? parts[0] : '';
+        flush();
+        cho = moved;
+        jung = char;
+      } else if (jung && COMBINED_JAMO[jung + char]) {
+        jung = COMBINED_JAMO[jung + char];
+      } else if (cho && !jung) {
+        jung = char;
+      } else {
+        flush();
+        jung = char;
+      }
+      return;
+    }
+
+    if (isConsonant(char)) {
+      if (cho && jung && !jong && JONGSEONG.includes(char)) {
+        jong = char;
+      } else if (cho && jung && jong && COMBINED_JAMO[jong + char]) {
+        jong = COMBINED_JAMO[jong + char];
+      } else {
+        flush();
+        if (CHOSEONG.includes(char)) cho = char;
+        else result += char;
+      }
+      return;
+    }
+
+    flush();
+    result += char;
+  });
+
+  flush();
+  return result;
+}
+
+/**
+ * 초성 추출 (한글이 아닌 문자는 그대로)
+ * @example getChoseong('김민수') // 'ㄱㅁㅅ'
+ * @example getChoseong('React 입문') // 'React ㅇㅁ'
+ */
+export function getChoseong(str: string): string {
+  return Array.from(str)
+    .map((char) => decomposeHangul(char)?.choseong ?? char)
+    .join('');
+}
+
+/**
+ * 초성 검색 (검색어의 자음은 초성과, 나머지 문자는 그대로 비교)
+ * @example choseongIncludes('김민수', 'ㄱㅁㅅ') // true
+ * @example choseongIncludes('김민수', 'ㅁ수') // true
+ * @example choseongIncludes('김민수', 'ㄱㅅ') // false
+ */
+export function choseongIncludes(text: string, query: string): boolean {
+  const chars = Array.from(text);
+  const pattern = Array.from(query);
+  if (pattern.length === 0) return true;
+
+  const matches = (char: string, target: string) =>
+    target === char || (CHOSEONG.includes(target) && decomposeHangul(char)?.choseong === target);
+
+  for (let start = 0; start + pattern.length <= chars.length; start++) {
+    if (pattern.every((target, i) => matches(chars[start + i], target))) return true;
+  }
+  return false;
+}
+
+// 숫자 읽기의 마지막 소리 (일, 이, 삼 ... / 십, 백, 천, 만, 억, 조, 경)
+const DIGIT_FINALS = ['ㅇ', 'ㄹ', '', 'ㅁ', '', '', 'ㄱ', 'ㄹ', 'ㄹ', ''];
+const UNIT_FINALS: [number, string][] = [[16, 'ㅇ'], [12, ''], [8, 'ㄱ'], [4, 'ㄴ'], [3, 'ㄴ'], [2, 'ㄱ'], [1, 'ㅂ']];
+
+// 단어의 마지막 받침 ('' = 받침 없음, null = 알 수 없음)
+function getLastFinal(word: string): string | null {
+  const text = word.replace(/\s*\([^)]*\)$/, '').replace(/[^\p{L}\p{N}]+$/u, '');
+  const last = text.slice(-1);
+
+  if (isHangulSyllable(last)) return decomposeHangul(last)!.jongseong;
+  if (isConsonant(last)) return last;
+  if (isVowel(last)) return '';
+
+  const number = text.match(/(\.?)(\d+)$/);
+  if (!number) return null;
+
+  const [, decimal, digits] = number;
+  const zeros = digits.length - digits.replace(/0+$/, '').length;
+  if (decimal || zeros === 0 || zeros === digits.length) return DIGIT_FINALS[Number(digits.slice(-1))];
+  return UNIT_FINALS.find(([count]) => zeros >= count)![1];
+}
+
+/**
+ * 마지막 글자에 받침이 있는지 확인 (숫자는 읽는 소리 기준, 판단할 수 없으면 null)
+ * @example hasBatchim('사과') // false
+ * @example hasBatchim('수박') // true
+ * @example hasBatchim('10') // true (십)
+ * @example hasBatchim('React') // null
+ */
+export function hasBatchim(word: string): boolean | null {
+  const final = getLastFinal(word);
+  return final === null ? null : final !== '';
+}
+
+// [받침 있을 때, 받침 없을 때]
+const JOSA_PAIRS: [string, string][] = [
+  ['을', '를'],
+  ['이', '가'],
+  ['은', '는'],
+  ['과', '와'],
+  ['으로', '로'],
+  ['으로서', '로서'],
+  ['으로써', '로써'],
+  ['이나', '나'],
+  ['이랑', '랑'],
+  ['이라', '라'],
+  ['이며', '며'],
+  ['이여', '여'],
+  ['이에요', '예요'],
+  ['아', '야'],
+];
+
+function findJosaPair(particle: string): [string, string] | undefined {
+  const forms = particle.match(/^([가-힣]+)(?:\(([가-힣]+)\)|\/([가-힣]+))?$/);
+  if (!forms) return undefined;
+
+  const [, first, second = forms[3]] = forms;
+  return JOSA_PAIRS.find(
+    (pair) => pair.includes(first) && (second === undefined || (pair.includes(second) && second !== first))
+  );
+}
+
+/**
+ * 단어에 맞는 조사 선택 ('으로/로'는 ㄹ 받침 뒤에 '로')
+ * 조사는 '을/를', '을(를)', '를' 중 어떤 형태로 써도 되며, 받침을 판단할 수 없으면 '을(를)' 형태로 반환합니다.
+ * 알 수 없는 조사는 그대로 반환합니다.
+ *
+ * @example pickJosa('사과', '을/를') // '를'
+ * @example pickJosa('서울', '으로') // '로'
+ */
+export function pickJosa(word: string, particle: string): string {
+  const pair = findJosaPair(particle);
+  if (!pair) return particle;
+
+  const final = getLastFinal(word);
+  if (final === null) return `${pair[0]}(${pair[1]})`;
+  if (pair[0].startsWith('으로')) {
+    return final === '' || final === 'ㄹ' ? pair[1] : pair[0];
+  }
+  return final === '' ? pair[1] : pair[0];
+}
+
+/**
+ * 단어 뒤에 알맞은 조사 붙이기
+ * @example josa('사과', '을/를') // '사과를'
+ * @example josa('수박', '이/가') // '수박이'
+ * @example josa('10', '은/는') // '10은'
+ */
+export function josa(word: string, particle: string): string {
+  return word + pickJosa(word, particle);
+}
+
+/**
+ * romanize 옵션
+ */
+export interface RomanizeOptions {
+  /**
+   * 받침 ㄱ/ㄷ/ㅂ 뒤의 ㅎ도 거센소리로 적기 (용언, 예: 잡혀 japyeo)
+   * 용언 어간의 겹받침 예외도 반영합니다 (밟다 bapda, 맑게 malge)
+   * 기본값 false는 체언 규칙을 따라 ㅎ을 밝혀 적습니다 (예: 묵호 mukho)
+   */
+  aspirate?: boolean;
+}
+
+const ROMAN_INITIALS: Record<string, string> = {
+  ㄱ: 'g', ㄲ: 'kk', ㄴ: 'n', ㄷ: 'd', ㄸ: 'tt', ㄹ: 'r', ㅁ: 'm', ㅂ: 'b', ㅃ: 'pp', ㅅ: 's',
+  ㅆ: 'ss', ㅇ: '', ㅈ: 'j', ㅉ: 'jj', ㅊ: 'ch', ㅋ: 'k', ㅌ: 't', ㅍ: 'p', ㅎ: 'h',
+};
+const ROMAN_VOWELS: Record<string, string> = {
+  ㅏ: 'a', ㅐ: 'ae', ㅑ: 'ya', ㅒ: 'yae', ㅓ: 'eo', ㅔ: 'e', ㅕ: 'yeo', ㅖ: 'ye', ㅗ: 'o', ㅘ: 'wa', ㅙ: 'wae',
+  ㅚ: 'oe', ㅛ: 'yo', ㅜ: 'u', ㅝ: 'wo', ㅞ: 'we', ㅟ: 'wi', ㅠ: 'yu', ㅡ: 'eu', ㅢ: 'ui', ㅣ: 'i',
+};
+// 받침의 대표음 (k, n, t, l, m, p, ng)
+const FINAL_SOUNDS: Record<string, string> = {
+  ㄱ: 'k', ㄲ: 'k', ㅋ: 'k', ㄳ: 'k', ㄺ: 'k',
+  ㄴ: 'n', ㄵ: 'n', ㄶ: 'n',
+  ㄷ: 't', ㅅ: 't', ㅆ: 't', ㅈ: 't', ㅊ: 't', ㅌ: 't', ㅎ: 't',
+  ㄹ: 'l', ㄼ: 'l', ㄽ: 'l', ㄾ: 'l', ㅀ: 'l',
+  ㅁ: 'm', ㄻ: 'm',
+  ㅂ: 'p', ㅍ: 'p', ㅄ: 'p', ㄿ: 'p',
+  ㅇ: 'ng',
+};
+const NASAL_SOUNDS: Record<string, string> = { k: 'ng', t: 'n', p: 'm' };
+const ASPIRATED: Record<string, string> = { ㄱ: 'k', ㄷ: 't', ㅂ: 'p', ㅈ: 'ch' };
+
+// 용언 어간 겹받침의 예외 발음: 밟-은 자음 앞에서 [밥], ㄺ은 ㄱ 앞에서 [ㄹ] (밟다 [밥따], 맑게 [말께])
+function predicateFinal(char: string, jong: string, cho: string): string {
+  if (cho === 'ㅇ' || cho === 'ㅎ') return jong;
+  if (char === '밟') return 'ㅂ';
+  return jong === 'ㄺ' && cho === 'ㄱ' ? 'ㄹ' : jong;
+}
+
+// 받침과 다음 음절 초성이 만날 때의 소리 변화 → [앞 음절 끝소리, 다음 음절 첫소리]
+function romanizeJoint(jong: string, cho: string, nextVowel: string, aspirate: boolean): [string, string] {
+  if (!jong) return ['', ROMAN_INITIALS[cho]];
+
+  const parts = COMPOUND_JAMO[jong] ?? jong;
+  const [first, second] = parts.length === 2 ? [parts[0], parts[1]] : ['', parts];
+  const head = first === 'ㄹ' ? 'l' : first ? FINAL_SOUNDS[first] : '';
+  const sound = FINAL_SOUNDS[jong];
+
+  // 연음 (한국어 hangugeo, 읽어 ilgeo), 구개음화 (같이 gachi, 해돋이 haedoji)
+  if (cho === 'ㅇ') {
+    if (jong === 'ㅇ') return ['ng', ''];
+    if (second === 'ㅎ') return [head === 'l' ? '' : head, head === 'l' ? 'r' : ''];
+    if (nextVowel === 'ㅣ' && (second === 'ㄷ' || second === 'ㅌ')) return [head, second === 'ㄷ' ? 'j' : 'ch'];
+    return [head, second === 'ㄹ' ? 'r' : ROMAN_INITIALS[second]];
+  }
+
+  // 거센소리되기 (좋고 joko, 잡혀 japyeo, 굳히다 guchida), 체언에서는 ㅎ을 밝혀 적음 (묵호 mukho)
+  if (second === 'ㅎ' && ASPIRATED[cho]) return [head, ASPIRATED[cho]];
+  if (second === 'ㅎ' && cho === 'ㅅ') return [head, 'ss'];
+  if (second === 'ㅎ' && cho === 'ㄴ') return head === 'l' ? ['l', 'l'] : ['n', 'n'];
+  if (cho === 'ㅎ' && !first && ['ㄱ', 'ㄷ', 'ㅂ', 'ㅈ', 'ㅅ', 'ㅊ', 'ㅌ', 'ㄲ', 'ㅋ', 'ㅍ'].includes(jong)) {
+    if (!aspirate) return [sound, 'h'];
+    if (jong === 'ㄷ' && nextVowel === 'ㅣ') return ['', 'ch'];
+    return ['', jong === 'ㅈ' ? 'ch' : sound === 'k' ? 'k' : sound === 'p' ? 'p' : 't'];
+  }
+  if (cho === 'ㅎ' && (jong === 'ㄺ' || jong === 'ㄼ' || jong === 'ㄵ')) {
+    return [head, jong === 'ㄺ' ? 'k' : jong === 'ㄼ' ? 'p' : 'ch'];
+  }
+
+  // 비음화 (백마 baengma, 종로 jongno, 국립 gungnip), 유음화 (신라 silla, 설날 seollal)
+  if (cho === 'ㄹ') {
+    if (sound === 'l' || sound === 'n') return ['l', 'l'];
+    return [NASAL_SOUNDS[sound] ?? sound, 'n'];
+  }
+  if (cho === 'ㄴ' || cho === 'ㅁ') {
+    if (sound === 'l' && cho === 'ㄴ') return ['l', 'l'];
+    return [NASAL_SOUNDS[sound] ?? sound, ROMAN_INITIALS[cho]];
+  }
+
+  return [sound, ROMAN_INITIALS[cho]];
+}
+
+/**
+ * 한글을 로마자로 변환 (국어의 로마자 표기법)
+ * 연음, 비음화, 유음화, 구개음화, 거센소리되기는 반영하고 된소리되기는 반영하지 않습니다.
+ * 기본값은 체언 규칙이라 받침 ㄱ/ㄷ/ㅂ 뒤의 ㅎ을 밝혀 적으며, 용언은 aspirate 옵션을 사용합니다.
+ * 한글이 아닌 문자는 그대로 두며, 소리 변화는 붙어 있는 음절 사이에만 적용합니다.
+ *
+ * @example romanize('한국어') // 'hangugeo'
+ * @example romanize('종로') // 'jongno'
+ * @example romanize('신라') // 'silla'
+ * @example romanize('같이') // 'gachi'
+ * @example romanize('서울 특별시') // 'seoul teukbyeolsi'
+ * @example romanize('집현전') // 'jiphyeonjeon'
+ * @example romanize('잡혀', { aspirate: true }) // 'japyeo'
+ * @example romanize('밟다', { aspirate: true }) // 'bapda'
+ */
+export function romanize(str: string, options: RomanizeOptions = {}): string {
+  const { aspirate = false } = options;
+  const chars = Array.from(str);
+  const syllables = chars.map(decomposeHangul);
+  let result = '';
+  let pendingInitial: string | null = null;
+
+  syllables.forEach((syllable, i) => {
+    if (!syllable) {
+      result += chars[i];
+      pendingInitial = null;
+      return;
+    }
+
+    const initial: string = pendingInitial ?? ROMAN_INITIALS[syllable.choseong];
+    const next = syllables[i + 1];
+    let ending = FINAL_SOUNDS[syllable.jongseong] ?? '';
+
+    pendingInitial = null;
+    if (next) {
+      const jong = aspirate ? predicateFinal(chars[i], syllable.jongseong, next.choseong) : syllable.jongseong;
+      const [end, start] = romanizeJoint(jong, next.choseong, next.jungseong, aspirate);
+      ending = end;
+      pendingInitial = start;
+    }
+
+    result += initial + ROMAN_VOWELS[syllable.jungseong] + ending;
+  });
+
+  return result;
+}
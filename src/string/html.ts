@@ -0,0 +1,328 @@
+/**
+ * HTML Sanitizing Utilities
+ *
+ * DOM 없이 동작하는 HTML 토크나이저 기반 새니타이저, 엔티티 인코딩/디코딩, 텍스트 추출
+ */
+
+type HtmlToken =
+  | { type: 'text'; text: string }
+  | { type: 'rawtext'; tag: string; text: string }
+  | { type: 'start'; name: string; attributes: [string, string][]; selfClosing: boolean }
+  | { type: 'end'; name: string };
+
+// 내용을 HTML로 해석하지 않는 요소 (닫는 태그까지 텍스트)
+const RAW_TEXT_TAGS = ['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'plaintext'];
+
+// 그중 엔티티를 해석하는 요소 (RCDATA)
+const RCDATA_TAGS = ['textarea', 'title'];
+
+// 허용 목록에 넣어도 허용하지 않는 요소
+const FORBIDDEN_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'base', 'meta', 'link', 'frame', 'frameset'];
+
+const VOID_TAGS = ['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'source', 'track', 'wbr'];
+
+const URL_ATTRIBUTES = ['href', 'src', 'cite', 'action', 'formaction', 'poster', 'background', 'xlink:href', 'srcset'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  colon: ':', semi: ';', comma: ',', period: '.', sol: '/', bsol: '\\', lpar: '(', rpar: ')',
+  excl: '!', quest: '?', num: '#', equals: '=', plus: '+', percnt: '%', Tab: '\t', NewLine: '\n',
+  copy: '©', reg: '®', trade: '™', hellip: '…', middot: '·', bull: '•', times: '×', divide: '÷',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', deg: '°', plusmn: '±', para: '¶', sect: '§',
+};
+
+/**
+ * HTML 특수 문자 인코딩 (&, <, >, ", ')
+ * @example escapeHtml('<a href="x">') // '&lt;a href=&quot;x&quot;&gt;'
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&${{ '&': 'amp', '<': 'lt', '>': 'gt', '"': 'quot', "'": '#39' }[char]};`);
+}
+
+/**
+ * HTML 엔티티 디코딩 (이름 엔티티와 10진/16진 숫자 엔티티)
+ * 알 수 없는 엔티티는 그대로 두고, 잘못된 코드 포인트는 U+FFFD로 바꿉니다.
+ *
+ * @example decodeHtmlEntities('a &lt; b &amp;&amp; c') // 'a < b && c'
+ * @example decodeHtmlEntities('&#54620;&#xAE00;') // '한글'
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z][a-z0-9]*));?/gi, (match, decimal, hex, name) => {
+    if (name) {
+      const hasSemicolon = match.endsWith(';');
+      return hasSemicolon && NAMED_ENTITIES[name] !== undefined ? NAMED_ENTITIES[name] : match;
+    }
+
+    const code = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+    const valid = code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+    return valid ? String.fromCodePoint(code) : '�';
+  });
+}
+
+function readAttributes(html: string, start: number): { attributes: [string, string][]; end: number; selfClosing: boolean } | null {
+  const attributes: [string, string][] = [];
+  const pattern = /[\s/]*(?:([^\s/>][^\s/>=]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?)?/y;
+  let index = start;
+
+  while (index < html.length) {
+    if (html[index] === '>') {
+      return { attributes, end: index + 1, selfClosing: html[index - 1] === '/' };
+    }
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(html);
+    if (!match || pattern.lastIndex === index) return null;
+
+    if (match[1]) attributes.push([match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? '']);
+    index = pattern.lastIndex;
+  }
+
+  // 닫히지 않은 태그
+  return null;
+}
+
+// HTML을 토큰으로 분리 (주석, DOCTYPE, 처리 명령은 버림)
+function tokenize(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  let index = 0;
+  let text = '';
+
+  const flushText = () => {
+    if (text) tokens.push({ type: 'text', text });
+    text = '';
+  };
+
+  while (index < html.length) {
+    const next = html.indexOf('<', index);
+    if (next === -1) {
+      text += html.slice(index);
+      break;
+    }
+
+    text += html.slice(index, next);
+    index = next;
+
+    if (html.startsWith('<!--', index)) {
+      const end = html.indexOf('-->', index + 4);
+      flushText();
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    if (/^<[!?]/.test(html.slice(index, index + 2)) || /^<\/[^a-z]/i.test(html.slice(index, index + 3))) {
+      const end = html.indexOf('>', index);
+      flushText();
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const tag = /^<(\/?)([a-z][^\s/>]*)/i.exec(html.slice(index));
+    if (!tag) {
+      text += '<';
+      index += 1;
+      continue;
+    }
+
+    // 닫히지 않은 태그('a<b then c')는 텍스트로
+    const parsed = readAttributes(html, index + tag[0].length);
+    if (!parsed) {
+      text += '<';
+      index += 1;
+      continue;
+    }
+
+    flushText();
+    const name = tag[2].toLowerCase();
+
+    index = parsed.end;
+    if (tag[1]) {
+      tokens.push({ type: 'end', name });
+      continue;
+    }
+
+    tokens.push({ type: 'start', name, attributes: parsed.attributes, selfClosing: parsed.selfClosing });
+
+    if (RAW_TEXT_TAGS.includes(name)) {
+      const close = new RegExp(`</${name}(?=[\\s/>])`, 'ig');
+      close.lastIndex = index;
+      const end = name === 'plaintext' ? null : close.exec(html);
+      const contentEnd = end ? end.index : html.length;
+
+      tokens.push({ type: 'rawtext', tag: name, text: html.slice(index, contentEnd) });
+      index = contentEnd;
+    }
+  }
+
+  flushText();
+  return tokens;
+}
+
+/**
+ * sanitizeHtml 옵션
+ */
+export interface SanitizeHtmlOptions {
+  /** 허용할 태그 (script, style, iframe 등은 넣어도 허용하지 않음) */
+  allowedTags?: string[];
+  /** 태그별 허용 속성 ('*'는 모든 태그, on으로 시작하는 이벤트 속성은 항상 제거) */
+  allowedAttributes?: Record<string, string[]>;
+  /** href, src 등 URL 속성에 허용할 프로토콜 (기본값: ['http', 'https', 'mailto', 'tel']) */
+  allowedProtocols?: string[];
+  /** 프로토콜 없는 상대 URL 허용 (기본값: true) */
+  allowRelativeUrls?: boolean;
+}
+
+/**
+ * sanitizeHtml 기본 허용 태그
+ */
+export const DEFAULT_ALLOWED_TAGS = [
+  'a', 'b', 'blockquote', 'br', 'code', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img',
+  'li', 'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'u', 'ul',
+];
+
+/**
+ * sanitizeHtml 기본 허용 속성
+ */
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title', 'target', 'rel'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+function isSafeUrl(value: string, protocols: string[], allowRelative: boolean): boolean {
+  // 제어 문자와 공백을 지운 뒤 프로토콜 확인 (java\tscript:, &#106;avascript: 등)
+  const normalized = decodeHtmlEntities(value).replace(/[\u0000- \u007f-\u009f]/g, '');
+  const protocol = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+
+  if (!protocol) return allowRelative;
+  return protocols.includes(protocol[1].toLowerCase());
+}
+
+/**
+ * HTML 새니타이즈 (허용 목록에 있는 태그와 속성만 남김, DOM 없이 Node에서도 동작)
+ * - 허용하지 않는 태그는 태그만 제거하고 내용은 남기며, script/style 등의 내용은 제거합니다.
+ * - on* 이벤트 속성과 허용하지 않는 프로토콜(javascript: 등)의 URL 속성은 제거합니다.
+ * - 텍스트와 속성 값은 다시 인코딩하고, 닫히지 않은 태그는 닫아 줍니다.
+ * - target="_blank" 링크에는 허용 속성과 관계없이 rel="noopener noreferrer"를 추가합니다.
+ *
+ * @example
+ * sanitizeHtml('<p onclick="x()">Hi <script>alert(1)</script><a href="javascript:alert(1)">link</a></p>')
+ * // '<p>Hi <a>link</a></p>'
+ *
+ * @example
+ * sanitizeHtml('<b>bold</b> <i>italic</i>', { allowedTags: ['b'] }) // '<b>bold</b> italic'
+ */
+export function sanitizeHtml(html: string, options: SanitizeHtmlOptions = {}): string {
+  const {
+    allowedTags = DEFAULT_ALLOWED_TAGS,
+    allowedAttributes = DEFAULT_ALLOWED_ATTRIBUTES,
+    allowedProtocols = ['http', 'https', 'mailto', 'tel'],
+    allowRelativeUrls = true,
+  } = options;
+
+  const isAllowed = (name: string) => allowedTags.includes(name) && !FORBIDDEN_TAGS.includes(name);
+  const stack: string[] = [];
+  let output = '';
+
+  const renderAttributes = (name: string, attributes: [string, string][]) => {
+    const allowed = [...(allowedAttributes[name] ?? []), ...(allowedAttributes['*'] ?? [])];
+    const seen = new Set<string>();
+    const rendered: [string, string][] = [];
+
+    attributes.forEach(([attribute, raw]) => {
+      if (seen.has(attribute) || !allowed.includes(attribute) || attribute.startsWith('on')) return;
+      seen.add(attribute);
+
+      const value = decodeHtmlEntities(raw);
+      if (URL_ATTRIBUTES.includes(attribute) && !isSafeUrl(value, allowedProtocols, allowRelativeUrls)) return;
+      rendered.push([attribute, value.trim()]);
+    });
+
+    const target = rendered.find(([attribute]) => attribute === 'target');
+    if (name === 'a' && target?.[1].toLowerCase() === '_blank') {
+      const rel = rendered.find(([attribute]) => attribute === 'rel');
+      if (rel) rel[1] = Array.from(new Set([...rel[1].split(/\s+/).filter(Boolean), 'noopener', 'noreferrer'])).join(' ');
+      else rendered.push(['rel', 'noopener noreferrer']);
+    }
+
+    return rendered.map(([attribute, value]) => ` ${attribute}="${escapeHtml(value)}"`).join('');
+  };
+
+  tokenize(html).forEach((token) => {
+    switch (token.type) {
+      case 'text':
+        output += escapeHtml(decodeHtmlEntities(token.text));
+        break;
+      case 'rawtext':
+        if (!isAllowed(token.tag)) break;
+        output += escapeHtml(RCDATA_TAGS.includes(token.tag) ? decodeHtmlEntities(token.text) : token.text);
+        break;
+      case 'start':
+        if (!isAllowed(token.name)) break;
+        output += `<${token.name}${renderAttributes(token.name, token.attributes)}>`;
+        if (!VOID_TAGS.includes(token.name) && !token.selfClosing) stack.push(token.name);
+        break;
+      case 'end': {
+        const depth = stack.lastIndexOf(token.name);
+        if (depth === -1) break;
+        while (stack.length > depth) output += `</${stack.pop()}>`;
+        break;
+      }
+    }
+  });
+
+  while (stack.length > 0) output += `</${stack.pop()}>`;
+  return output;
+}
+
+// 앞뒤로 줄바꿈을 넣는 요소 (문단은 빈 줄, 그 외는 줄바꿈 하나)
+const PARAGRAPH_TAGS = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'ul', 'ol', 'table', 'hr'];
+const LINE_TAGS = ['div', 'li', 'tr', 'section', 'article', 'header', 'footer', 'nav', 'aside', 'dt', 'dd', 'figure'];
+
+/**
+ * HTML에서 텍스트만 추출 (엔티티 디코딩, 문단은 빈 줄, <br>과 블록 요소는 줄바꿈으로 유지)
+ * script, style 등의 내용은 제외하고 pre 밖의 연속된 공백은 하나로 줄입니다.
+ *
+ * @example htmlToText('<p>Hello <b>World</b></p><p>a &lt; b</p>') // 'Hello World\n\na < b'
+ * @example htmlToText('line1<br>line2') // 'line1\nline2'
+ */
+export function htmlToText(html: string): string {
+  let output = '';
+  let preDepth = 0;
+
+  const breakLine = (count: number) => {
+    const trailing = output.match(/\n*$/)![0].length;
+    if (output && trailing < count) output = output.replace(/[ \t]+$/, '') + '\n'.repeat(count - trailing);
+  };
+
+  tokenize(html).forEach((token) => {
+    if (token.type === 'text') {
+      const text = decodeHtmlEntities(token.text);
+      if (preDepth > 0) {
+        output += text;
+      } else {
+        const collapsed = text.replace(/\s+/g, ' ');
+        output += /(^|\n| )$/.test(output) ? collapsed.replace(/^ /, '') : collapsed;
+      }
+      return;
+    }
+
+    if (token.type === 'rawtext') {
+      if (RCDATA_TAGS.includes(token.tag)) output += decodeHtmlEntities(token.text);
+      else if (token.tag === 'xmp') output += token.text;
+      return;
+    }
+
+    if (token.name === 'br') {
+      output = output.replace(/ $/, '') + '\n';
+      return;
+    }
+
+    if (token.name === 'pre') preDepth = Math.max(preDepth + (token.type === 'start' ? 1 : -1), 0);
+    if (PARAGRAPH_TAGS.includes(token.name)) breakLine(2);
+    else if (LINE_TAGS.includes(token.name)) breakLine(1);
+  });
+
+  return output.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
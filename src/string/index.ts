@@ -10,5 +10,23 @@ export * from './case';
 // Manipulation utilities
 export * from './manipulation';
 
+// Grapheme & display width utilities
+export * from './grapheme';
+
 // Validation utilities
 export * from './validation';
+
+// Hangul utilities
+export * from './hangul';
+
+// Similarity & fuzzy search utilities
+export * from './similarity';
+
+// HTML sanitizing utilities
+export * from './html';
+
+// Template engine
+export * from './template';
+
+// Object key case conversion utilities
+export * from './keys';
@@ -0,0 +1,155 @@
+/**
+ * Object Key Case Conversion Utilities
+ *
+ * API 요청/응답 본문의 키를 snake_case ↔ camelCase로 깊게 변환
+ */
+
+import { camelCase, snakeCase } from './case';
+import { isPlainObject } from '../object/transform';
+
+type Preserved = Date | Blob | RegExp | Map<unknown, unknown> | Set<unknown> | ((...args: any[]) => any);
+
+type SeparatorsToUnderscore<S extends string> = S extends `${infer Head}${'-' | ' '}${infer Tail}`
+  ? SeparatorsToUnderscore<`${Head}_${Tail}`>
+  : S;
+
+type IsUpper<C extends string> = C extends Lowercase<C> ? false : true;
+
+// 대문자가 연속되는 약어(XMLHttp, userID)가 섞여 있는지
+type HasAcronym<S extends string> = S extends `${infer A}${infer B}${infer Rest}`
+  ? [IsUpper<A>, IsUpper<B>] extends [true, true]
+    ? true
+    : HasAcronym<`${B}${Rest}`>
+  : false;
+
+type CamelWord<W extends string, First extends boolean> = W extends Uppercase<W>
+  ? First extends true
+    ? Lowercase<W>
+    : Capitalize<Lowercase<W>>
+  : HasAcronym<W> extends true
+    ? string
+    : First extends true
+      ? Uncapitalize<W>
+      : Capitalize<W>;
+
+type CamelWords<S extends string, First extends boolean> = S extends `${infer Head}_${infer Tail}`
+  ? Head extends ''
+    ? CamelWords<Tail, First>
+    : `${CamelWord<Head, First>}${CamelWords<Tail, false>}`
+  : S extends ''
+    ? ''
+    : CamelWord<S, First>;
+
+/**
+ * camelCase 변환 결과 타입 (영문 키 기준, 대소문자가 섞인 약어가 있으면 string)
+ * @example type Key = CamelCase<'created_at'> // 'createdAt'
+ * @example type Key = CamelCase<'USER_ID'> // 'userId'
+ */
+export type CamelCase<S extends string> = CamelWords<SeparatorsToUnderscore<S>, true>;
+
+type SnakeChars<S extends string> = S extends `${infer C}${infer Rest}`
+  ? `${IsUpper<C> extends true ? `_${Lowercase<C>}` : C}${SnakeChars<Rest>}`
+  : S;
+
+type SnakeWord<W extends string> = W extends Uppercase<W>
+  ? Lowercase<W>
+  : HasAcronym<W> extends true
+    ? string
+    : SnakeChars<Uncapitalize<W>>;
+
+type SnakeWords<S extends string, First extends boolean> = S extends `${infer Head}_${infer Tail}`
+  ? Head extends ''
+    ? SnakeWords<Tail, First>
+    : `${First extends true ? '' : '_'}${SnakeWord<Head>}${SnakeWords<Tail, false>}`
+  : S extends ''
+    ? ''
+    : `${First extends true ? '' : '_'}${SnakeWord<S>}`;
+
+/**
+ * snake_case 변환 결과 타입 (영문 키 기준, 대소문자가 섞인 약어가 있으면 string)
+ * @example type Key = SnakeCase<'createdAt'> // 'created_at'
+ */
+export type SnakeCase<S extends string> = SnakeWords<SeparatorsToUnderscore<S>, true>;
+
+/**
+ * 모든 키를 camelCase로 바꾼 타입 (중첩 객체와 배열 포함, Date·File 등은 그대로)
+ */
+export type CamelizedKeys<T> = T extends Preserved
+  ? T
+  : T extends readonly (infer U)[]
+    ? CamelizedKeys<U>[]
+    : T extends object
+      ? { [K in keyof T as K extends string ? CamelCase<K> : K]: CamelizedKeys<T[K]> }
+      : T;
+
+/**
+ * 모든 키를 snake_case로 바꾼 타입 (중첩 객체와 배열 포함, Date·File 등은 그대로)
+ */
+export type SnakifiedKeys<T> = T extends Preserved
+  ? T
+  : T extends readonly (infer U)[]
+    ? SnakifiedKeys<U>[]
+    : T extends object
+      ? { [K in keyof T as K extends string ? SnakeCase<K> : K]: SnakifiedKeys<T[K]> }
+      : T;
+
+/**
+ * 키 변환 옵션
+ */
+export interface ConvertKeysOptions {
+  /**
+   * 하위 값을 변환하지 않을 경로 (원본 키 기준, 점 구분, 배열 인덱스는 생략, '*'는 모든 키)
+   * 경로에 해당하는 키 자체는 변환합니다. 이 옵션은 결과 타입에는 반영되지 않습니다.
+   * @example ['metadata', 'items.options']
+   */
+  skipPaths?: string[];
+}
+
+function convertKeys(value: unknown, convert: (key: string) => string, skipPaths: string[][], path: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => convertKeys(item, convert, skipPaths, path));
+  }
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  Object.keys(value).forEach((key) => {
+    const childPath = [...path, key];
+    const skipped = skipPaths.some(
+      (skipPath) =>
+        skipPath.length === childPath.length &&
+        skipPath.every((segment, i) => segment === '*' || segment === childPath[i])
+    );
+    result[convert(key)] = skipped ? value[key] : convertKeys(value[key], convert, skipPaths, childPath);
+  });
+  return result;
+}
+
+/**
+ * 객체의 키를 camelCase로 변환 (중첩 객체와 배열 안의 객체 포함)
+ * Date, File, Blob 등 일반 객체가 아닌 값은 그대로 유지합니다.
+ *
+ * @example
+ * camelizeKeys({ user_name: 'Kim', order_items: [{ item_id: 1 }] })
+ * // { userName: 'Kim', orderItems: [{ itemId: 1 }] }
+ *
+ * @example
+ * camelizeKeys({ user_id: 1, extra_data: { raw_key: 1 } }, { skipPaths: ['extra_data'] })
+ * // { userId: 1, extraData: { raw_key: 1 } }
+ */
+export function camelizeKeys<T>(value: T, options: ConvertKeysOptions = {}): CamelizedKeys<T> {
+  const skipPaths = (options.skipPaths ?? []).map((path) => path.split('.'));
+  return convertKeys(value, camelCase, skipPaths, []) as CamelizedKeys<T>;
+}
+
+/**
+ * 객체의 키를 snake_case로 변환 (중첩 객체와 배열 안의 객체 포함)
+ * Date, File, Blob 등 일반 객체가 아닌 값은 그대로 유지합니다.
+ *
+ * @example
+ * snakifyKeys({ userName: 'Kim', createdAt: new Date() })
+ * // { user_name: 'Kim', created_at: Date }
+ */
+export function snakifyKeys<T>(value: T, options: ConvertKeysOptions = {}): SnakifiedKeys<T> {
+  const skipPaths = (options.skipPaths ?? []).map((path) => path.split('.'));
+  return convertKeys(value, snakeCase, skipPaths, []) as SnakifiedKeys<T>;
+}
@@ -2,13 +2,72 @@
  * String Manipulation Utilities
  */
 
+import { splitGraphemes, getDisplayWidth, type StringUnit } from './grapheme';
+import { htmlToText } from './html';
+
+// 문자소 목록과 단위별 길이
+const measure = (str: string, unit: StringUnit = 'grapheme'): [string, number][] =>
+  splitGraphemes(str).map((grapheme) => [grapheme, unit === 'width' ? getDisplayWidth(grapheme) : 1]);
+
+const lengthOf = (str: string, unit: StringUnit = 'grapheme') =>
+  unit === 'width' ? getDisplayWidth(str) : splitGraphemes(str).length;
+
+/**
+ * truncate 옵션
+ */
+export interface TruncateOptions {
+  /** 말줄임표 (기본값: '...') */
+  suffix?: string;
+  /** 길이 단위 (기본값: 'grapheme', 'width'면 전각 문자와 이모지를 2칸으로 계산) */
+  unit?: StringUnit;
+  /** 단어 중간에서 자르지 않고 마지막 공백에서 자름 (공백이 없으면 글자 단위, 기본값: false) */
+  wordBoundary?: boolean;
+}
+
 /**
- * 문자열을 지정된 길이로 자르고 말줄임표 추가
+ * padStart / padEnd 옵션
+ */
+export interface PadOptions {
+  /** 길이 단위 (기본값: 'grapheme', 'width'면 전각 문자와 이모지를 2칸으로 계산) */
+  unit?: StringUnit;
+}
+
+/**
+ * 문자열을 지정된 길이로 자르고 말줄임표 추가 (길이는 말줄임표 제외)
+ * 이모지, 국기, 결합 문자는 한 글자로 세며 중간에서 자르지 않습니다.
+ *
+ * @param str - 대상 문자열
+ * @param length - 최대 길이
+ * @param options - 말줄임표 문자열 또는 옵션 (길이 단위, 단어 경계)
+ *
  * @example truncate('Hello World', 5) // 'Hello...'
+ * @example truncate('좋아요👍🏽👍🏽', 4) // '좋아요👍🏽...'
+ * @example truncate('안녕하세요 여러분', 6, { unit: 'width' }) // '안녕하...'
+ * @example truncate('Hello wonderful world', 12, { wordBoundary: true }) // 'Hello...'
  */
-export function truncate(str: string, length: number, suffix: string = '...'): string {
-  if (str.length <= length) return str;
-  return str.slice(0, length) + suffix;
+export function truncate(str: string, length: number, options: string | TruncateOptions = '...'): string {
+  const { suffix = '...', unit = 'grapheme', wordBoundary = false } =
+    typeof options === 'string' ? { suffix: options } : options;
+
+  if (lengthOf(str, unit) <= length) return str;
+
+  const graphemes: string[] = [];
+  let total = 0;
+  for (const [grapheme, size] of measure(str, unit)) {
+    if (total + size > length) break;
+    graphemes.push(grapheme);
+    total += size;
+  }
+
+  let result = graphemes.join('');
+  if (wordBoundary) {
+    const next = str.slice(result.length);
+    const lastSpace = result.search(/\s\S*$/);
+    if (!/^\s/.test(next) && lastSpace > 0) result = result.slice(0, lastSpace);
+    result = result.trimEnd();
+  }
+
+  return result + suffix;
 }
 
 /**
@@ -69,56 +128,69 @@ export function repeat(str: string, count: number): string {
 }
 
 /**
- * 문자열 뒤집기
+ * 문자열 뒤집기 (이모지, 결합 문자는 한 글자로 유지)
  * @example reverse('hello') // 'olleh'
+ * @example reverse('a👍🏽b') // 'b👍🏽a'
  */
 export function reverse(str: string): string {
-  return str.split('').reverse().join('');
+  return splitGraphemes(str).reverse().join('');
 }
 
 /**
- * 문자열에서 HTML 태그 제거
+ * 문자열에서 HTML 태그 제거 (htmlToText와 같음: 엔티티 디코딩, script/style 내용 제외, 문단 줄바꿈 유지)
  * @example stripHtml('<p>Hello <strong>World</strong></p>') // 'Hello World'
+ * @example stripHtml('a < b &amp;&amp; c') // 'a < b && c'
  */
 export function stripHtml(str: string): string {
-  return str.replace(/<[^>]*>/g, '');
+  return htmlToText(str);
+}
+
+// 채울 문자열을 반복해 지정한 길이만큼 만듦 (문자소 중간에서 자르지 않음)
+function createPadding(length: number, fillString: string, unit: StringUnit): string {
+  const fill = measure(fillString, unit).filter(([, size]) => size > 0);
+  if (length <= 0 || fill.length === 0) return '';
+
+  let padding = '';
+  let total = 0;
+  for (let i = 0; ; i++) {
+    const [grapheme, size] = fill[i % fill.length];
+    if (total + size > length) break;
+    padding += grapheme;
+    total += size;
+  }
+  return padding;
 }
 
 /**
- * 문자열을 특정 길이로 패딩
+ * 문자열을 특정 길이로 패딩 (이모지, 결합 문자는 한 글자로 계산)
  * @example padStart('5', 3, '0') // '005'
+ * @example padStart('👍🏽', 3, '*') // '**👍🏽'
+ * @example padStart('한글', 6, ' ', { unit: 'width' }) // '  한글'
  */
-export function padStart(str: string, length: number, fillString: string = ' '): string {
-  return str.padStart(length, fillString);
+export function padStart(str: string, length: number, fillString: string = ' ', options: PadOptions = {}): string {
+  return createPadding(length - lengthOf(str, options.unit), fillString, options.unit ?? 'grapheme') + str;
 }
 
 /**
  * 문자열을 특정 길이로 패딩 (오른쪽)
  * @example padEnd('5', 3, '0') // '500'
+ * @example padEnd('한글', 6, '.', { unit: 'width' }) // '한글..'
  */
-export function padEnd(str: string, length: number, fillString: string = ' '): string {
-  return str.padEnd(length, fillString);
-}
-
-/**
- * 템플릿 문자열 치환
- * @example template('Hello {name}!', { name: 'World' }) // 'Hello World!'
- */
-export function template(str: string, values: Record<string, any>): string {
-  return str.replace(/\{(\w+)\}/g, (match, key) => {
-    return values[key] !== undefined ? String(values[key]) : match;
-  });
+export function padEnd(str: string, length: number, fillString: string = ' ', options: PadOptions = {}): string {
+  return str + createPadding(length - lengthOf(str, options.unit), fillString, options.unit ?? 'grapheme');
 }
 
 /**
- * 마스킹 (특정 위치의 문자를 *로 변경)
+ * 마스킹 (특정 위치의 문자를 *로 변경, 위치는 문자소 기준)
  * @example mask('1234567890', 3, 7) // '123****890'
+ * @example mask('김👍🏽수', 1, 2) // '김*수'
  */
 export function mask(str: string, start: number, end?: number, maskChar: string = '*'): string {
-  const endPos = end ?? str.length;
+  const graphemes = splitGraphemes(str);
+  const endPos = end ?? graphemes.length;
   return (
-    str.slice(0, start) +
-    maskChar.repeat(endPos - start) +
-    str.slice(endPos)
+    graphemes.slice(0, start).join('') +
+    maskChar.repeat(Math.max(endPos - start, 0)) +
+    graphemes.slice(endPos).join('')
   );
 }
@@ -0,0 +1,397 @@
+/**
+ * String Similarity & Fuzzy Search Utilities
+ *
+ * 편집 거리, Jaro-Winkler, n-gram 유사도와 한글 자모 단위 오타를 허용하는 퍼지 검색
+ */
+
+import { splitGraphemes } from './grapheme';
+import { decomposeHangul, disassembleHangul } from './hangul';
+import { selectKey, type KeySelector } from '../array/selector';
+
+// 편집 거리 (transpositions가 true면 인접한 두 글자 바꿈을 1회로 계산하는 OSA 방식)
+function editDistance(a: string[], b: string[], transpositions: boolean): number {
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (transpositions && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], before[j - 2] + 1);
+      }
+    }
+    before = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 레벤슈타인 거리 (삽입, 삭제, 치환 횟수, 문자소 단위)
+ * @example levenshtein('kitten', 'sitting') // 3
+ * @example levenshtein('사과', '사고') // 1
+ */
+export function levenshtein(a: string, b: string): number {
+  return editDistance(splitGraphemes(a), splitGraphemes(b), false);
+}
+
+/**
+ * 다메라우-레벤슈타인 거리 (인접한 두 글자 바꿈도 1회로 계산, OSA 방식)
+ * @example damerauLevenshtein('ca', 'ac') // 1 (levenshtein은 2)
+ * @example damerauLevenshtein('recieve', 'receive') // 1
+ */
+export function damerauLevenshtein(a: string, b: string): number {
+  return editDistance(splitGraphemes(a), splitGraphemes(b), true);
+}
+
+/**
+ * Jaro-Winkler 유사도 (0~1, 앞부분이 같을수록 높음)
+ * @param prefixScale - 공통 접두사(최대 4글자) 가중치 (기본값: 0.1, 최대 0.25)
+ * @example jaroWinkler('martha', 'marhta') // 0.961...
+ * @example jaroWinkler('abc', 'xyz') // 0
+ */
+export function jaroWinkler(a: string, b: string, options: { prefixScale?: number } = {}): number {
+  const prefixScale = Math.min(Math.max(options.prefixScale ?? 0.1, 0), 0.25);
+  const s1 = splitGraphemes(a);
+  const s2 = splitGraphemes(b);
+
+  if (s1.length === 0 && s2.length === 0) return 1;
+  if (s1.length === 0 || s2.length === 0) return 0;
+
+  const window = Math.max(Math.floor(Math.max(s1.length, s2.length) / 2) - 1, 0);
+  const matched1 = new Array<boolean>(s1.length).fill(false);
+  const matched2 = new Array<boolean>(s2.length).fill(false);
+  let matches = 0;
+
+  s1.forEach((char, i) => {
+    const end = Math.min(i + window + 1, s2.length);
+    for (let j = Math.max(i - window, 0); j < end; j++) {
+      if (!matched2[j] && s2[j] === char) {
+        matched1[i] = matched2[j] = true;
+        matches++;
+        break;
+      }
+    }
+  });
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  s1.forEach((char, i) => {
+    if (!matched1[i]) return;
+    while (!matched2[k]) k++;
+    if (char !== s2[k]) transpositions++;
+    k++;
+  });
+
+  const jaro = (matches / s1.length + matches / s2.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && prefix < s1.length && prefix < s2.length && s1[prefix] === s2[prefix]) prefix++;
+
+  return jaro + prefix * prefixScale * (1 - jaro);
+}
+
+/**
+ * n-gram 유사도 (Dice 계수, 0~1)
+ * 문자소 n개씩 묶은 조각이 얼마나 겹치는지 계산하며, n보다 짧은 문자열은 통째로 비교합니다.
+ *
+ * @param n - 조각 길이 (기본값: 2)
+ * @example ngramSimilarity('night', 'nacht') // 0.25
+ * @example ngramSimilarity('검색어', '검색') // 0.666...
+ */
+export function ngramSimilarity(a: string, b: string, n: number = 2): number {
+  const toGrams = (str: string) => {
+    const chars = splitGraphemes(str);
+    if (chars.length <= n) return chars.length > 0 ? [chars.join('')] : [];
+    return Array.from({ length: chars.length - n + 1 }, (_, i) => chars.slice(i, i + n).join(''));
+  };
+
+  const grams1 = toGrams(a);
+  const grams2 = toGrams(b);
+  if (grams1.length === 0 && grams2.length === 0) return 1;
+
+  const counts = new Map<string, number>();
+  grams1.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+
+  let common = 0;
+  grams2.forEach((gram) => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      counts.set(gram, count - 1);
+      common++;
+    }
+  });
+
+  return (2 * common) / (grams1.length + grams2.length);
+}
+
+/**
+ * 일치한 구간 [시작, 끝) (원본 문자열의 인덱스, str.slice(start, end)로 강조)
+ */
+export type FuzzyMatchRange = [start: number, end: number];
+
+/**
+ * fuzzyMatch 옵션
+ */
+export interface FuzzyMatchOptions {
+  /** 대소문자 구분 (기본값: false) */
+  caseSensitive?: boolean;
+  /** 한글을 자모 단위로 비교하고 초성 검색 허용 (기본값: true) */
+  jamo?: boolean;
+}
+
+/**
+ * fuzzyMatch 결과
+ */
+export interface FuzzyMatchResult {
+  /** 일치 점수 (0~1, 1은 완전 일치) */
+  score: number;
+  /** 일치한 구간 */
+  ranges: FuzzyMatchRange[];
+}
+
+interface SearchText {
+  units: string[];
+  // 각 단위(글자 또는 자모)가 나온 원본 글자의 구간
+  origins: FuzzyMatchRange[];
+}
+
+function toSearchText(text: string, { caseSensitive = false, jamo = true }: FuzzyMatchOptions): SearchText {
+  const units: string[] = [];
+  const origins: FuzzyMatchRange[] = [];
+  let offset = 0;
+
+  Array.from(text).forEach((char) => {
+    const normalized = caseSensitive ? char : char.toLowerCase();
+    Array.from(jamo ? disassembleHangul(normalized) : normalized).forEach((unit) => {
+      units.push(unit);
+      origins.push([offset, offset + char.length]);
+    });
+    offset += char.length;
+  });
+
+  return { units, origins };
+}
+
+function findSequence(units: string[], query: string[], matches = (unit: string, target: string) => unit === target) {
+  for (let start = 0; start + query.length <= units.length; start++) {
+    if (query.every((target, i) => matches(units[start + i], target))) return start;
+  }
+  return -1;
+}
+
+// 검색어를 일부 편집해 텍스트 어딘가에 맞출 때의 최소 편집 거리와 구간 (Sellers 알고리즘, OSA)
+function approximateMatch(units: string[], query: string[]) {
+  let before: { distance: number[]; start: number[] } | null = null;
+  let previous = {
+    distance: new Array<number>(units.length + 1).fill(0),
+    start: Array.from({ length: units.length + 1 }, (_, j) => j),
+  };
+
+  for (let i = 1; i <= query.length; i++) {
+    const current = { distance: [i], start: [0] };
+    for (let j = 1; j <= units.length; j++) {
+      const cost = query[i - 1] === units[j - 1] ? 0 : 1;
+      const candidates: [number, number][] = [
+        [previous.distance[j - 1] + cost, previous.start[j - 1]],
+        [previous.distance[j] + 1, previous.start[j]],
+        [current.distance[j - 1] + 1, current.start[j - 1]],
+      ];
+      if (before && j > 1 && query[i - 1] === units[j - 2] && query[i - 2] === units[j - 1]) {
+        candidates.push([before.distance[j - 2] + 1, before.start[j - 2]]);
+      }
+
+      const [distance, start] = candidates.reduce((best, candidate) => (candidate[0] < best[0] ? candidate : best));
+      current.distance[j] = distance;
+      current.start[j] = start;
+    }
+    before = previous;
+    previous = current;
+  }
+
+  // 거리가 같으면 검색어 길이에 가까운 구간
+  const { distance, start } = previous;
+  const gap = (j: number) => Math.abs(j - start[j] - query.length);
+  let end = 1;
+  for (let j = 2; j <= units.length; j++) {
+    if (distance[j] < distance[end] || (distance[j] === distance[end] && gap(j) < gap(end))) end = j;
+  }
+  return { distance: distance[end], start: start[end], end };
+}
+
+// 단위 구간을 원본 문자열 구간으로 바꾸고 겹치거나 붙은 구간을 합침
+function toRanges(origins: FuzzyMatchRange[], indices: number[]): FuzzyMatchRange[] {
+  return indices
+    .map((index) => origins[index])
+    .sort((a, b) => a[0] - b[0])
+    .reduce<FuzzyMatchRange[]>((ranges, [start, end]) => {
+      const last = ranges[ranges.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else ranges.push([start, end]);
+      return ranges;
+    }, []);
+}
+
+const span = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+/**
+ * 문자열 하나에 대한 퍼지 일치 점수와 강조 구간 (일치하지 않으면 null)
+ *
+ * 점수 기준:
+ * - 완전 일치 1, 앞부분 일치 0.9, 단어 시작 일치 0.85, 중간 포함 0.8
+ * - 초성 일치 0.8(앞부분)/0.75 ('ㄱㅁㅅ' → '김민수')
+ * - 순서대로 흩어져 포함 0.3~0.6 (가까이 모여 있을수록 높음)
+ * - 오타 허용 0.75 × (1 - 편집 거리 / 검색어 길이) (한글은 자모 단위로 계산)
+ *
+ * 한글은 자모로 나눠 비교하므로 입력 중인 글자('삭' → '사과')와 자모 하나 틀린 오타('사꽈' → '사과')도 일치합니다.
+ *
+ * @example fuzzyMatch('Hello World', 'wor') // { score: 0.85, ranges: [[6, 9]] }
+ * @example fuzzyMatch('김민수', 'ㄱㅁ') // { score: 0.8, ranges: [[0, 2]] }
+ * @example fuzzyMatch('apple', 'xyz') // null
+ */
+export function fuzzyMatch(text: string, query: string, options: FuzzyMatchOptions = {}): FuzzyMatchResult | null {
+  const { caseSensitive = false, jamo = true } = options;
+  const target = toSearchText(text, options);
+  const pattern = toSearchText(query.trim(), options).units;
+
+  if (pattern.length === 0) return { score: 1, ranges: [] };
+  if (target.units.length === 0) return null;
+
+  // 포함
+  const index = findSequence(target.units, pattern);
+  if (index !== -1) {
+    const wordStart = index > 0 && /[\s\p{P}]/u.test(target.units[index - 1]);
+    const score = index === 0 ? (pattern.length === target.units.length ? 1 : 0.9) : wordStart ? 0.85 : 0.8;
+    return { score, ranges: toRanges(target.origins, span(index, index + pattern.length)) };
+  }
+
+  const candidates: FuzzyMatchResult[] = [];
+
+  // 초성
+  if (jamo && /[ㄱ-ㅎ]/.test(query)) {
+    const chars = Array.from(text);
+    const normalize = (char: string) => (caseSensitive ? char : char.toLowerCase());
+    const choseong = findSequence(
+      chars.map(normalize),
+      Array.from(normalize(query.trim())),
+      (char, target) => char === target || (/[ㄱ-ㅎ]/.test(target) && decomposeHangul(char)?.choseong === target)
+    );
+
+    if (choseong !== -1) {
+      const start = chars.slice(0, choseong).join('').length;
+      const end = start + chars.slice(choseong, choseong + Array.from(query.trim()).length).join('').length;
+      candidates.push({ score: choseong === 0 ? 0.8 : 0.75, ranges: [[start, end]] });
+    }
+  }
+
+  // 순서대로 흩어져 포함
+  const matched: number[] = [];
+  target.units.forEach((unit, i) => {
+    if (matched.length < pattern.length && unit === pattern[matched.length]) matched.push(i);
+  });
+  if (matched.length === pattern.length) {
+    const compactness = pattern.length / (matched[matched.length - 1] - matched[0] + 1);
+    candidates.push({ score: 0.3 + 0.3 * compactness, ranges: toRanges(target.origins, matched) });
+  }
+
+  // 오타 허용
+  if (pattern.length > 1) {
+    const { distance, start, end } = approximateMatch(target.units, pattern);
+    if (distance < pattern.length && start < end) {
+      candidates.push({
+        score: 0.75 * (1 - distance / pattern.length),
+        ranges: toRanges(target.origins, span(start, end)),
+      });
+    }
+  }
+
+  return candidates.reduce<FuzzyMatchResult | null>(
+    (best, candidate) => (best && best.score >= candidate.score ? best : candidate),
+    null
+  );
+}
+
+/**
+ * fuzzySearch 옵션
+ */
+export interface FuzzySearchOptions<T> extends FuzzyMatchOptions {
+  /** 검색할 속성 또는 값을 고르는 함수 (생략하면 항목 자체를 문자열로 검색) */
+  keys?: KeySelector<T, unknown>[];
+  /** 결과에 포함할 최소 점수 (기본값: 0.4) */
+  threshold?: number;
+  /** 최대 결과 개수 */
+  limit?: number;
+}
+
+/**
+ * 항목의 검색 대상 값 하나에 대한 일치 정보
+ */
+export interface FuzzyMatch<T> extends FuzzyMatchResult {
+  /** 일치한 키 (keys 옵션에 넘긴 값 그대로, keys가 없으면 undefined) */
+  key?: KeySelector<T, unknown>;
+  /** 검색한 문자열 (ranges는 이 문자열 기준) */
+  value: string;
+}
+
+/**
+ * fuzzySearch 결과
+ */
+export interface FuzzySearchResult<T> {
+  item: T;
+  /** 원래 배열에서의 인덱스 */
+  refIndex: number;
+  /** 가장 높은 키의 점수 */
+  score: number;
+  /** 기준 점수 이상으로 일치한 키 목록 (점수 높은 순) */
+  matches: FuzzyMatch<T>[];
+}
+
+/**
+ * 퍼지 검색 (점수 높은 순으로 정렬, 같은 점수는 원래 순서 유지)
+ * 검색창과 자동완성을 위한 함수로, 한글 자모 단위 오타와 초성 검색을 지원합니다.
+ * 빈 검색어는 모든 항목을 원래 순서대로 반환합니다.
+ *
+ * @example
+ * fuzzySearch(['사과', '바나나', '사과주스'], '사꽈').map((r) => r.item) // ['사과', '사과주스']
+ *
+ * @example
+ * const results = fuzzySearch(users, 'ㄱㅁ', { keys: ['name', 'email'], limit: 5 })
+ * results[0].matches[0] // { key: 'name', value: '김민수', score: 0.8, ranges: [[0, 2]] }
+ */
+export function fuzzySearch<T>(items: T[], query: string, options: FuzzySearchOptions<T> = {}): FuzzySearchResult<T>[] {
+  const { keys, threshold = 0.4, limit } = options;
+  const results: FuzzySearchResult<T>[] = [];
+
+  if (query.trim() === '') {
+    const all = items.map((item, refIndex) => ({ item, refIndex, score: 1, matches: [] }));
+    return limit === undefined ? all : all.slice(0, Math.max(limit, 0));
+  }
+
+  items.forEach((item, refIndex) => {
+    const values: [KeySelector<T, unknown> | undefined, unknown][] = keys
+      ? keys.map((key) => [key, selectKey(item, key)])
+      : [[undefined, item]];
+
+    const matches: FuzzyMatch<T>[] = [];
+    values.forEach(([key, raw]) => {
+      if (raw === undefined || raw === null) return;
+
+      const value = String(raw);
+      const match = fuzzyMatch(value, query, options);
+      if (match && match.score >= threshold) matches.push({ key, value, ...match });
+    });
+
+    if (matches.length === 0) return;
+    matches.sort((a, b) => b.score - a.score);
+    results.push({ item, refIndex, score: matches[0].score, matches });
+  });
+
+  results.sort((a, b) => b.score - a.score || a.refIndex - b.refIndex);
+  return limit === undefined ? results : results.slice(0, Math.max(limit, 0));
+}
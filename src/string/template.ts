@@ -0,0 +1,281 @@
+/**
+ * Template Engine
+ *
+ * 중첩 경로, 파이프(포매터), 조건문, 조사 자동 선택, HTML 이스케이프를 지원하는 문자열 템플릿
+ * 숫자/날짜 포매터는 string 모듈이 date, number 모듈에 의존하지 않도록 registerTemplatePipe로 등록해 사용합니다.
+ */
+
+import { capitalize } from './case';
+import { truncate } from './manipulation';
+import { josa, pickJosa } from './hangul';
+import { escapeHtml } from './html';
+
+/**
+ * 템플릿 파이프 (값과 ':'로 구분된 인자를 받아 변환)
+ */
+export type TemplatePipe = (value: unknown, ...args: string[]) => unknown;
+
+/**
+ * 템플릿 옵션
+ */
+export interface TemplateOptions {
+  /** 치환된 값을 HTML 이스케이프 (raw 파이프를 쓴 값은 제외, 기본값: false) */
+  escape?: boolean;
+  /** 이 템플릿에서만 쓸 파이프 (같은 이름의 기본 파이프보다 우선) */
+  pipes?: Record<string, TemplatePipe>;
+}
+
+type Trim<S extends string> = S extends ` ${infer R}` ? Trim<R> : S extends `${infer R} ` ? Trim<R> : S;
+
+type TemplateTags<S extends string> = S extends `${string}{${infer Tag}}${infer Rest}` ? Tag | TemplateTags<Rest> : never;
+
+type TagPath<T extends string> = T extends string
+  ? Trim<T> extends `#if ${infer Condition}`
+    ? Trim<Condition> extends `!${infer Path}`
+      ? Trim<Path>
+      : Trim<Condition>
+    : Trim<T> extends 'else' | '/if'
+      ? never
+      : Trim<T> extends `${infer Path}|${string}`
+        ? Trim<Path>
+        : Trim<T>
+  : never;
+
+type PathKey<P extends string> = P extends `${infer Key}[${string}` ? Key : P;
+
+type PathObject<P extends string> = P extends `${string}${'"' | "'" | ' ' | ':' | ',' | '{'}${string}` | ''
+  ? never
+  : P extends `${infer Head}.${infer Rest}`
+    ? { [K in PathKey<Head>]: Head extends PathKey<Head> ? PathObject<Rest> : unknown }
+    : { [K in PathKey<P>]: unknown };
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+/**
+ * 템플릿 문자열에서 추론한 params 타입
+ * @example
+ * type Params = TemplateParams<'{user.name}님, {count | formatNumber}개'>
+ * // { user: { name: unknown } } & { count: unknown }
+ */
+export type TemplateParams<S extends string> = string extends S
+  ? Record<string, unknown>
+  : [PathObject<TagPath<TemplateTags<S>>>] extends [never]
+    ? Record<string, unknown>
+    : UnionToIntersection<PathObject<TagPath<TemplateTags<S>>>>;
+
+/**
+ * 컴파일된 템플릿 렌더 함수
+ */
+export type TemplateRenderer<S extends string> = (params: TemplateParams<S>) => string;
+
+interface PipeCall {
+  name: string;
+  args: string[];
+}
+
+type TemplateNode =
+  | string
+  | { type: 'value'; source: string; path: string; pipes: PipeCall[]; particle?: string }
+  | { type: 'if'; source: string; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const templatePipes: Record<string, TemplatePipe> = {
+  upper: (value) => String(value ?? '').toUpperCase(),
+  lower: (value) => String(value ?? '').toLowerCase(),
+  capitalize: (value) => capitalize(String(value ?? '')),
+  trim: (value) => String(value ?? '').trim(),
+  truncate: (value, length, suffix) => truncate(String(value ?? ''), Number(length), suffix ?? '...'),
+  default: (value, fallback = '') => (isEmpty(value) ? fallback : value),
+  josa: (value, particle) => josa(String(value ?? ''), particle),
+  plural: (value, one, other = one) => (Math.abs(Number(value)) === 1 ? one : other).replace(/#/g, String(value)),
+  raw: (value) => value,
+};
+
+/**
+ * 기본 템플릿 파이프 등록 (같은 이름이 있으면 덮어씀)
+ * @example
+ * registerTemplatePipe('phone', (value) => formatPhoneNumber(String(value)))
+ * template('{tel | phone}', { tel: '01012345678' }) // '010-1234-5678'
+ *
+ * @example
+ * // 숫자/날짜 포매터 등록
+ * registerTemplatePipe('formatPrice', (value, currency = '₩') => formatPrice(Number(value), currency))
+ * registerTemplatePipe('formatDate', (value, format) => formatDate(value as Date, format))
+ */
+export function registerTemplatePipe(name: string, pipe: TemplatePipe): void {
+  templatePipes[name] = pipe;
+}
+
+const PATH = '[\\w$]+(?:\\.[\\w$]+|\\[\\d+\\])*';
+const IF_PATTERN = new RegExp(`^#if\\s+(!?)\\s*(${PATH})$`);
+const VALUE_PATTERN = new RegExp(`^(${PATH})\\s*((?:\\|[^|]+)*)$`);
+const PIPE_PATTERN = /^\s*([\w$]+)\s*((?::(?:"[^"]*"|'[^']*'|[^:"']*))*)$/;
+const PIPE_ARG_PATTERN = /:("([^"]*)"|'([^']*)'|[^:"']*)/g;
+const PARTICLE_PATTERN = /^[가-힣]+(?:\([가-힣]+\)|\/[가-힣]+)/;
+
+// 'user.name', 'items[0].title' 경로로 값 읽기
+const readPath = (params: unknown, path: string): unknown =>
+  (path.match(/[^.[\]]+/g) ?? []).reduce<any>(
+    (acc, key) => (acc === null || acc === undefined ? undefined : acc[key]),
+    params
+  );
+
+function parsePipes(text: string): PipeCall[] | null {
+  if (!text) return [];
+
+  const pipes: PipeCall[] = [];
+  for (const part of text.slice(1).split('|')) {
+    const match = part.match(PIPE_PATTERN);
+    if (!match) return null;
+
+    const args = Array.from(match[2].matchAll(PIPE_ARG_PATTERN), (arg) => (arg[2] ?? arg[3] ?? arg[1]).trim());
+    pipes.push({ name: match[1], args });
+  }
+  return pipes;
+}
+
+// strict가 아니면 문법 오류 대신 해석할 수 없는 태그를 글자 그대로 둠
+function parseTemplate(source: string, pipes: Record<string, TemplatePipe>, strict: boolean): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { nodes: TemplateNode[]; block?: Extract<TemplateNode, { type: 'if' }>; elseSource?: string }[] = [
+    { nodes: root },
+  ];
+  const tagPattern = /\{([^{}]*)\}/g;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  const current = () => stack[stack.length - 1];
+  const pushText = (text: string) => {
+    if (text) current().nodes.push(text);
+  };
+
+  while ((match = tagPattern.exec(source))) {
+    const content = match[1].trim();
+    const ifMatch = content.match(IF_PATTERN);
+    const valueMatch = content.match(VALUE_PATTERN);
+    const calls = valueMatch ? parsePipes(valueMatch[2].trim()) : null;
+
+    pushText(source.slice(cursor, match.index));
+    cursor = tagPattern.lastIndex;
+
+    if (ifMatch) {
+      const block: Extract<TemplateNode, { type: 'if' }> = {
+        type: 'if',
+        source: match[0],
+        negate: ifMatch[1] === '!',
+        path: ifMatch[2],
+        then: [],
+        otherwise: [],
+      };
+      current().nodes.push(block);
+      stack.push({ nodes: block.then, block });
+    } else if (content === 'else' && current().block && current().elseSource === undefined) {
+      const frame = current();
+      frame.nodes = frame.block!.otherwise;
+      frame.elseSource = match[0];
+    } else if (content === '/if' && (current().block || strict)) {
+      if (!current().block) throw new Error(`Unexpected {/if} in template: ${source}`);
+      stack.pop();
+    } else if (valueMatch && calls && (strict || calls.every(({ name }) => pipes[name] || templatePipes[name]))) {
+      calls.forEach(({ name }) => {
+        if (!pipes[name] && !templatePipes[name]) throw new Error(`Unknown template pipe: ${name}`);
+      });
+
+      // 자리표시자 바로 뒤의 조사 표기 ('{name}을(를)')
+      const particle = source.slice(cursor).match(PARTICLE_PATTERN)?.[0];
+      if (particle) {
+        cursor += particle.length;
+        tagPattern.lastIndex = cursor;
+      }
+      current().nodes.push({
+        type: 'value',
+        source: match[0] + (particle ?? ''),
+        path: valueMatch[1],
+        pipes: calls,
+        particle,
+      });
+    } else {
+      pushText(match[0]);
+    }
+  }
+
+  pushText(source.slice(cursor));
+  if (stack.length > 1 && strict) throw new Error(`Unclosed {#if} in template: ${source}`);
+
+  // 닫히지 않은 {#if}는 태그만 글자로 남기고 안쪽 내용은 그대로 렌더
+  while (stack.length > 1) {
+    const { block, elseSource } = stack.pop()!;
+    const nodes = current().nodes;
+    const rest = elseSource === undefined ? [] : [elseSource, ...block!.otherwise];
+    nodes.splice(nodes.indexOf(block!), 1, block!.source, ...block!.then, ...rest);
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], params: unknown, options: TemplateOptions): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') return node;
+
+      const value = readPath(params, node.path);
+
+      if (node.type === 'if') {
+        const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+        return renderNodes(truthy !== node.negate ? node.then : node.otherwise, params, options);
+      }
+
+      // 파이프 없는 누락 값은 자리표시자를 그대로 둠
+      if (node.pipes.length === 0 && value === undefined) return node.source;
+
+      const result = node.pipes.reduce<unknown>(
+        (acc, { name, args }) => (options.pipes?.[name] ?? templatePipes[name])(acc, ...args),
+        value
+      );
+      const text = node.pipes.length > 0 && (result === undefined || result === null) ? '' : String(result);
+      const escaped = options.escape && !node.pipes.some(({ name }) => name === 'raw') ? escapeHtml(text) : text;
+
+      return node.particle ? escaped + pickJosa(text, node.particle) : escaped;
+    })
+    .join('');
+}
+
+/**
+ * 템플릿을 미리 파싱해 렌더 함수 반환 (params 타입은 템플릿 문자열에서 추론)
+ * 문법 오류(닫히지 않은 {#if}, 없는 파이프)는 컴파일할 때 에러를 던집니다.
+ *
+ * 문법:
+ * - `{user.name}`, `{items[0].title}`: 중첩 경로 (값이 없으면 자리표시자를 그대로 둠)
+ * - `{name | upper}`, `{text | truncate:10}`, `{memo | default:"없음"}`: 파이프와 인자
+ * - `{#if user.vip}...{else}...{/if}`, `{#if !done}`: 조건문 (빈 배열은 false)
+ * - `{name}을(를)`, `{name}이/가`: 값에 맞는 조사 선택
+ *
+ * 기본 파이프: upper, lower, capitalize, trim, truncate:길이:말줄임, default:기본값, josa:조사,
+ * plural:단수:복수 (#은 숫자로 치환), raw (숫자/날짜 포매터는 registerTemplatePipe 또는 options.pipes로 추가)
+ *
+ * @example
+ * const render = compileTemplate('{user.name}님, {#if coupon}{coupon.name}이/가 {/if}도착했습니다')
+ * render({ user: { name: '김민수' }, coupon: { name: '할인 쿠폰' } })
+ * // '김민수님, 할인 쿠폰이 도착했습니다'
+ *
+ * @example
+ * compileTemplate('{count | plural:# item:# items} · {total | won}', {
+ *   pipes: { won: (value) => formatPrice(Number(value)) },
+ * })({ count: 3, total: 12000 })
+ * // '3 items · ₩12,000'
+ */
+export function compileTemplate<S extends string>(source: S, options: TemplateOptions = {}): TemplateRenderer<S> {
+  const nodes = parseTemplate(source, options.pipes ?? {}, true);
+  return (params) => renderNodes(nodes, params, options);
+}
+
+/**
+ * 템플릿 문자열 치환 (compileTemplate과 같은 문법)
+ * 에러를 던지지 않고 해석할 수 없는 태그(없는 파이프, 짝이 맞지 않는 {#if}/{/if})는 글자 그대로 둡니다.
+ * @example template('Hello {name}!', { name: 'World' }) // 'Hello World!'
+ * @example template('{item}을(를) 장바구니에 담았습니다', { item: '사과' }) // '사과를 장바구니에 담았습니다'
+ * @example template('{user.name}: {tier | upper}', { user: { name: 'Kim' }, tier: 'vip' }) // 'Kim: VIP'
+ */
+export function template(str: string, values: Record<string, any>, options: TemplateOptions = {}): string {
+  return renderNodes(parseTemplate(str, options.pipes ?? {}, false), values, options);
+}